@@ -0,0 +1,579 @@
+import { spawn } from "node:child_process";
+import { AppError } from "./errors.ts";
+
+// Whisper models expect 16kHz mono
+export const WHISPER_SAMPLE_RATE = 16000;
+
+/**
+ * Containers recordings arrive in: Chrome and Firefox record WebM or Ogg,
+ * Safari and iOS record MP4
+ */
+export type AudioFormat = "webm" | "ogg" | "mp4" | "wav";
+
+/**
+ * File extension and MIME type for each container, so uploads are named
+ * for what they are rather than what the client said
+ */
+export const AUDIO_FORMATS: Record<AudioFormat, { extension: string; mimeType: string; name: string }> = {
+  webm: { extension: "webm", mimeType: "audio/webm", name: "WebM" },
+  ogg: { extension: "ogg", mimeType: "audio/ogg", name: "Ogg" },
+  mp4: { extension: "mp4", mimeType: "audio/mp4", name: "MP4" },
+  wav: { extension: "wav", mimeType: "audio/wav", name: "WAV" },
+};
+
+/**
+ * Tell the container from the file's first bytes
+ * @returns The format, or undefined if it isn't one we read
+ */
+export function sniffAudioFormat(audio: Buffer): AudioFormat | undefined {
+  if (audio.length >= 4 && audio.readUInt32BE(0) === 0x1a45dfa3) return "webm";
+  if (audio.toString("ascii", 0, 4) === "OggS") return "ogg";
+  if (audio.toString("ascii", 4, 8) === "ftyp") return "mp4";
+  if (audio.toString("ascii", 0, 4) === "RIFF" && audio.toString("ascii", 8, 12) === "WAVE") return "wav";
+  return undefined;
+}
+
+/**
+ * Length of a recording as its container reports it, without decoding.
+ * MediaRecorder often leaves the duration out, so this falls back to the
+ * last timestamp in the file.
+ * @param maxSeconds Stop adding up once past this (the answer is then "too long")
+ * @returns Seconds, or undefined when the container doesn't say
+ */
+export function containerDuration(audio: Buffer, format: AudioFormat, maxSeconds = Infinity): number | undefined {
+  try {
+    switch (format) {
+      case "webm":
+        return webmDuration(audio);
+      case "ogg":
+        return oggDuration(audio);
+      case "mp4":
+        return mp4Duration(audio, maxSeconds);
+      case "wav":
+        return wavDuration(audio);
+    }
+  } catch {
+    // Truncated or odd files are measured once decoded instead
+    return undefined;
+  }
+}
+
+// EBML elements that hold other elements (and may have an unknown size)
+const EBML_SEGMENT = 0x18538067;
+const EBML_INFO = 0x1549a966;
+const EBML_CLUSTER = 0x1f43b675;
+const EBML_BLOCK_GROUP = 0xa0;
+const EBML_CONTAINERS = [EBML_SEGMENT, EBML_INFO, EBML_CLUSTER, EBML_BLOCK_GROUP];
+
+/**
+ * Read an EBML variable-length integer
+ * @param keepMarker Keep the length marker bit (element IDs are written with it)
+ */
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } {
+  const first = buffer[offset];
+  const length = first ? Math.clz32(first) - 23 : 9;
+  if (length > 8 || offset + length > buffer.length) {
+    throw new Error("Bad EBML number");
+  }
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    allOnes &&= buffer[offset + i] === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readUInt(buffer: Buffer, offset: number, size: number): number {
+  let value = 0;
+  for (let i = 0; i < size; i++) value = value * 256 + buffer[offset + i];
+  return value;
+}
+
+function webmDuration(audio: Buffer): number | undefined {
+  let timecodeScale = 1000000;
+  let duration: number | undefined;
+  let clusterTime = 0;
+  let lastTime: number | undefined;
+
+  for (let offset = 0; offset < audio.length; ) {
+    const id = readVint(audio, offset, true);
+    const size = readVint(audio, offset + id.length, false);
+    const start = offset + id.length + size.length;
+    if (EBML_CONTAINERS.includes(id.value)) {
+      // Step inside; a live recording leaves segment and cluster sizes unknown
+      offset = start;
+      continue;
+    }
+    if (size.unknown || start + size.value > audio.length) break;
+
+    if (id.value === 0x2ad7b1) {
+      timecodeScale = readUInt(audio, start, size.value);
+    } else if (id.value === 0x4489) {
+      duration = size.value === 4 ? audio.readFloatBE(start) : audio.readDoubleBE(start);
+    } else if (id.value === 0xe7) {
+      clusterTime = readUInt(audio, start, size.value);
+    } else if (id.value === 0xa3 || id.value === 0xa1) {
+      // SimpleBlock/Block: track number, then a timestamp relative to the cluster
+      const track = readVint(audio, start, false);
+      const time = clusterTime + audio.readInt16BE(start + track.length);
+      lastTime = Math.max(lastTime ?? 0, time);
+    }
+    offset = start + size.value;
+  }
+
+  const ticks = duration || lastTime;
+  return ticks === undefined ? undefined : (ticks * timecodeScale) / 1e9;
+}
+
+function oggDuration(audio: Buffer): number | undefined {
+  // The first page says the codec, and how its granule positions count
+  const payload = 27 + audio[26];
+  let rate: number;
+  let preSkip = 0;
+  if (audio.toString("ascii", payload, payload + 8) === "OpusHead") {
+    rate = 48000;
+    preSkip = audio.readUInt16LE(payload + 10);
+  } else if (audio.toString("ascii", payload + 1, payload + 7) === "vorbis") {
+    rate = audio.readUInt32LE(payload + 12);
+  } else {
+    return undefined;
+  }
+
+  // The last page with a position has the total sample count
+  for (let page = audio.lastIndexOf("OggS"); page >= 0; page = audio.lastIndexOf("OggS", page - 1)) {
+    if (page + 14 <= audio.length) {
+      const granule = audio.readBigInt64LE(page + 6);
+      if (granule >= 0n) {
+        return Math.max(0, Number(granule) - preSkip) / rate;
+      }
+    }
+    // A negative start would search from the end again
+    if (page === 0) break;
+  }
+  return undefined;
+}
+
+// MP4 boxes that hold other boxes
+const MP4_CONTAINERS = ["moov", "trak", "mdia", "moof", "traf"];
+
+/**
+ * Visit each MP4 box, stepping into containers
+ */
+function walkBoxes(audio: Buffer, start: number, end: number, visit: (type: string, body: number, end: number) => void): void {
+  for (let offset = start; offset + 8 <= end; ) {
+    let size = audio.readUInt32BE(offset);
+    const type = audio.toString("ascii", offset + 4, offset + 8);
+    let body = offset + 8;
+    if (size === 1) {
+      size = Number(audio.readBigUInt64BE(offset + 8));
+      body += 8;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < body - offset) break;
+    const boxEnd = Math.min(end, offset + size);
+
+    visit(type, body, boxEnd);
+    if (MP4_CONTAINERS.includes(type)) {
+      walkBoxes(audio, body, boxEnd, visit);
+    }
+    offset += size;
+  }
+}
+
+function mp4Duration(audio: Buffer, maxSeconds: number): number | undefined {
+  let movie: { timescale: number; duration: number } | undefined;
+  let timescale: number | undefined;
+  // Fragmented files (what Safari records) say nothing up front: add up the fragments
+  let fragmentEnd = 0;
+  let fragment = { base: 0, defaultDuration: 0, total: 0 };
+
+  walkBoxes(audio, 0, audio.length, (type, body, end) => {
+    if (body + 4 > audio.length) return;
+    const version = audio[body];
+    const flags = audio.readUIntBE(body + 1, 3);
+    if (type === "mvhd" || type === "mdhd") {
+      const at = version === 1 ? body + 20 : body + 12;
+      const scale = audio.readUInt32BE(at);
+      const duration = version === 1 ? Number(audio.readBigUInt64BE(at + 4)) : audio.readUInt32BE(at + 4);
+      if (type === "mvhd") movie = { timescale: scale, duration };
+      else timescale ??= scale;
+    } else if (type === "traf") {
+      fragment = { base: 0, defaultDuration: 0, total: 0 };
+    } else if (type === "tfhd") {
+      let at = body + 8;
+      if (flags & 0x01) at += 8;
+      if (flags & 0x02) at += 4;
+      if (flags & 0x08) fragment.defaultDuration = audio.readUInt32BE(at);
+    } else if (type === "tfdt") {
+      fragment.base = version === 1 ? Number(audio.readBigUInt64BE(body + 4)) : audio.readUInt32BE(body + 4);
+    } else if (type === "trun") {
+      let count = audio.readUInt32BE(body + 4);
+      let at = body + 8;
+      if (flags & 0x01) at += 4;
+      if (flags & 0x04) at += 4;
+      const sampleBytes = [0x100, 0x200, 0x400, 0x800].filter((flag) => flags & flag).length * 4;
+      if (!(flags & 0x100)) {
+        fragment.total += count * fragment.defaultDuration;
+      } else {
+        // The count comes from the upload: only read the samples that are really there
+        count = Math.min(count, Math.floor(Math.max(0, end - at) / sampleBytes));
+        const limit = timescale ? maxSeconds * timescale : Infinity;
+        for (let i = 0; i < count && fragment.base + fragment.total <= limit; i++, at += sampleBytes) {
+          fragment.total += audio.readUInt32BE(at);
+        }
+      }
+      fragmentEnd = Math.max(fragmentEnd, fragment.base + fragment.total);
+    }
+  });
+
+  if (movie && movie.duration > 0 && movie.timescale > 0) {
+    return movie.duration / movie.timescale;
+  }
+  return fragmentEnd > 0 && timescale ? fragmentEnd / timescale : undefined;
+}
+
+function wavDuration(audio: Buffer): number | undefined {
+  let byteRate: number | undefined;
+  for (let offset = 12; offset + 8 <= audio.length; ) {
+    const id = audio.toString("ascii", offset, offset + 4);
+    const size = audio.readUInt32LE(offset + 4);
+    if (id === "fmt ") {
+      byteRate = audio.readUInt32LE(offset + 16);
+    } else if (id === "data" && byteRate) {
+      // Streamed WAVs may claim more data than they have
+      return Math.min(size, audio.length - offset - 8) / byteRate;
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return undefined;
+}
+
+/**
+ * Decoded PCM audio, one channel
+ */
+export interface MonoAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+/**
+ * Decode a WAV file (8/16/24/32-bit PCM or 32-bit float), mixing all
+ * channels down to one
+ */
+export function decodeWav(buffer: Buffer): MonoAudio {
+  if (buffer.length < 12 || buffer.toString("ascii", 0, 4) !== "RIFF" || buffer.toString("ascii", 8, 12) !== "WAVE") {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: { audioFormat: number; channels: number; sampleRate: number; bitsPerSample: number } | undefined;
+  let data: Buffer | undefined;
+  for (let offset = 12; offset + 8 <= buffer.length; ) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = buffer.subarray(offset + 8, Math.min(buffer.length, offset + 8 + size));
+    if (id === "fmt ") {
+      format = {
+        audioFormat: body.readUInt16LE(0),
+        channels: body.readUInt16LE(2),
+        sampleRate: body.readUInt32LE(4),
+        bitsPerSample: body.readUInt16LE(14),
+      };
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in its sub-format GUID
+      if (format.audioFormat === 0xfffe && body.length >= 26) {
+        format.audioFormat = body.readUInt16LE(24);
+      }
+    } else if (id === "data") {
+      data = body;
+    }
+    // Chunks are padded to an even length
+    offset += 8 + size + (size % 2);
+  }
+
+  if (!format || !data) {
+    throw new Error("WAV file has no fmt or data chunk");
+  }
+  const { audioFormat, channels, sampleRate, bitsPerSample } = format;
+  const isFloat = audioFormat === 3 && bitsPerSample === 32;
+  if (!isFloat && (audioFormat !== 1 || ![8, 16, 24, 32].includes(bitsPerSample))) {
+    throw new Error(`Unsupported WAV format ${audioFormat} with ${bitsPerSample}-bit samples`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frames = Math.floor(data.length / (bytesPerSample * channels));
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      const at = (frame * channels + channel) * bytesPerSample;
+      if (isFloat) sum += data.readFloatLE(at);
+      else if (bitsPerSample === 8) sum += (data[at] - 128) / 128;
+      else if (bitsPerSample === 16) sum += data.readInt16LE(at) / 32768;
+      else if (bitsPerSample === 24) sum += data.readIntLE(at, 3) / 8388608;
+      else sum += data.readInt32LE(at) / 2147483648;
+    }
+    samples[frame] = sum / channels;
+  }
+  return { samples, sampleRate };
+}
+
+/**
+ * Encode mono samples as a 16-bit PCM WAV file
+ */
+export function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+  const wav = Buffer.alloc(44 + samples.length * 2);
+  wav.write("RIFF", 0, "ascii");
+  wav.writeUInt32LE(36 + samples.length * 2, 4);
+  wav.write("WAVEfmt ", 8, "ascii");
+  wav.writeUInt32LE(16, 16);
+  wav.writeUInt16LE(1, 20);
+  wav.writeUInt16LE(1, 22);
+  wav.writeUInt32LE(sampleRate, 24);
+  wav.writeUInt32LE(sampleRate * 2, 28);
+  wav.writeUInt16LE(2, 32);
+  wav.writeUInt16LE(16, 34);
+  wav.write("data", 36, "ascii");
+  wav.writeUInt32LE(samples.length * 2, 40);
+  for (let i = 0; i < samples.length; i++) {
+    wav.writeInt16LE(Math.round(Math.max(-1, Math.min(1, samples[i])) * 32767), 44 + i * 2);
+  }
+  return wav;
+}
+
+/**
+ * Resample audio with linear interpolation
+ */
+export function resample(audio: MonoAudio, sampleRate: number): Float32Array {
+  if (audio.sampleRate === sampleRate) {
+    return audio.samples;
+  }
+
+  const ratio = audio.sampleRate / sampleRate;
+  const length = Math.floor(audio.samples.length / ratio);
+  const output = new Float32Array(length);
+  for (let i = 0; i < length; i++) {
+    const position = i * ratio;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, audio.samples.length - 1);
+    const fraction = position - index;
+    output[i] = audio.samples[index] * (1 - fraction) + audio.samples[next] * fraction;
+  }
+  return output;
+}
+
+/**
+ * Decode any audio ffmpeg understands (the browser records WebM/Opus or MP4)
+ * into 16kHz mono samples. A missing ffmpeg is reported with an ENOENT `cause`.
+ * @param maxSeconds Stop decoding after this long
+ */
+export function decodeWithFfmpeg(audio: Buffer, ffmpegPath: string, maxSeconds?: number): Promise<Float32Array> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(ffmpegPath, [
+      "-hide_banner", "-loglevel", "error",
+      "-i", "pipe:0",
+      ...(maxSeconds ? ["-t", String(maxSeconds)] : []),
+      "-ac", "1", "-ar", String(WHISPER_SAMPLE_RATE),
+      "-f", "f32le", "pipe:1",
+    ]);
+
+    const output: Buffer[] = [];
+    let errorOutput = "";
+    ffmpeg.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+    ffmpeg.stderr.on("data", (chunk: Buffer) => (errorOutput += chunk.toString()));
+    ffmpeg.on("error", (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === "ENOENT"
+          ? new Error(`ffmpeg is needed to read this audio (not found at "${ffmpegPath}"); install it or send WAV`, { cause: error })
+          : error
+      );
+    });
+    ffmpeg.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg could not decode audio: ${errorOutput.trim() || `exit code ${code}`}`));
+        return;
+      }
+      const pcm = Buffer.concat(output);
+      // Copy into an aligned buffer for the Float32Array view
+      resolve(new Float32Array(new Uint8Array(pcm).buffer, 0, Math.floor(pcm.length / 4)));
+    });
+
+    // ffmpeg may exit before reading everything (bad input); that's reported on close
+    ffmpeg.stdin.on("error", () => {});
+    ffmpeg.stdin.end(audio);
+  });
+}
+
+/**
+ * Whether ffmpeg runs, so a missing one is reported at startup rather than
+ * on the first recording
+ * @param ffmpegPath ffmpeg binary (default: ffmpeg on the PATH)
+ */
+export function hasFfmpeg(ffmpegPath = "ffmpeg"): Promise<boolean> {
+  return new Promise((resolve) => {
+    const ffmpeg = spawn(ffmpegPath, ["-version"], { stdio: "ignore" });
+    ffmpeg.on("error", () => resolve(false));
+    ffmpeg.on("close", (code) => resolve(code === 0));
+  });
+}
+
+/**
+ * Limits on recordings
+ */
+export interface AudioLimits {
+  /** Largest upload in bytes */
+  maxBytes: number;
+  /** Longest recording in seconds */
+  maxSeconds: number;
+  /** Recordings whose loudest moment is quieter than this (dBFS) count as silent */
+  silenceDb: number;
+  /** ffmpeg binary for decoding non-WAV audio (default: ffmpeg on the PATH) */
+  ffmpegPath?: string;
+}
+
+/**
+ * Read recording limits from the environment:
+ * - `AUDIO_MAX_BYTES`: largest upload (default: 10 MB)
+ * - `AUDIO_MAX_SECONDS`: longest recording (default: 30)
+ * - `AUDIO_SILENCE_DB`: peak level below which a recording is silent (default: -50)
+ * - `FFMPEG_PATH`: ffmpeg binary
+ */
+export function audioLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): AudioLimits {
+  const number = (name: string, fallback: number, isValid: (value: number) => boolean) => {
+    const value = env[name] ? Number(env[name]) : fallback;
+    if (!isValid(value)) {
+      throw new Error(`Invalid ${name}: ${env[name]}`);
+    }
+    return value;
+  };
+
+  return {
+    maxBytes: number("AUDIO_MAX_BYTES", 10 * 1024 * 1024, (value) => Number.isInteger(value) && value > 0),
+    maxSeconds: number("AUDIO_MAX_SECONDS", 30, (value) => value > 0),
+    silenceDb: number("AUDIO_SILENCE_DB", -50, (value) => value < 0),
+    ffmpegPath: env["FFMPEG_PATH"] || undefined,
+  };
+}
+
+/**
+ * A recording that passed the checks, ready for a transcriber
+ */
+export interface CheckedAudio {
+  /** The audio to transcribe: 16kHz mono WAV when it could be decoded, else the upload */
+  audio: Buffer;
+  /** File name and MIME type matching `audio` */
+  filename: string;
+  mimeType: string;
+  /** Container the upload really was */
+  format: AudioFormat;
+  /** Length in seconds, if known */
+  seconds?: number;
+  /** Whether `audio` was converted to WAV */
+  normalized: boolean;
+}
+
+/**
+ * Checks recordings before they are transcribed: sniffs the real format,
+ * rejects empty, silent, too large or too long ones with an `AUDIO_*`
+ * AppError, and converts what it can decode to 16kHz mono WAV, which every
+ * transcriber reads. Without ffmpeg only WAV is decoded; other formats are
+ * still sniffed and length-checked from their headers.
+ */
+export class AudioIntake {
+  private hasFfmpeg = true;
+
+  constructor(readonly limits: AudioLimits) {}
+
+  /**
+   * @param upload File contents as uploaded
+   * @throws AppError AUDIO_EMPTY, AUDIO_TOO_LARGE, AUDIO_UNSUPPORTED, AUDIO_TOO_LONG or AUDIO_SILENT
+   */
+  async check(upload: Buffer): Promise<CheckedAudio> {
+    if (upload.length === 0) {
+      throw new AppError("AUDIO_EMPTY", "The recording is empty");
+    }
+    if (upload.length > this.limits.maxBytes) {
+      throw new AppError(
+        "AUDIO_TOO_LARGE",
+        `The recording is ${megabytes(upload.length)} MB; the limit is ${megabytes(this.limits.maxBytes)} MB`
+      );
+    }
+
+    const format = sniffAudioFormat(upload);
+    if (!format) {
+      throw new AppError("AUDIO_UNSUPPORTED", "Unsupported audio format (send WebM, Ogg, MP4 or WAV)");
+    }
+    const { extension, mimeType, name } = AUDIO_FORMATS[format];
+
+    // Headers are checked first, so a long file isn't decoded just to be rejected
+    let seconds = containerDuration(upload, format, this.limits.maxSeconds);
+    this.checkLength(seconds);
+
+    const samples = await this.decode(upload, format);
+    if (!samples) {
+      return { audio: upload, filename: `recording.${extension}`, mimeType, format, seconds, normalized: false };
+    }
+
+    seconds = samples.length / WHISPER_SAMPLE_RATE;
+    if (samples.length === 0) {
+      throw new AppError("AUDIO_EMPTY", `The ${name} recording has no sound in it`);
+    }
+    this.checkLength(seconds);
+
+    let peak = 0;
+    for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+    const peakDb = peak > 0 ? 20 * Math.log10(peak) : -Infinity;
+    if (peakDb < this.limits.silenceDb) {
+      throw new AppError("AUDIO_SILENT", `The recording is silent${peak > 0 ? ` (peak ${peakDb.toFixed(0)} dBFS)` : ""}`);
+    }
+
+    return {
+      audio: encodeWav(samples, WHISPER_SAMPLE_RATE),
+      filename: "recording.wav",
+      mimeType: AUDIO_FORMATS.wav.mimeType,
+      format,
+      seconds,
+      normalized: true,
+    };
+  }
+
+  private checkLength(seconds: number | undefined): void {
+    if (seconds !== undefined && seconds > this.limits.maxSeconds) {
+      throw new AppError(
+        "AUDIO_TOO_LONG",
+        `The recording is ${seconds.toFixed(1)} seconds; the limit is ${this.limits.maxSeconds}`
+      );
+    }
+  }
+
+  /**
+   * @returns 16kHz samples, or undefined when there is no ffmpeg for this format
+   */
+  private async decode(upload: Buffer, format: AudioFormat): Promise<Float32Array | undefined> {
+    try {
+      if (format === "wav") {
+        return resample(decodeWav(upload), WHISPER_SAMPLE_RATE);
+      }
+      if (!this.hasFfmpeg) {
+        return undefined;
+      }
+      // A little past the limit is enough to know it's too long
+      return await decodeWithFfmpeg(upload, this.limits.ffmpegPath ?? "ffmpeg", this.limits.maxSeconds + 1);
+    } catch (error) {
+      if (((error as Error).cause as NodeJS.ErrnoException | undefined)?.code === "ENOENT") {
+        console.warn(`⚠️ ${(error as Error).message}; checking recordings from their headers only`);
+        this.hasFfmpeg = false;
+        return undefined;
+      }
+      throw new AppError(
+        "AUDIO_UNSUPPORTED",
+        `Could not read the ${AUDIO_FORMATS[format].name} recording: ${error instanceof Error ? error.message : String(error)}`,
+        { cause: error }
+      );
+    }
+  }
+}
+
+function megabytes(bytes: number): string {
+  return (bytes / 1024 / 1024).toFixed(1);
+}
@@ -0,0 +1,317 @@
+import { printImage, type PrintOptions } from "./print.ts";
+import {
+  PrinterRouter,
+  routingConfigFromEnv,
+  type RouteDecision,
+  type RouteRequest,
+} from "./routing.ts";
+import {
+  prepareForThermal,
+  thermalOptionsForPrinter,
+  thermalProfilesFromEnv,
+  type ThermalOptions,
+  type ThermalProfiles,
+} from "./thermal.ts";
+import { decodePngGray, encodePng, readPngSize, type GrayImage } from "./png.ts";
+import { packBitmap } from "./bitmap.ts";
+import { encodeEscPosRaster, type EscPosOptions } from "./escpos.ts";
+import { openTransport, type PrinterTransport } from "./transport.ts";
+import { sendBitmap, type RasterEncoder } from "./encoder.ts";
+import { CatPrinterEncoder } from "./catprinter.ts";
+import { NiimbotEncoder, type NiimbotOptions } from "./niimbot.ts";
+
+/**
+ * Result of sending an image to a printer backend
+ */
+export interface PrintResult {
+  printerName: string;
+  jobId: string;
+  /** True when the backend knows the job is fully printed (no queue to track) */
+  completed?: boolean;
+  /** Why this printer was chosen */
+  reason?: string;
+}
+
+/**
+ * The image exactly as a backend would send it to the printer
+ */
+export interface RenderedImage {
+  png: Buffer;
+  width: number;
+  height: number;
+  /** Print head width, when the image is rasterized for one */
+  dotWidth?: number;
+}
+
+/**
+ * Something that can turn a PNG into a printed sticker.
+ * `options.thermal` is layered over the thermal settings of the printer
+ * the job goes to.
+ */
+export interface PrinterBackend {
+  /** Backend type, for logs */
+  readonly type: string;
+  /** Decide which printer a job would go to, without printing */
+  route(request?: RouteRequest): Promise<RouteDecision>;
+  /**
+   * Run all print preprocessing without printing
+   * @param printerName Printer the job would go to, for its thermal settings
+   */
+  render(image: Buffer, options?: PrintOptions, printerName?: string): RenderedImage;
+  print(image: Buffer, options?: PrintOptions, request?: RouteRequest): Promise<PrintResult>;
+}
+
+/**
+ * Scale and dither an image for a print head
+ */
+function renderThermal(image: Buffer, thermal: ThermalOptions): { gray: GrayImage; rendered: RenderedImage } {
+  const gray = prepareForThermal(decodePngGray(image), thermal);
+  return {
+    gray,
+    rendered: {
+      png: encodePng(gray),
+      width: gray.width,
+      height: gray.height,
+      dotWidth: thermal.dotWidth,
+    },
+  };
+}
+
+/**
+ * Prints through CUPS (`lp`), letting the router pick a healthy printer
+ * for every job
+ */
+export class CupsBackend implements PrinterBackend {
+  readonly type = "cups";
+
+  constructor(
+    private router: PrinterRouter,
+    private thermal: ThermalProfiles = { printers: {} }
+  ) {}
+
+  /**
+   * All printers jobs may be routed to
+   */
+  get printerNames(): string[] {
+    return this.router.printerNames;
+  }
+
+  /**
+   * Whether jobs may fall back to any USB printer
+   */
+  get fallbackToUSB(): boolean {
+    return this.router.fallbackToUSB;
+  }
+
+  route(request: RouteRequest = {}): Promise<RouteDecision> {
+    return this.router.route(request);
+  }
+
+  render(image: Buffer, options: PrintOptions = {}, printerName?: string): RenderedImage {
+    const thermal = this.thermalFor(options, printerName);
+    // Without thermal settings CUPS gets the image as-is
+    if (!thermal) {
+      return { png: image, ...readPngSize(image) };
+    }
+    return renderThermal(image, thermal).rendered;
+  }
+
+  async print(
+    image: Buffer,
+    options: PrintOptions = {},
+    request: RouteRequest = {}
+  ): Promise<PrintResult> {
+    console.log(`🔍 Routing print job...`);
+    const decision = await this.router.route({ ...request, media: request.media ?? options.media });
+    console.log(`🧭 Routed to "${decision.printerName}": ${decision.reason}`);
+
+    console.log(`\n🚀 Sending print job to ${decision.printerName}...`);
+    const jobId = await printImage(decision.printerName, image, {
+      ...options,
+      thermal: this.thermalFor(options, decision.printerName),
+    });
+    return { printerName: decision.printerName, jobId, reason: decision.reason };
+  }
+
+  /**
+   * A printer's thermal settings with the job's on top. Printers with no
+   * thermal settings get none, whatever the job asks for.
+   */
+  private thermalFor(options: PrintOptions, printerName?: string): ThermalOptions | undefined {
+    const printer = thermalOptionsForPrinter(this.thermal, printerName ?? this.router.printerNames[0]);
+    return printer && { ...printer, ...options.thermal };
+  }
+}
+
+/**
+ * Prints by sending ESC/POS raster commands straight to a device,
+ * socket or serial port, for printers without a CUPS driver
+ */
+export class EscPosBackend implements PrinterBackend {
+  readonly type = "escpos";
+
+  /**
+   * @param target Transport target (see `openTransport`), e.g. `tcp://10.0.0.5:9100`
+   * @param dotWidth Print head width in dots (384 for 58mm, 576 for 80mm)
+   * @param escPosOptions Raster encoding options
+   * @param thermal Thermal settings for this printer
+   */
+  constructor(
+    private target: string,
+    private dotWidth: number = 576,
+    private escPosOptions: EscPosOptions = {},
+    private thermal: ThermalOptions = {}
+  ) {}
+
+  async route(): Promise<RouteDecision> {
+    return { printerName: this.target, reason: "ESC/POS target", skipped: [] };
+  }
+
+  render(image: Buffer, options: PrintOptions = {}): RenderedImage {
+    return renderThermal(image, { ...this.thermal, ...options.thermal, dotWidth: this.dotWidth }).rendered;
+  }
+
+  async print(image: Buffer, options: PrintOptions = {}): Promise<PrintResult> {
+    const { gray } = renderThermal(image, { ...this.thermal, ...options.thermal, dotWidth: this.dotWidth });
+    const bitmap = packBitmap(gray);
+    const job = encodeEscPosRaster(bitmap, this.escPosOptions);
+    const copies = Math.max(1, options.copies ?? 1);
+
+    console.log(`🧾 Encoded ${bitmap.width}x${bitmap.height} raster (${job.length} bytes) for ${this.target}`);
+
+    const transport = await openTransport(this.target);
+    try {
+      for (let i = 0; i < copies; i++) {
+        await transport.write(job);
+      }
+    } catch (error) {
+      throw new Error(
+        `Failed to write to ${transport.description}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      await transport.close();
+    }
+
+    return {
+      printerName: transport.description,
+      jobId: `escpos-${Date.now()}`,
+      completed: true,
+    };
+  }
+}
+
+/**
+ * Prints to label printers with their own raster protocol
+ * (cat printers, Niimbot) through any transport
+ */
+export class LabelPrinterBackend implements PrinterBackend {
+  readonly type: string;
+
+  /**
+   * @param encoder Protocol encoder for the printer family
+   * @param target Transport target string, or a function opening a transport (e.g. BLE)
+   * @param thermal Thermal settings for this printer
+   */
+  constructor(
+    private encoder: RasterEncoder,
+    private target: string | (() => Promise<PrinterTransport>),
+    private thermal: ThermalOptions = {}
+  ) {
+    this.type = encoder.type;
+  }
+
+  async route(): Promise<RouteDecision> {
+    const printerName = typeof this.target === "string" ? this.target : this.encoder.type;
+    return { printerName, reason: `${this.encoder.type} target`, skipped: [] };
+  }
+
+  render(image: Buffer, options: PrintOptions = {}): RenderedImage {
+    return renderThermal(image, { ...this.thermal, ...options.thermal, dotWidth: this.encoder.dotWidth }).rendered;
+  }
+
+  async print(image: Buffer, options: PrintOptions = {}): Promise<PrintResult> {
+    const { gray } = renderThermal(image, { ...this.thermal, ...options.thermal, dotWidth: this.encoder.dotWidth });
+    const bitmap = packBitmap(gray);
+
+    const transport =
+      typeof this.target === "string" ? await openTransport(this.target) : await this.target();
+    try {
+      const bytes = await sendBitmap(this.encoder, bitmap, transport, options.copies ?? 1);
+      console.log(`🏷️ Sent ${bitmap.width}x${bitmap.height} ${this.encoder.type} job (${bytes} bytes) to ${transport.description}`);
+    } catch (error) {
+      throw new Error(
+        `Failed to write to ${transport.description}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    } finally {
+      await transport.close();
+    }
+
+    return {
+      printerName: transport.description,
+      jobId: `${this.encoder.type}-${Date.now()}`,
+      completed: true,
+    };
+  }
+}
+
+/**
+ * Create the printer backend described by the environment:
+ * - `PRINTER_BACKEND`: `cups` (default), `escpos`, `catprinter` or `niimbot`
+ * - `ESCPOS_TARGET`: device path, `tcp://host:9100`, `serial:/dev/ttyUSB0?baud=19200` or `file:out.bin`
+ * - `ESCPOS_DOT_WIDTH`: print head width in dots (default: 576)
+ * - `ESCPOS_CUT`: set to `1` to cut after each sticker
+ * - `LABEL_PRINTER_TARGET`: transport target for `catprinter` / `niimbot` (e.g. `/dev/rfcomm0`)
+ * - `LABEL_PRINTER_DOT_WIDTH`: print head width in dots (default: 384)
+ * - `NIIMBOT_LABEL_TYPE`: `gap` (default), `black-mark` or `continuous`
+ * - `NIIMBOT_LABEL_HEIGHT`: label length in dots
+ * - `PRINTER_NAMES`, `PRINTER_STRATEGY`, `PRINTER_ROUTES`: CUPS routing (see `routingConfigFromEnv`)
+ * @param printerName Default CUPS printer name
+ * @param thermal Thermal settings, by CUPS printer name or backend type
+ */
+export function createPrinterBackend(
+  printerName: string,
+  env: NodeJS.ProcessEnv = process.env,
+  thermal: ThermalProfiles = thermalProfilesFromEnv(env)
+): PrinterBackend {
+  const type = env["PRINTER_BACKEND"] || "cups";
+
+  if (type === "escpos") {
+    const target = env["ESCPOS_TARGET"];
+    if (!target) {
+      throw new Error("ESCPOS_TARGET is required when PRINTER_BACKEND=escpos");
+    }
+    return new EscPosBackend(
+      target,
+      Number(env["ESCPOS_DOT_WIDTH"]) || 576,
+      { cut: env["ESCPOS_CUT"] === "1" },
+      thermalOptionsForPrinter(thermal, type)
+    );
+  }
+
+  if (type === "catprinter" || type === "niimbot") {
+    const target = env["LABEL_PRINTER_TARGET"];
+    if (!target) {
+      throw new Error(`LABEL_PRINTER_TARGET is required when PRINTER_BACKEND=${type}`);
+    }
+    const dotWidth = Number(env["LABEL_PRINTER_DOT_WIDTH"]) || 384;
+    const encoder =
+      type === "catprinter"
+        ? new CatPrinterEncoder({ dotWidth })
+        : new NiimbotEncoder({
+            dotWidth,
+            labelType: (env["NIIMBOT_LABEL_TYPE"] as NiimbotOptions["labelType"]) || "gap",
+            labelHeight: Number(env["NIIMBOT_LABEL_HEIGHT"]) || undefined,
+          });
+    return new LabelPrinterBackend(encoder, target, thermalOptionsForPrinter(thermal, type));
+  }
+
+  if (type !== "cups") {
+    throw new Error(`Unknown PRINTER_BACKEND: ${type}`);
+  }
+
+  return new CupsBackend(new PrinterRouter(routingConfigFromEnv(printerName, env)), thermal);
+}
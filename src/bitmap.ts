@@ -0,0 +1,38 @@
+import type { GrayImage } from "./png.ts";
+
+/**
+ * A 1-bit image packed 8 pixels per byte, most significant bit first.
+ * A set bit is a black (burned) dot.
+ */
+export interface MonoBitmap {
+  width: number;
+  height: number;
+  /** Bytes per row (width rounded up to a multiple of 8) */
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+/**
+ * Pack a grayscale image into a 1-bit bitmap using a fixed threshold
+ * @param image Grayscale image
+ * @param threshold Pixels darker than this become black dots (default: 128)
+ */
+export function packBitmap(image: GrayImage, threshold: number = 128): MonoBitmap {
+  const bytesPerRow = Math.ceil(image.width / 8);
+  const data = new Uint8Array(bytesPerRow * image.height);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[y * image.width + x] < threshold) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return { width: image.width, height: image.height, bytesPerRow, data };
+}
+
+/**
+ * Check whether the dot at (x, y) is black
+ */
+export function getDot(bitmap: MonoBitmap, x: number, y: number): boolean {
+  return (bitmap.data[y * bitmap.bytesPerRow + (x >> 3)] & (0x80 >> (x & 7))) !== 0;
+}
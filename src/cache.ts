@@ -0,0 +1,242 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { createHash } from "node:crypto";
+import { JsonFile } from "./persist.ts";
+
+/**
+ * Everything that changes what an image looks like
+ */
+export interface CacheKeyParts {
+  prompt: string;
+  style: string;
+  provider: string;
+  model: string;
+  aspectRatio: string;
+}
+
+/**
+ * A cached image, as stored in the index
+ */
+export interface CacheEntry {
+  key: string;
+  /** Size of the PNG in bytes */
+  size: number;
+  prompt: string;
+  /** Provider and model that made the image (part of the key) */
+  provider: string;
+  model: string;
+  createdAt: string;
+  lastUsedAt: string;
+  hits: number;
+}
+
+/**
+ * Options for the image cache
+ */
+export interface ImageCacheOptions {
+  /** Directory for index.json and images (default: output/cache) */
+  directory?: string;
+  /** Total size cap in bytes; least recently used images go first (default: 200MB) */
+  maxBytes?: number;
+  /** Default freshness: ignore images older than this many days (default: no limit) */
+  maxAgeDays?: number;
+}
+
+/**
+ * Normalize a prompt so trivial differences ("A cat!" / "a cat") share an entry
+ */
+export function normalizePrompt(prompt: string): string {
+  return prompt
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Content address for an image request
+ */
+export function cacheKey(parts: CacheKeyParts): string {
+  return createHash("sha256")
+    .update(
+      JSON.stringify([
+        normalizePrompt(parts.prompt),
+        parts.style,
+        parts.provider,
+        parts.model,
+        parts.aspectRatio,
+      ])
+    )
+    .digest("hex");
+}
+
+/**
+ * Stores generated PNGs on disk by content address, evicting the least
+ * recently used images once the size cap is reached
+ */
+export class ImageCache {
+  private entries = new Map<string, CacheEntry>();
+  private directory: string;
+  private maxBytes: number;
+  private maxAgeDays?: number;
+  private index: JsonFile<CacheEntry>;
+  private loading: Promise<void> | null = null;
+
+  constructor(options: ImageCacheOptions = {}) {
+    this.directory = options.directory ?? path.join("output", "cache");
+    this.maxBytes = options.maxBytes ?? 200 * 1024 * 1024;
+    this.maxAgeDays = options.maxAgeDays;
+    this.index = new JsonFile(path.join(this.directory, "index.json"), "image cache");
+  }
+
+  private imagePath(key: string): string {
+    return path.join(this.directory, `${key}.png`);
+  }
+
+  /**
+   * Total size of cached images in bytes
+   */
+  get totalBytes(): number {
+    let total = 0;
+    for (const entry of this.entries.values()) total += entry.size;
+    return total;
+  }
+
+  /**
+   * Number of cached images
+   */
+  get count(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Look up an image
+   * @param key Key from `cacheKey`
+   * @param maxAgeDays Only accept images newer than this (default: the cache setting)
+   * @returns The PNG and its entry, or undefined on a miss
+   */
+  async get(
+    key: string,
+    maxAgeDays: number | undefined = this.maxAgeDays
+  ): Promise<{ image: Buffer; entry: CacheEntry } | undefined> {
+    await this.load();
+
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (maxAgeDays !== undefined) {
+      const age = Date.now() - new Date(entry.createdAt).getTime();
+      if (age > maxAgeDays * 24 * 60 * 60 * 1000) return undefined;
+    }
+
+    let image: Buffer;
+    try {
+      image = await fs.promises.readFile(this.imagePath(key));
+    } catch {
+      // Image was removed behind our back
+      this.entries.delete(key);
+      await this.save();
+      return undefined;
+    }
+
+    entry.lastUsedAt = new Date().toISOString();
+    entry.hits++;
+    await this.save();
+    return { image, entry };
+  }
+
+  /**
+   * Store an image, replacing any older one with the same key
+   * @param key Key from `cacheKey`
+   * @param image PNG file contents
+   * @param info Prompt and the provider/model that made it
+   */
+  async set(
+    key: string,
+    image: Buffer,
+    info: Pick<CacheEntry, "prompt" | "provider" | "model">
+  ): Promise<CacheEntry> {
+    await this.load();
+
+    const now = new Date().toISOString();
+    const entry: CacheEntry = {
+      key,
+      size: image.length,
+      ...info,
+      createdAt: now,
+      lastUsedAt: now,
+      hits: 0,
+    };
+
+    await fs.promises.writeFile(this.imagePath(key), image);
+    this.entries.set(key, entry);
+    await this.evict();
+    await this.save();
+    return entry;
+  }
+
+  /**
+   * Remove every cached image
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    const keys = [...this.entries.keys()];
+    this.entries.clear();
+    await Promise.all(keys.map((key) => fs.promises.rm(this.imagePath(key), { force: true })));
+    await this.save();
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      const saved = await this.index.load();
+      for (const entry of saved) {
+        this.entries.set(entry.key, entry);
+      }
+      console.log(`🗃️ Loaded ${saved.length} cached image(s)`);
+    })();
+    return this.loading;
+  }
+
+  /**
+   * Drop least recently used images until the cache fits its size cap
+   */
+  private async evict(): Promise<void> {
+    let total = this.totalBytes;
+    if (total <= this.maxBytes) return;
+
+    const byLastUse = [...this.entries.values()].sort((a, b) =>
+      a.lastUsedAt.localeCompare(b.lastUsedAt)
+    );
+    for (const entry of byLastUse) {
+      if (total <= this.maxBytes) break;
+      this.entries.delete(entry.key);
+      total -= entry.size;
+      await fs.promises.rm(this.imagePath(entry.key), { force: true });
+      console.log(`🧹 Evicted cached image for "${entry.prompt}"`);
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.index.save(() => [...this.entries.values()]);
+  }
+}
+
+/**
+ * Create the image cache described by the environment, or undefined if off:
+ * - `IMAGE_CACHE`: set to `0` to turn the cache off
+ * - `IMAGE_CACHE_MAX_MB`: size cap in megabytes (default: 200)
+ * - `IMAGE_CACHE_MAX_AGE_DAYS`: reuse images seen within this many days (default: no limit)
+ */
+export function createImageCache(env: NodeJS.ProcessEnv = process.env): ImageCache | undefined {
+  if (env["IMAGE_CACHE"] === "0") {
+    return undefined;
+  }
+
+  const maxMb = Number(env["IMAGE_CACHE_MAX_MB"]) || 200;
+  const maxAgeDays = env["IMAGE_CACHE_MAX_AGE_DAYS"] ? Number(env["IMAGE_CACHE_MAX_AGE_DAYS"]) : undefined;
+  if (maxAgeDays !== undefined && !(maxAgeDays >= 0)) {
+    throw new Error(`Invalid IMAGE_CACHE_MAX_AGE_DAYS: ${env["IMAGE_CACHE_MAX_AGE_DAYS"]}`);
+  }
+
+  return new ImageCache({ maxBytes: maxMb * 1024 * 1024, maxAgeDays });
+}
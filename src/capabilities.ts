@@ -0,0 +1,188 @@
+/**
+ * One option from `lpoptions -l`
+ */
+export interface PrinterOption {
+  /** Option keyword (e.g. `PageSize`) */
+  key: string;
+  /** Human readable label (e.g. `Media Size`) */
+  label: string;
+  /** Allowed values */
+  values: string[];
+  /** Current default (the value marked with `*`) */
+  defaultValue?: string;
+}
+
+/**
+ * A media size with its dimensions, when they can be worked out
+ */
+export interface MediaSize {
+  name: string;
+  /** Width in millimetres */
+  widthMm?: number;
+  /** Height in millimetres */
+  heightMm?: number;
+}
+
+/**
+ * Typed view of what a printer supports
+ */
+export interface PrinterCapabilities {
+  printerName: string;
+  /** Every option, keyed by keyword */
+  options: Record<string, PrinterOption>;
+  /** Supported resolutions in dots per inch */
+  resolutions: number[];
+  defaultResolution?: number;
+  supportsColor: boolean;
+  mediaSizes: MediaSize[];
+  defaultMedia?: string;
+  /** Whether `Custom.WxH` sizes are accepted */
+  supportsCustomMedia: boolean;
+}
+
+const MM_PER_INCH = 25.4;
+const MM_PER_POINT = MM_PER_INCH / 72;
+
+// Dimensions (mm) of named sizes that don't describe themselves
+const KNOWN_MEDIA: Record<string, [number, number]> = {
+  Letter: [215.9, 279.4],
+  Legal: [215.9, 355.6],
+  Executive: [184.2, 266.7],
+  Statement: [139.7, 215.9],
+  A4: [210, 297],
+  A5: [148, 210],
+  A6: [105, 148],
+  B5: [176, 250],
+  Postcard: [100, 148],
+  Env10: [104.8, 241.3],
+  EnvDL: [110, 220],
+};
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Work out the dimensions of a media size name. Understands PPD names
+ * (`w288h432`, `4x6`, `A4`) and PWG names (`oe_4x6-label_4x6in`)
+ * @param name Media size name
+ */
+export function parseMediaSize(name: string): MediaSize {
+  // Strip variants like ".Fullbleed" / ".Borderless", but not decimals ("8.5x11in")
+  const base = name.replace(/(?:\.[A-Za-z]\w*)+$/, "");
+
+  // PPD point sizes: w288h432
+  const points = base.match(/^w(\d+(?:\.\d+)?)h(\d+(?:\.\d+)?)$/);
+  if (points) {
+    return {
+      name,
+      widthMm: round(Number(points[1]) * MM_PER_POINT),
+      heightMm: round(Number(points[2]) * MM_PER_POINT),
+    };
+  }
+
+  // PWG self-describing names end in _<w>x<h><unit>
+  const pwg = base.match(/_(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)(mm|in)$/);
+  // Inch sizes: 4x6, 4x6in, 2.25x1.25
+  const inches = base.match(/^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)(in)?$/);
+  const match = pwg ?? inches;
+  if (match) {
+    const scale = match[3] === "mm" ? 1 : MM_PER_INCH;
+    return {
+      name,
+      widthMm: round(Number(match[1]) * scale),
+      heightMm: round(Number(match[2]) * scale),
+    };
+  }
+
+  const known = KNOWN_MEDIA[base];
+  if (known) {
+    return { name, widthMm: known[0], heightMm: known[1] };
+  }
+
+  return { name };
+}
+
+/**
+ * Parse a resolution value (`203dpi`, `300x600dpi`) into dots per inch.
+ * Uses the horizontal resolution for asymmetric values.
+ */
+export function parseResolution(value: string): number | undefined {
+  const match = value.match(/^(\d+)(?:x\d+)?dpi$/i);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Parse `lpoptions -p <printer> -l` output
+ * @param stdout Output of `lpoptions -l`
+ * @returns Options keyed by keyword
+ */
+export function parsePrinterOptions(stdout: string): Record<string, PrinterOption> {
+  const options: Record<string, PrinterOption> = {};
+
+  // Lines look like: "PageSize/Media Size: *w288h432 Letter A4"
+  for (const line of stdout.split("\n")) {
+    const match = line.match(/^([^/:\s]+)(?:\/([^:]*))?:\s*(.*)$/);
+    if (!match) continue;
+
+    const values: string[] = [];
+    let defaultValue: string | undefined;
+    for (const token of match[3].split(/\s+/).filter((t) => t)) {
+      if (token.startsWith("*")) {
+        defaultValue = token.slice(1);
+        values.push(defaultValue);
+      } else {
+        values.push(token);
+      }
+    }
+
+    options[match[1]] = {
+      key: match[1],
+      label: match[2] ?? match[1],
+      values,
+      defaultValue,
+    };
+  }
+
+  return options;
+}
+
+/**
+ * Build a typed capabilities object from `lpoptions -l` output
+ * @param printerName Name of the printer
+ * @param stdout Output of `lpoptions -p <printer> -l`
+ */
+export function parseCapabilities(printerName: string, stdout: string): PrinterCapabilities {
+  const options = parsePrinterOptions(stdout);
+
+  const resolutionOption = options["Resolution"] ?? options["printer-resolution"];
+  const resolutions = (resolutionOption?.values ?? [])
+    .map(parseResolution)
+    .filter((dpi): dpi is number => dpi !== undefined);
+  const defaultResolution = resolutionOption?.defaultValue
+    ? parseResolution(resolutionOption.defaultValue)
+    : undefined;
+
+  const colorValues = [
+    ...(options["ColorModel"]?.values ?? []),
+    ...(options["print-color-mode"]?.values ?? []),
+  ];
+  const supportsColor = colorValues.some((value) => /rgb|cmy|color/i.test(value));
+
+  const mediaOption = options["PageSize"] ?? options["media"];
+  const mediaValues = mediaOption?.values ?? [];
+  const mediaSizes = mediaValues
+    .filter((value) => !value.startsWith("Custom."))
+    .map(parseMediaSize);
+
+  return {
+    printerName,
+    options,
+    resolutions,
+    defaultResolution,
+    supportsColor,
+    mediaSizes,
+    defaultMedia: mediaOption?.defaultValue,
+    supportsCustomMedia: mediaValues.some((value) => value.startsWith("Custom.")),
+  };
+}
@@ -0,0 +1,123 @@
+import type { MonoBitmap } from "./bitmap.ts";
+import type { RasterEncoder } from "./encoder.ts";
+
+/**
+ * Command bytes understood by GB01/GB02/MX05 style "cat printers"
+ */
+export const CatCommand = {
+  FeedPaper: 0xa1,
+  DrawLine: 0xa2,
+  GetDeviceState: 0xa3,
+  SetQuality: 0xa4,
+  Lattice: 0xa6,
+  SetEnergy: 0xaf,
+  SetSpeed: 0xbd,
+  SetDrawingMode: 0xbe,
+} as const;
+
+const LATTICE_START = [0xaa, 0x55, 0x17, 0x38, 0x44, 0x5f, 0x5f, 0x5f, 0x44, 0x38, 0x2c];
+const LATTICE_END = [0xaa, 0x55, 0x17, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x17];
+
+/**
+ * Options for cat printer jobs
+ */
+export interface CatPrinterOptions {
+  /** Print head width in dots (default: 384) */
+  dotWidth?: number;
+  /** Burn energy 0x0000-0xffff; higher is darker (default: 0x3000) */
+  energy?: number;
+  /** Motor speed; lower is slower and darker (default: 32) */
+  speed?: number;
+  /** Lines to feed after the image (default: 80) */
+  feedLines?: number;
+}
+
+/**
+ * CRC-8 (polynomial 0x07, init 0) used by the cat printer packet framing
+ */
+export function crc8(data: ArrayLike<number>): number {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xff : (crc << 1) & 0xff;
+    }
+  }
+  return crc;
+}
+
+/**
+ * Frame a cat printer command:
+ * 51 78 <cmd> 00 <len> 00 <data...> <crc8(data)> ff
+ */
+export function catPacket(command: number, data: ArrayLike<number> = [0x00]): Buffer {
+  return Buffer.from([
+    0x51,
+    0x78,
+    command,
+    0x00,
+    data.length & 0xff,
+    (data.length >> 8) & 0xff,
+    ...Array.from(data),
+    crc8(data),
+    0xff,
+  ]);
+}
+
+function uint16LE(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+// Reverse bit order within a byte: cat printers want the leftmost dot in the LSB
+function reverseBits(byte: number): number {
+  let result = 0;
+  for (let i = 0; i < 8; i++) {
+    result = (result << 1) | ((byte >> i) & 1);
+  }
+  return result;
+}
+
+/**
+ * Encodes bitmaps for GB01-family BLE "cat printers"
+ */
+export class CatPrinterEncoder implements RasterEncoder {
+  readonly type = "catprinter";
+  readonly dotWidth: number;
+  private energy: number;
+  private speed: number;
+  private feedLines: number;
+
+  constructor(options: CatPrinterOptions = {}) {
+    this.dotWidth = options.dotWidth ?? 384;
+    this.energy = options.energy ?? 0x3000;
+    this.speed = options.speed ?? 32;
+    this.feedLines = options.feedLines ?? 80;
+  }
+
+  encode(bitmap: MonoBitmap, copies: number = 1): Buffer[] {
+    const lineBytes = this.dotWidth / 8;
+    const packets: Buffer[] = [
+      catPacket(CatCommand.GetDeviceState),
+      catPacket(CatCommand.SetQuality, [0x33]),
+      catPacket(CatCommand.Lattice, LATTICE_START),
+      catPacket(CatCommand.SetEnergy, uint16LE(this.energy)),
+      catPacket(CatCommand.SetDrawingMode, [0x00]),
+      catPacket(CatCommand.SetSpeed, [this.speed]),
+    ];
+
+    for (let copy = 0; copy < copies; copy++) {
+      for (let y = 0; y < bitmap.height; y++) {
+        const line = new Array<number>(lineBytes).fill(0);
+        for (let x = 0; x < Math.min(lineBytes, bitmap.bytesPerRow); x++) {
+          line[x] = reverseBits(bitmap.data[y * bitmap.bytesPerRow + x]);
+        }
+        packets.push(catPacket(CatCommand.DrawLine, line));
+      }
+      packets.push(catPacket(CatCommand.FeedPaper, uint16LE(this.feedLines)));
+    }
+
+    packets.push(catPacket(CatCommand.Lattice, LATTICE_END));
+    packets.push(catPacket(CatCommand.GetDeviceState));
+    return packets;
+  }
+}
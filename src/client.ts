@@ -5,6 +5,56 @@ const audioElement = document.querySelector("#audio") as HTMLAudioElement;
 const imageDisplay = document.querySelector(
   ".image-display"
 ) as HTMLImageElement;
+const printerStatus = document.querySelector(
+  ".printer-status"
+) as HTMLParagraphElement;
+const stylePicker = document.querySelector(".style-picker") as HTMLDivElement;
+const printAgainBtn = document.querySelector(".print-again") as HTMLButtonElement;
+const galleryToggle = document.querySelector(".gallery-toggle") as HTMLButtonElement;
+const gallery = document.querySelector(".gallery") as HTMLDivElement;
+const gallerySearch = document.querySelector(".gallery-search") as HTMLInputElement;
+const galleryGrid = document.querySelector(".gallery-grid") as HTMLDivElement;
+const galleryMore = document.querySelector(".gallery-more") as HTMLButtonElement;
+const candidatesDiv = document.querySelector(".candidates") as HTMLDivElement;
+
+// Add ?preview to the URL to see what would print without printing
+const previewMode = new URLSearchParams(location.search).has("preview");
+// Add ?fresh to always generate a new image instead of reusing a cached one
+const freshMode = new URLSearchParams(location.search).has("fresh");
+// Add ?provider=openai (and optionally &model=dall-e-3) to pick the image generator
+const imageProvider = new URLSearchParams(location.search).get("provider") ?? undefined;
+const imageModel = new URLSearchParams(location.search).get("model") ?? undefined;
+// Add ?choose to pick from a few pictures before printing (?choose=0 turns it off
+// when the server has CHOOSE_MODE=1)
+const chooseParam = new URLSearchParams(location.search).get("choose");
+const chooseMode = chooseParam === null ? undefined : chooseParam !== "0";
+// Add ?name=Ava (and/or &date) to print a name tag on every sticker
+const nameTag = new URLSearchParams(location.search).get("name") ?? undefined;
+const dateTag = new URLSearchParams(location.search).has("date");
+const overlay = nameTag || dateTag ? { name: nameTag, date: dateTag } : undefined;
+// Add ?lang=ja (or es, fr...) when the kids speak that language; the server
+// detects it otherwise
+const spokenLanguage = new URLSearchParams(location.search).get("lang") ?? undefined;
+
+// Sticker style, remembered between visits
+let selectedStyle = localStorage.getItem("sticker-style") ?? undefined;
+
+// The sticker on screen, for "print that again"
+let currentStickerId: string | null = null;
+// What was asked for last, and in which language, for "make it a mandala"
+let lastPrompt: { text: string; language?: string } | null = null;
+
+// What the server made of the transcript (see src/voice.ts)
+interface VoiceCommand {
+  action: "generate" | "cancel" | "reprint" | "redraw";
+  prompt: string;
+  copies?: number;
+  style?: string;
+  size?: "small" | "large";
+}
+
+// Per-sticker settings said out loud ("print two of them", "bigger")
+type StickerSettings = Pick<VoiceCommand, "copies" | "style" | "size">;
 
 let mediaRecorder: MediaRecorder | null = null;
 let audioChunks: Blob[] = [];
@@ -32,6 +82,66 @@ function wait(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// What each server error code means for a kid. "Try again" ones can be
+// retried right away; "ask a grown-up" ones need something fixed.
+const ERROR_MESSAGES: Record<string, string> = {
+  TRANSCRIPTION_TIMEOUT: "I couldn't hear that in time. Try again!",
+  TRANSCRIPTION_FAILED: "My ears aren't working right now. Try again!",
+  GENERATION_TIMEOUT: "Drawing took too long. Try again!",
+  GENERATION_FAILED: "Oops, my crayons slipped! Try again.",
+  RATE_LIMITED: "Lots of drawing going on! Wait a moment and try again.",
+  QUOTA_EXCEEDED: "I'm out of drawing power. Ask a grown-up to check the account.",
+  AUDIO_EMPTY: "I didn't hear anything. Hold the button while you talk!",
+  AUDIO_SILENT: "I didn't hear anything. Hold the button while you talk!",
+  AUDIO_TOO_LONG: "That was a long one! Tell me a shorter idea.",
+  AUDIO_TOO_LARGE: "That was a long one! Tell me a shorter idea.",
+  AUDIO_UNSUPPORTED: "I couldn't play that recording. Ask a grown-up to try another browser.",
+  PRINTER_OFFLINE: "The printer is asleep. Ask a grown-up to wake it up!",
+  PRINT_FAILED: "The printer got stuck. Ask a grown-up to check it.",
+};
+const UNKNOWN_ERROR_MESSAGE = "Something went wrong. Ask a grown-up to check the computer.";
+
+// An error response from the server: `{ error, code, retryable }`
+class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly code: string,
+    readonly retryable: boolean
+  ) {
+    super(message);
+  }
+}
+
+async function readError(response: Response): Promise<ApiError> {
+  try {
+    const { error, code, retryable } = await response.json();
+    return new ApiError(error ?? response.statusText, code ?? "INTERNAL_ERROR", retryable === true);
+  } catch {
+    return new ApiError(response.statusText, "INTERNAL_ERROR", response.status >= 500);
+  }
+}
+
+// Kid-friendly text for any error (blocked prompts keep the server's own message)
+function friendlyError(error: unknown): string {
+  if (!(error instanceof ApiError)) {
+    return "I can't reach the sticker machine. Ask a grown-up to check the computer.";
+  }
+  if (error.code === "GENERATION_BLOCKED") {
+    return error.message;
+  }
+  return ERROR_MESSAGES[error.code] ?? UNKNOWN_ERROR_MESSAGE;
+}
+
+// Recording problems a kid can fix by recording again
+const RECORD_AGAIN_CODES = ["AUDIO_EMPTY", "AUDIO_SILENT", "AUDIO_TOO_LONG", "AUDIO_TOO_LARGE"];
+
+// Short label for the record button after an error
+function errorButtonText(error: unknown): string {
+  return error instanceof ApiError && !error.retryable && !RECORD_AGAIN_CODES.includes(error.code)
+    ? "Ask a grown-up"
+    : "Try again!";
+}
+
 async function resetRecorder() {
   audioChunks = [];
   const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
@@ -48,69 +158,32 @@ async function resetRecorder() {
     recordBtn.classList.add("loading");
     recordBtn.textContent = "Transcribing...";
 
-    // Create audio blob
-    const audioBlob = new Blob(audioChunks, { type: "audio/webm" });
+    // Create audio blob, in whatever format this browser records
+    // (WebM in Chrome and Firefox, MP4 in Safari)
+    const audioBlob = new Blob(audioChunks, { type: mediaRecorder?.mimeType || "audio/webm" });
     const audioUrl = URL.createObjectURL(audioBlob);
     audioElement.src = audioUrl;
 
     try {
-      // Transcribe using OpenAI API
-      transcriptDiv.textContent = "Transcribing...";
-      console.log(`🎤 Sending audio to server for transcription...`);
-      
-      const formData = new FormData();
-      formData.append('audio', audioBlob, 'recording.webm');
-
-      const transcribeResponse = await fetch('/api/transcribe', {
-        method: 'POST',
-        body: formData,
-      });
+      const result = await dream(audioBlob);
 
-      if (!transcribeResponse.ok) {
-        throw new Error(`Transcription failed: ${transcribeResponse.statusText}`);
-      }
-
-      const { text } = await transcribeResponse.json();
-      transcriptDiv.textContent = text;
-      console.log(`✅ Transcription: "${text}"`);
-
-      recordBtn.textContent = "Dreaming Up...";
-
-      const abortWords = ["BLANK", "NO IMAGE", "NO STICKER", "CANCEL", "ABORT", "START OVER"];
-      if(!text || abortWords.some(word => text.toUpperCase().includes(word))) {
-        transcriptDiv.textContent = "No image generated.";
-        recordBtn.classList.remove("loading");
-        recordBtn.textContent = "Cancelled";
-        setTimeout(() => {
-          recordBtn.textContent = "Sticker Dream";
-        }, 1000);
-        resetRecorder();
-        return;
-      }
-
-      // Actually generate and print the image!
-      try {
-        await generateAndPrint(text);
-        
-        // Stop loading state
-        recordBtn.classList.remove("loading");
-        recordBtn.textContent = "Printed!";
-        setTimeout(() => {
-          recordBtn.textContent = "Sticker Dream";
-        }, 1000);
-      } catch (error) {
-        console.error("Failed to generate and print:", error);
-        recordBtn.classList.remove("loading");
-        recordBtn.textContent = "Error!";
-        setTimeout(() => {
-          recordBtn.textContent = "Sticker Dream";
-        }, 2000);
-      }
+      // Stop loading state
+      recordBtn.classList.remove("loading");
+      recordBtn.textContent = {
+        printed: "Printed!",
+        waiting: "Made it!",
+        preview: "Made it!",
+        choose: "Pick one!",
+        blocked: "Try again!",
+        cancelled: "Cancelled",
+      }[result];
+      setTimeout(() => {
+        recordBtn.textContent = "Sticker Dream";
+      }, 1000);
     } catch (error) {
-      console.error("Transcription error:", error);
-      transcriptDiv.textContent = "❌ Transcription failed";
+      console.error("Sticker dream failed:", error);
       recordBtn.classList.remove("loading");
-      recordBtn.textContent = "Error!";
+      recordBtn.textContent = errorButtonText(error);
       setTimeout(() => {
         recordBtn.textContent = "Sticker Dream";
       }, 2000);
@@ -121,8 +194,316 @@ async function resetRecorder() {
   };
 }
 
+// Last known state of each printer, from the server's watcher
+interface PrinterState {
+  printerName: string;
+  online: boolean;
+  paused: boolean;
+  outOfMedia: boolean;
+  stuckJobId?: string;
+}
+const printerStates = new Map<string, PrinterState>();
+
+// Warn before a kid records a sticker that can't print
+function showPrinterStatus() {
+  const states = [...printerStates.values()];
+  const isReady = (s: PrinterState) =>
+    s.online && !s.paused && !s.outOfMedia && !s.stuckJobId;
+
+  if (states.length === 0 || states.some(isReady)) {
+    printerStatus.style.display = "none";
+    return;
+  }
+
+  if (states.some((s) => s.online && s.outOfMedia)) {
+    printerStatus.textContent = "🧻 The printer is out of stickers! Ask a grown-up for more.";
+  } else if (states.some((s) => s.online && s.stuckJobId)) {
+    printerStatus.textContent = "⏳ The printer is stuck. Ask a grown-up to check it.";
+  } else {
+    printerStatus.textContent = "😴 The printer is asleep. Ask a grown-up to wake it up!";
+  }
+  printerStatus.style.display = "block";
+}
+
+// Listen for printer changes (EventSource reconnects by itself)
+function watchPrinterStatus() {
+  const events = new EventSource("/api/printers/events");
+  const onState = (state: PrinterState) => {
+    printerStates.set(state.printerName, state);
+    showPrinterStatus();
+  };
+
+  events.addEventListener("state", (e) => {
+    onState(JSON.parse((e as MessageEvent).data));
+  });
+  events.addEventListener("printer", (e) => {
+    const event = JSON.parse((e as MessageEvent).data);
+    console.log(`🖨️ Printer ${event.printerName} ${event.message}`);
+    onState(event.state);
+  });
+}
+
+interface StyleOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+// Show a button for each sticker style from the server
+async function loadStyles() {
+  try {
+    const response = await fetch("/api/styles");
+    if (!response.ok) return;
+    const { default: defaultStyle, styles } = (await response.json()) as {
+      default: string;
+      styles: StyleOption[];
+    };
+
+    if (!selectedStyle || !styles.some((style) => style.id === selectedStyle)) {
+      selectedStyle = defaultStyle;
+    }
+
+    stylePicker.replaceChildren(
+      ...styles.map((style) => {
+        const button = document.createElement("button");
+        button.textContent = style.name;
+        button.title = style.description;
+        button.classList.toggle("selected", style.id === selectedStyle);
+        button.addEventListener("click", () => {
+          selectedStyle = style.id;
+          localStorage.setItem("sticker-style", style.id);
+          for (const other of stylePicker.children) {
+            other.classList.toggle("selected", other === button);
+          }
+        });
+        return button;
+      })
+    );
+    stylePicker.style.display = "flex";
+  } catch (error) {
+    console.warn("Could not load sticker styles:", error);
+  }
+}
+
+// Show a sticker and remember it for "print again"
+function showSticker(imageUrl: string, stickerId: string | null) {
+  imageDisplay.src = imageUrl;
+  imageDisplay.style.display = "block";
+  currentStickerId = stickerId;
+  printAgainBtn.style.display = stickerId ? "block" : "none";
+}
+
+interface Candidate {
+  stickerId: string;
+  imageUrl: string;
+}
+
+// Show the candidates as big buttons; tapping one prints it
+function showCandidates(candidates: Candidate[], settings: StickerSettings) {
+  imageDisplay.style.display = "none";
+  printAgainBtn.style.display = "none";
+  currentStickerId = null;
+
+  candidatesDiv.replaceChildren(
+    ...candidates.map((candidate, index) => {
+      const button = document.createElement("button");
+      button.className = "candidate";
+
+      const img = document.createElement("img");
+      img.src = candidate.imageUrl;
+      img.alt = `Picture ${index + 1}`;
+      button.append(img);
+
+      button.addEventListener("click", () => chooseCandidate(candidate, button, settings));
+      return button;
+    })
+  );
+  candidatesDiv.style.display = "grid";
+}
+
+// Print the picked candidate and show it like any other sticker
+async function chooseCandidate(candidate: Candidate, button: HTMLButtonElement, settings: StickerSettings) {
+  for (const other of candidatesDiv.querySelectorAll("button")) {
+    other.disabled = true;
+  }
+  button.classList.add("selected");
+
+  try {
+    const response = await fetch(`/api/stickers/${candidate.stickerId}/print`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ copies: settings.copies, size: settings.size, preview: previewMode, overlay }),
+    });
+    if (!response.ok) {
+      throw await readError(response);
+    }
+
+    candidatesDiv.style.display = "none";
+    candidatesDiv.replaceChildren();
+    showSticker(candidate.imageUrl, candidate.stickerId);
+    console.log("✅ Chosen image sent to printer!");
+    await showPrintError(response);
+
+    if (gallery.style.display !== "none") {
+      loadGallery();
+    }
+  } catch (error) {
+    console.error("Could not print the chosen picture:", error);
+    transcriptDiv.textContent = friendlyError(error);
+    button.classList.remove("selected");
+    for (const other of candidatesDiv.querySelectorAll("button")) {
+      other.disabled = false;
+    }
+  }
+}
+
+// Explain a print that was queued but can't come out yet (the server
+// sends `printError` in JSON, or X-Print-Error with an image)
+async function showPrintError(response: Response): Promise<boolean> {
+  const code = response.headers.get("Content-Type")?.includes("application/json")
+    ? (await response.clone().json()).printError
+    : response.headers.get("X-Print-Error");
+  if (!code) return false;
+
+  transcriptDiv.textContent += `\n\n${ERROR_MESSAGES[code] ?? UNKNOWN_ERROR_MESSAGE}`;
+  return true;
+}
+
+// Print the sticker on screen again, reusing the stored image
+async function printAgain(copies = 1, size?: string): Promise<boolean> {
+  if (!currentStickerId) return false;
+
+  try {
+    const response = await fetch(`/api/stickers/${currentStickerId}/print`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ copies, size, preview: previewMode, overlay }),
+    });
+    if (!response.ok) {
+      throw await readError(response);
+    }
+    console.log(`🔁 Printing ${copies} more cop${copies === 1 ? "y" : "ies"}`);
+    await showPrintError(response);
+    return true;
+  } catch (error) {
+    console.error("Could not print again:", error);
+    transcriptDiv.textContent = friendlyError(error);
+    return false;
+  }
+}
+
+printAgainBtn.addEventListener("click", async () => {
+  printAgainBtn.disabled = true;
+  printAgainBtn.textContent = "Printing...";
+  const printed = await printAgain();
+  printAgainBtn.textContent = printed ? "Printed!" : "Error!";
+  setTimeout(() => {
+    printAgainBtn.textContent = "Print again";
+    printAgainBtn.disabled = false;
+  }, 1000);
+});
+
+interface StickerSummary {
+  id: string;
+  transcript: string;
+  prompt: string;
+  language?: string;
+  createdAt: string;
+}
+
+const GALLERY_PAGE_SIZE = 24;
+let galleryOffset = 0;
+let gallerySearchTimer: number | null = null;
+
+// Load a page of past stickers into the gallery (replacing it unless appending)
+async function loadGallery(append = false) {
+  if (!append) {
+    galleryOffset = 0;
+  }
+
+  const params = new URLSearchParams({
+    offset: String(galleryOffset),
+    limit: String(GALLERY_PAGE_SIZE),
+  });
+  if (gallerySearch.value.trim()) {
+    params.set("search", gallerySearch.value.trim());
+  }
+
+  try {
+    const response = await fetch(`/api/stickers?${params}`);
+    if (!response.ok) {
+      throw new Error(`Server error: ${response.statusText}`);
+    }
+    const { stickers, total } = (await response.json()) as {
+      stickers: StickerSummary[];
+      total: number;
+    };
+
+    const thumbnails = stickers.map((sticker) => {
+      const button = document.createElement("button");
+      button.className = "gallery-item";
+      button.title = `${sticker.prompt}\n${new Date(sticker.createdAt).toLocaleString()}`;
+
+      const img = document.createElement("img");
+      img.src = `/api/stickers/${sticker.id}/image`;
+      img.alt = sticker.prompt;
+      img.loading = "lazy";
+      button.append(img);
+
+      button.addEventListener("click", () => {
+        showSticker(img.src, sticker.id);
+        lastPrompt = { text: sticker.transcript, language: sticker.language };
+        transcriptDiv.textContent = sticker.prompt;
+        window.scrollTo({ top: 0, behavior: "smooth" });
+      });
+      return button;
+    });
+
+    if (append) {
+      galleryGrid.append(...thumbnails);
+    } else {
+      galleryGrid.replaceChildren(...thumbnails);
+    }
+    galleryOffset += stickers.length;
+    galleryMore.style.display = galleryOffset < total ? "block" : "none";
+
+    if (total === 0) {
+      galleryGrid.textContent = gallerySearch.value.trim()
+        ? "No stickers found."
+        : "No stickers yet. Make one!";
+    }
+  } catch (error) {
+    console.error("Could not load stickers:", error);
+    galleryGrid.textContent = "Could not load stickers.";
+  }
+}
+
+galleryToggle.addEventListener("click", () => {
+  const isOpen = gallery.style.display !== "none";
+  gallery.style.display = isOpen ? "none" : "flex";
+  galleryToggle.textContent = isOpen ? "My stickers" : "Hide my stickers";
+  if (!isOpen) {
+    loadGallery();
+  }
+});
+
+galleryMore.addEventListener("click", () => loadGallery(true));
+
+gallerySearch.addEventListener("input", () => {
+  if (gallerySearchTimer) {
+    clearTimeout(gallerySearchTimer);
+  }
+  gallerySearchTimer = window.setTimeout(() => loadGallery(), 300);
+});
+
 // Check microphone access on load
 checkMicrophoneAccess();
+watchPrinterStatus();
+loadStyles();
 resetRecorder();
 
 // Start recording when button is pressed down
@@ -177,43 +558,205 @@ recordBtn.addEventListener("contextmenu", (e) => {
   e.preventDefault();
 });
 
-// Generate and print image from transcript
-async function generateAndPrint(prompt: string) {
-  if (!prompt || prompt === "Transcribing...") {
-    console.error("No valid prompt to generate");
-    return;
-  }
+// One event from a Server-Sent Events response
+interface StreamEvent {
+  event: string;
+  data: unknown;
+}
 
-  try {
-    console.log(`🎨 Generating image for: "${prompt}"`);
-    recordBtn.textContent = "Generating image...";
-    transcriptDiv.textContent = `${prompt}\n\nGenerating image...`;
+// What /api/dream reports as it goes (see the route in src/server.ts)
+type DreamEvent =
+  | { event: "transcribed"; data: { text: string; language?: string; command: VoiceCommand } }
+  | { event: "moderated"; data: Record<string, never> }
+  | { event: "generating"; data: { prompt: string; style: string } }
+  | {
+      event: "generated";
+      data: { stickerId?: string; imageUrl: string; originalPrompt: string; prompt: string; provider: string; model: string };
+    }
+  | { event: "candidates"; data: { candidates: Candidate[]; originalPrompt: string; prompt: string } }
+  | { event: "preview"; data: { imageUrl: string; width: number; height: number; dotWidth?: number; printer?: string } }
+  | { event: "queued"; data: { jobId?: string; printer?: string; printError?: string } }
+  | { event: "printing" | "printed" | "cancelled"; data: { jobId?: string; printer?: string } }
+  | { event: "failed"; data: { error: string; code: string; retryable?: boolean } };
 
-    const response = await fetch("/api/generate", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ prompt }),
-    });
+// Read the events of a text/event-stream response as they arrive. The
+// caller names the events it expects; the server is trusted to send them.
+async function* readEvents<T extends StreamEvent = StreamEvent>(response: Response): AsyncGenerator<T> {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffered = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) return;
+    buffered += value.replace(/\r\n/g, "\n");
 
-    if (!response.ok) {
-      throw new Error(`Server error: ${response.statusText}`);
+    let end: number;
+    while ((end = buffered.indexOf("\n\n")) !== -1) {
+      const block = buffered.slice(0, end);
+      buffered = buffered.slice(end + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of block.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+      }
+      if (data.length > 0) {
+        yield { event, data: JSON.parse(data.join("\n")) } as T;
+      }
     }
+  }
+}
 
-    recordBtn.textContent = "Printing...";
-    const blob = await response.blob();
-    const imageUrl = URL.createObjectURL(blob);
+// Send a recording to the server, which transcribes, draws and prints it,
+// and follow along: the button and transcript show each step as the server
+// reports it. Commands like "print it again" are handled here. Resolves to
+// how it ended; "waiting" when the sticker is queued but not out yet.
+async function dream(
+  audio: Blob
+): Promise<"printed" | "waiting" | "preview" | "choose" | "blocked" | "cancelled"> {
+  transcriptDiv.textContent = "Transcribing...";
+  candidatesDiv.style.display = "none";
+  console.log(`🎤 Sending audio to the sticker machine...`);
+
+  const formData = new FormData();
+  const extension = audio.type.includes("mp4") ? "mp4" : audio.type.includes("ogg") ? "ogg" : "webm";
+  formData.append("audio", audio, `recording.${extension}`);
+  const fields: Record<string, string | undefined> = {
+    language: spokenLanguage,
+    style: selectedStyle,
+    preview: previewMode ? "true" : undefined,
+    fresh: freshMode ? "true" : undefined,
+    provider: imageProvider,
+    model: imageModel,
+    choose: chooseMode === undefined ? undefined : String(chooseMode),
+    overlay: overlay ? JSON.stringify(overlay) : undefined,
+    previousPrompt: lastPrompt?.text,
+    previousLanguage: lastPrompt?.language,
+  };
+  for (const [name, value] of Object.entries(fields)) {
+    if (value) formData.append(name, value);
+  }
 
-    // Display the image
-    imageDisplay.src = imageUrl;
-    imageDisplay.style.display = "block";
+  const response = await fetch("/api/dream", {
+    method: "POST",
+    body: formData,
+  });
+  if (!response.ok) {
+    const error = await readError(response);
+    transcriptDiv.textContent = `❌ ${friendlyError(error)}`;
+    throw error;
+  }
 
-    transcriptDiv.textContent = prompt;
-    console.log("✅ Image generated and sent to printer!");
-  } catch (error) {
-    console.error("Error:", error);
-    transcriptDiv.textContent = `${prompt}\n\nError: Failed to generate image`;
-    throw error; // Re-throw so the calling code can handle it
+  let heard = "";
+  let command: VoiceCommand | undefined;
+  let outcome: "waiting" | "preview" | "choose" | undefined;
+
+  for await (const { event, data } of readEvents<DreamEvent>(response)) {
+    switch (event) {
+      case "transcribed":
+        command = data.command;
+        heard = data.text;
+        transcriptDiv.textContent = heard;
+        console.log(`✅ Transcription (${data.language ?? "unknown language"}): "${heard}" (${command.action})`);
+        if (command.action === "generate") {
+          lastPrompt = { text: command.prompt, language: data.language };
+          heard = command.prompt;
+        } else if (command.action === "redraw" && lastPrompt) {
+          heard = lastPrompt.text;
+        }
+        recordBtn.textContent = "Thinking...";
+        break;
+
+      case "moderated":
+        recordBtn.textContent = "Dreaming Up...";
+        break;
+
+      case "generating":
+        console.log(`🎨 Generating image for: "${data.prompt}"`);
+        recordBtn.textContent = "Drawing...";
+        transcriptDiv.textContent = `${heard}\n\nDrawing...`;
+        break;
+
+      case "generated":
+        showSticker(data.imageUrl, data.stickerId ?? null);
+        // Show what was heard next to what is being drawn, when they differ
+        transcriptDiv.textContent =
+          data.prompt !== data.originalPrompt
+            ? `I heard: ${data.originalPrompt}\n\nI'm drawing: ${data.prompt}`
+            : data.originalPrompt;
+        // Keep an open gallery up to date
+        if (gallery.style.display !== "none") {
+          loadGallery();
+        }
+        break;
+
+      case "candidates":
+        showCandidates(data.candidates, command ?? {});
+        transcriptDiv.textContent =
+          data.prompt !== data.originalPrompt
+            ? `I heard: ${data.originalPrompt}\n\nI drew: ${data.prompt}\n\nWhich one should I print?`
+            : `${data.originalPrompt}\n\nWhich one should I print?`;
+        outcome = "choose";
+        break;
+
+      case "preview":
+        console.log(`👁️ Preview for ${data.printer ?? "printer"}: ${data.width}x${data.height}`);
+        imageDisplay.src = data.imageUrl;
+        outcome = "preview";
+        break;
+
+      case "queued":
+        recordBtn.textContent = "Waiting for printer...";
+        if (data.printError) {
+          transcriptDiv.textContent += `\n\n${ERROR_MESSAGES[data.printError] ?? UNKNOWN_ERROR_MESSAGE}`;
+        }
+        outcome = "waiting";
+        break;
+
+      case "printing":
+        recordBtn.textContent = "Printing...";
+        break;
+
+      case "printed":
+        console.log("✅ Sticker printed!");
+        return "printed";
+
+      case "cancelled":
+        if (command?.action === "redraw") {
+          transcriptDiv.textContent = "There's no sticker to change yet. Tell me one to draw!";
+        } else if (command?.action === "cancel") {
+          transcriptDiv.textContent = "No image generated.";
+        } else {
+          transcriptDiv.textContent += "\n\nThe print was cancelled.";
+        }
+        return "cancelled";
+
+      case "failed": {
+        const error = new ApiError(data.error, data.code, data.retryable === true);
+        // The server turned the idea down: show its friendly message instead
+        if (error.code === "GENERATION_BLOCKED") {
+          transcriptDiv.textContent = error.message;
+          imageDisplay.style.display = "none";
+          printAgainBtn.style.display = "none";
+          currentStickerId = null;
+          return "blocked";
+        }
+        transcriptDiv.textContent = heard ? `${heard}\n\n${friendlyError(error)}` : `❌ ${friendlyError(error)}`;
+        throw error;
+      }
+    }
   }
+
+  // "Print that again" / "two more" / "bigger" reprints the sticker on screen
+  if (command?.action === "reprint") {
+    if (!currentStickerId) {
+      transcriptDiv.textContent = "There's no sticker to print again yet. Tell me one to draw!";
+      return "blocked";
+    }
+    recordBtn.textContent = "Printing...";
+    return (await printAgain(command.copies, command.size)) ? "printed" : "blocked";
+  }
+
+  // The server stopped following the print job before it came out
+  return outcome ?? "waiting";
 }
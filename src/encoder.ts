@@ -0,0 +1,37 @@
+import type { MonoBitmap } from "./bitmap.ts";
+import type { PrinterTransport } from "./transport.ts";
+
+/**
+ * Turns a 1-bit bitmap into the packets a particular printer family expects
+ */
+export interface RasterEncoder {
+  /** Printer family, for logs */
+  readonly type: string;
+  /** Print head width in dots; bitmaps should be scaled to this first */
+  readonly dotWidth: number;
+  /**
+   * @param bitmap Bitmap no wider than the print head
+   * @param copies Number of copies
+   * @returns Packets in the order they must be written
+   */
+  encode(bitmap: MonoBitmap, copies?: number): Buffer[];
+}
+
+/**
+ * Encode a bitmap and write every packet to a transport, one write per
+ * packet so BLE transports can keep packet boundaries
+ * @returns Total bytes written
+ */
+export async function sendBitmap(
+  encoder: RasterEncoder,
+  bitmap: MonoBitmap,
+  transport: PrinterTransport,
+  copies: number = 1
+): Promise<number> {
+  let total = 0;
+  for (const packet of encoder.encode(bitmap, copies)) {
+    await transport.write(packet);
+    total += packet.length;
+  }
+  return total;
+}
@@ -0,0 +1,166 @@
+import OpenAI from "openai";
+import { callOptionsFromEnv, GENERATION_CODES, resilientCall, type CallOptions } from "./resilience.ts";
+
+/**
+ * Rewrites what a child said into a clear picture description
+ */
+export interface PromptEnhancer {
+  /** Enhancer type, for logs */
+  readonly type: string;
+  /**
+   * @param prompt Transcript as spoken
+   * @returns Cleaned-up description of the same idea
+   */
+  enhance(prompt: string): Promise<string>;
+}
+
+// Hesitation sounds, dropped wherever they appear
+const FILLERS = ["um+", "u+h+m*", "e+r+m*", "a+h+", "hmm+", "mm+"];
+
+// Filler phrases that are only filler when set off by pauses ("a, like, dragon"),
+// so "a cat like a tiger" keeps its meaning
+const PAUSE_FILLERS = ["like", "you know", "i mean", "so yeah", "yeah", "okay", "ok"];
+
+// Short words kids stammer on ("a a dinosaur", "with with"). Other repeats
+// are usually meant ("choo choo train", "a big big dog") and are kept
+const STAMMER_WORDS = [
+  "a", "an", "the", "and", "or", "with", "of", "on", "in", "at", "to", "for",
+  "i", "it", "my", "me", "you", "he", "she", "we", "they", "is", "that", "this", "some",
+];
+
+// Lead-ins before the actual idea ("can you draw me a ...")
+const LEAD_INS =
+  /^(?:(?:and|so|well|oh|please|hey)\s+)*(?:(?:i\s+(?:want|wanna|would like|need)(?:\s+to\s+(?:see|have|get))?|can\s+(?:you|i)\s+(?:have|get|make|draw|print)(?:\s+me)?|could\s+you\s+(?:make|draw|print)(?:\s+me)?|(?:make|draw|print)(?:\s+me)?|(?:let'?s|lets)\s+(?:make|draw|do)|i\s+think)\s+)+(?:(?:a\s+)?(?:picture|sticker|drawing|coloring\s+page)\s+of\s+)?/i;
+
+/**
+ * Local rewriter: drops fillers and lead-ins ("can you make me a"),
+ * stammered words and stray punctuation. Never changes the idea itself.
+ */
+export class RuleBasedEnhancer implements PromptEnhancer {
+  readonly type = "rules";
+
+  async enhance(prompt: string): Promise<string> {
+    return cleanUpPrompt(prompt);
+  }
+}
+
+/**
+ * Clean up a spoken prompt with the local rules
+ */
+export function cleanUpPrompt(prompt: string): string {
+  let text = prompt
+    // Ellipses, dashes and commas become pauses
+    .replace(/(?:\.{2,}|…|\s[-–—]+\s|,)/g, " , ")
+    .replace(/[.!?]+$/, "");
+
+  for (const filler of FILLERS) {
+    text = text.replace(new RegExp(`(^|[\\s,])(?:${filler})(?=$|[\\s,])`, "gi"), "$1");
+  }
+  for (const filler of PAUSE_FILLERS) {
+    text = text.replace(new RegExp(`(^|,)\\s*(?:${filler})\\s*(?=$|,)`, "gi"), "$1");
+  }
+
+  text = text
+    .replace(/\s+/g, " ")
+    // "a a dinosaur" / "with with" from stammering
+    .replace(new RegExp(`\\b(${STAMMER_WORDS.join("|")})(?:\\s*,?\\s+\\1\\b)+`, "gi"), "$1")
+    // "a the truck": keep the last article
+    .replace(/\b(?:a|an|the)\s+(?=(?:a|an|the)\s)/gi, "")
+    .replace(/(?:\s*,\s*)+/g, ", ")
+    .replace(/^[\s,]+|[\s,]+$/g, "")
+    .replace(LEAD_INS, "")
+    // Pauses before "and" / "with" are just hesitation
+    .replace(/,\s+(?=(?:and|with|who|that|on|in|eating|riding|wearing|holding)\b)/gi, " ");
+
+  return text.trim() || prompt.trim();
+}
+
+/**
+ * Rewrites prompts with an OpenAI chat model, falling back to the local
+ * rules if the model can't be reached
+ */
+export class OpenAIEnhancer implements PromptEnhancer {
+  readonly type = "openai";
+
+  /**
+   * @param openai OpenAI client
+   * @param model Chat model (default: gpt-4o-mini)
+   * @param callOptions Time limit and retries for each rewrite
+   */
+  constructor(private openai: OpenAI, private model: string = "gpt-4o-mini", private callOptions: CallOptions = {}) {}
+
+  async enhance(prompt: string): Promise<string> {
+    try {
+      const response = await resilientCall(
+        "prompt enhancement",
+        (signal) =>
+          this.openai.chat.completions.create(
+            {
+              model: this.model,
+              temperature: 0.3,
+              response_format: { type: "json_object" },
+              messages: [
+                {
+                  role: "system",
+                  content:
+                    "A young child spoke an idea for a coloring-page sticker. Rewrite it as one short, " +
+                    "clear picture description (at most 30 words). Remove filler words and false starts, " +
+                    "work out the main subject, and add simple visual details that fit. Keep everything " +
+                    "the child asked for and do not add new characters or change the idea. " +
+                    'Answer with JSON: {"prompt": string}.',
+                },
+                { role: "user", content: prompt },
+              ],
+            },
+            { signal }
+          ),
+        this.callOptions,
+        GENERATION_CODES
+      );
+
+      const content = response.choices[0]?.message?.content;
+      const rewritten = content ? (JSON.parse(content) as { prompt?: string }).prompt?.trim() : undefined;
+      if (!rewritten) {
+        throw new Error("Empty rewrite");
+      }
+      return rewritten;
+    } catch (error) {
+      console.warn(`⚠️ Prompt enhancement failed, using local rules: ${error instanceof Error ? error.message : String(error)}`);
+      return cleanUpPrompt(prompt);
+    }
+  }
+}
+
+/**
+ * Create the prompt enhancer described by the environment:
+ * - `PROMPT_ENHANCER`: `none` (default), `rules` or `openai`
+ * - `PROMPT_ENHANCER_MODEL`: chat model for `openai` (default: gpt-4o-mini)
+ * - `PROMPT_ENHANCER_TIMEOUT_MS`, `PROMPT_ENHANCER_RETRIES`: time limit and
+ *   retries for each `openai` rewrite (default: 10000 and 1)
+ * @param openai Client for the `openai` enhancer
+ * @returns The enhancer, or undefined when disabled
+ */
+export function createPromptEnhancer(
+  openai?: OpenAI,
+  env: NodeJS.ProcessEnv = process.env
+): PromptEnhancer | undefined {
+  const type = env["PROMPT_ENHANCER"] || "none";
+
+  if (type === "none") {
+    return undefined;
+  }
+  if (type === "rules") {
+    return new RuleBasedEnhancer();
+  }
+  if (type === "openai") {
+    if (!openai) {
+      throw new Error("PROMPT_ENHANCER=openai needs an OpenAI client");
+    }
+    return new OpenAIEnhancer(
+      openai,
+      env["PROMPT_ENHANCER_MODEL"] || undefined,
+      callOptionsFromEnv("PROMPT_ENHANCER", { timeoutMs: 10000, retries: 1 }, env)
+    );
+  }
+  throw new Error(`Unknown PROMPT_ENHANCER: ${type}`);
+}
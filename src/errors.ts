@@ -0,0 +1,158 @@
+/**
+ * Machine-readable error codes returned by the API, so clients can tell
+ * whether to try again or get a grown-up to fix something
+ */
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "GENERATION_BLOCKED"
+  | "AUDIO_EMPTY"
+  | "AUDIO_SILENT"
+  | "AUDIO_TOO_LARGE"
+  | "AUDIO_TOO_LONG"
+  | "AUDIO_UNSUPPORTED"
+  | "TRANSCRIPTION_TIMEOUT"
+  | "TRANSCRIPTION_FAILED"
+  | "GENERATION_TIMEOUT"
+  | "GENERATION_FAILED"
+  | "RATE_LIMITED"
+  | "QUOTA_EXCEEDED"
+  | "PRINTER_OFFLINE"
+  | "PRINT_FAILED"
+  | "INTERNAL_ERROR";
+
+/**
+ * HTTP status for each code, and whether trying again later may help
+ */
+const ERROR_INFO: Record<ErrorCode, { status: 400 | 404 | 409 | 413 | 415 | 422 | 429 | 500 | 502 | 503 | 504; retryable: boolean }> = {
+  INVALID_REQUEST: { status: 400, retryable: false },
+  NOT_FOUND: { status: 404, retryable: false },
+  CONFLICT: { status: 409, retryable: false },
+  GENERATION_BLOCKED: { status: 422, retryable: false },
+  AUDIO_EMPTY: { status: 422, retryable: false },
+  AUDIO_SILENT: { status: 422, retryable: false },
+  AUDIO_TOO_LARGE: { status: 413, retryable: false },
+  AUDIO_TOO_LONG: { status: 413, retryable: false },
+  AUDIO_UNSUPPORTED: { status: 415, retryable: false },
+  TRANSCRIPTION_TIMEOUT: { status: 504, retryable: true },
+  TRANSCRIPTION_FAILED: { status: 502, retryable: true },
+  GENERATION_TIMEOUT: { status: 504, retryable: true },
+  GENERATION_FAILED: { status: 502, retryable: true },
+  RATE_LIMITED: { status: 429, retryable: true },
+  QUOTA_EXCEEDED: { status: 429, retryable: false },
+  PRINTER_OFFLINE: { status: 503, retryable: true },
+  PRINT_FAILED: { status: 500, retryable: true },
+  INTERNAL_ERROR: { status: 500, retryable: false },
+};
+
+/**
+ * An error with a code the client understands
+ */
+export class AppError extends Error {
+  constructor(
+    readonly code: ErrorCode,
+    message: string,
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = "AppError";
+  }
+
+  get status(): (typeof ERROR_INFO)[ErrorCode]["status"] {
+    return ERROR_INFO[this.code].status;
+  }
+
+  get retryable(): boolean {
+    return ERROR_INFO[this.code].retryable;
+  }
+}
+
+/**
+ * JSON body of every error response
+ */
+export interface ErrorResponse {
+  /** Human-readable message (kid-friendly for blocked prompts) */
+  error: string;
+  code: ErrorCode;
+  /** Whether the same request may work if tried again later */
+  retryable: boolean;
+  /** Set when moderation turned the prompt down */
+  blocked?: true;
+}
+
+export function errorResponse(error: AppError): ErrorResponse {
+  return {
+    error: error.message,
+    code: error.code,
+    retryable: error.retryable,
+    ...(error.code === "GENERATION_BLOCKED" ? { blocked: true as const } : {}),
+  };
+}
+
+/**
+ * How a failed call went wrong, which decides whether to retry it
+ */
+export type FailureKind = "timeout" | "rate-limit" | "quota" | "transient" | "permanent";
+
+// Network errors worth another try
+const TRANSIENT_NETWORK_CODES = ["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"];
+
+/**
+ * Classify an error from the OpenAI or Google SDKs, fetch, or our own code
+ */
+export function classifyError(error: unknown): FailureKind {
+  if (error instanceof AppError) {
+    if (error.code === "TRANSCRIPTION_TIMEOUT" || error.code === "GENERATION_TIMEOUT") return "timeout";
+    if (error.code === "QUOTA_EXCEEDED") return "quota";
+    if (error.code === "RATE_LIMITED") return "rate-limit";
+    return error.retryable ? "transient" : "permanent";
+  }
+
+  const details = error as { name?: unknown; status?: unknown; code?: unknown; cause?: { code?: unknown } };
+  const message = error instanceof Error ? error.message : String(error);
+  // The OpenAI SDK's error classes keep the default name, so check the class too
+  const type = error instanceof Error ? error.constructor.name : undefined;
+  if (details?.name === "AbortError" || details?.name === "TimeoutError" || type === "APIConnectionTimeoutError") {
+    return "timeout";
+  }
+
+  const status = typeof details?.status === "number" ? details.status : undefined;
+  if (status === 429 || /RESOURCE_EXHAUSTED/.test(message)) {
+    // OpenAI says insufficient_quota, Google mentions the quota in the message
+    return details?.code === "insufficient_quota" || /quota|billing/i.test(message) ? "quota" : "rate-limit";
+  }
+  if (status !== undefined) {
+    return status === 408 || status >= 500 ? "transient" : "permanent";
+  }
+
+  const networkCode = details?.code ?? details?.cause?.code;
+  if (
+    type === "APIConnectionError" ||
+    (typeof networkCode === "string" && TRANSIENT_NETWORK_CODES.includes(networkCode)) ||
+    /fetch failed|socket hang up/i.test(message)
+  ) {
+    return "transient";
+  }
+  return "permanent";
+}
+
+/**
+ * Turn any error into an `AppError`, keeping quota and rate-limit errors recognisable
+ * @param fallback Code for errors that are neither (default: INTERNAL_ERROR)
+ */
+export function toAppError(error: unknown, fallback: ErrorCode = "INTERNAL_ERROR"): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const kind = classifyError(error);
+  if (kind === "quota") {
+    return new AppError("QUOTA_EXCEEDED", message, { cause: error });
+  }
+  if (kind === "rate-limit") {
+    return new AppError("RATE_LIMITED", message, { cause: error });
+  }
+  return new AppError(fallback, message, { cause: error });
+}
@@ -0,0 +1,67 @@
+import type { MonoBitmap } from "./bitmap.ts";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/**
+ * Options for encoding an ESC/POS raster job
+ */
+export interface EscPosOptions {
+  /** Rows per GS v 0 command; some printers choke on big blocks (default: 256) */
+  bandHeight?: number;
+  /** Lines to feed after the image (default: 4) */
+  feedLines?: number;
+  /** Send a partial cut after feeding (default: false) */
+  cut?: boolean;
+}
+
+/**
+ * Encode a 1-bit bitmap as an ESC/POS raster job using `GS v 0`
+ * @param bitmap Bitmap no wider than the print head
+ * @param options Encoding options
+ * @returns Bytes to send to the printer
+ */
+export function encodeEscPosRaster(
+  bitmap: MonoBitmap,
+  options: EscPosOptions = {}
+): Buffer {
+  const { bandHeight = 256, feedLines = 4, cut = false } = options;
+  const parts: Buffer[] = [];
+
+  // ESC @ - initialize printer
+  parts.push(Buffer.from([ESC, 0x40]));
+
+  for (let top = 0; top < bitmap.height; top += bandHeight) {
+    const rows = Math.min(bandHeight, bitmap.height - top);
+    // GS v 0 m xL xH yL yH d1...dk
+    parts.push(
+      Buffer.from([
+        GS,
+        0x76,
+        0x30,
+        0x00,
+        bitmap.bytesPerRow & 0xff,
+        (bitmap.bytesPerRow >> 8) & 0xff,
+        rows & 0xff,
+        (rows >> 8) & 0xff,
+      ])
+    );
+    parts.push(
+      Buffer.from(
+        bitmap.data.subarray(top * bitmap.bytesPerRow, (top + rows) * bitmap.bytesPerRow)
+      )
+    );
+  }
+
+  // ESC d n - print and feed n lines
+  if (feedLines > 0) {
+    parts.push(Buffer.from([ESC, 0x64, Math.min(255, feedLines)]));
+  }
+
+  // GS V 66 0 - feed to cutter and partial cut
+  if (cut) {
+    parts.push(Buffer.from([GS, 0x56, 0x42, 0x00]));
+  }
+
+  return Buffer.concat(parts);
+}
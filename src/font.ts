@@ -0,0 +1,163 @@
+import { createRequire } from "node:module";
+import { loadPixelFont, type PixelFont, type PixelGlyph } from "./woff.ts";
+import type { GrayImage } from "./png.ts";
+
+/**
+ * Bundled pixel fonts: Fusion Pixel 12px (OFL-1.1), installed from npm as
+ * @fontsource packages. Both cover Latin with accents, kana, kanji and
+ * hanzi, and Hangul, so captions can be written in every language the box
+ * understands. Being bundled, text renders the same on every host.
+ */
+const FONT_FILES = {
+  proportional: "@fontsource/fusion-pixel-12px-proportional-sc/files/fusion-pixel-12px-proportional-sc-latin-400-normal.woff",
+  monospaced: "@fontsource/fusion-pixel-12px-monospaced-sc/files/fusion-pixel-12px-monospaced-sc-latin-400-normal.woff",
+};
+
+// Font pixels above and below the baseline: accented capitals reach the
+// top row, descenders the bottom two
+const FONT_ASCENT = 12;
+const FONT_DESCENT = 2;
+
+/** Height of a line of text, in font dots */
+export const GLYPH_HEIGHT = FONT_ASCENT + FONT_DESCENT;
+
+/**
+ * Font faces: `regular` is the proportional font, `mono` the monospaced
+ * one (every letter the same width, like a typewriter). `bold` is the
+ * proportional font with every dot drawn twice, one column apart, which
+ * reads better on thermal paper at small sizes.
+ */
+export type FontName = "regular" | "bold" | "mono";
+
+export const FONT_NAMES: FontName[] = ["regular", "bold", "mono"];
+
+const FONT_FACES: Record<FontName, { file: keyof typeof FONT_FILES; strokes: number }> = {
+  regular: { file: "proportional", strokes: 1 },
+  bold: { file: "proportional", strokes: 2 },
+  mono: { file: "monospaced", strokes: 1 },
+};
+
+const loadedFonts = new Map<string, PixelFont>();
+
+/**
+ * A font file, read on first use (each is about 1.5MB)
+ */
+function getFont(file: keyof typeof FONT_FILES): PixelFont {
+  let font = loadedFonts.get(file);
+  if (!font) {
+    font = loadPixelFont(createRequire(import.meta.url).resolve(FONT_FILES[file]), 12, FONT_ASCENT, FONT_DESCENT);
+    loadedFonts.set(file, font);
+  }
+  return font;
+}
+
+/**
+ * The glyph for one character. Accents the font lacks as a precomposed
+ * letter are dropped, and anything else is drawn as "?".
+ */
+function glyphFor(char: string, fontName: FontName): PixelGlyph {
+  const font = getFont(FONT_FACES[fontName].file);
+  return (
+    font.glyph(char.codePointAt(0)!) ??
+    font.glyph(char.normalize("NFD").codePointAt(0)!) ??
+    font.glyph(0x3f)!
+  );
+}
+
+/**
+ * Advance from one glyph to the next, in font dots
+ */
+function glyphAdvance(char: string, font: FontName): number {
+  return glyphFor(char, font).advance + FONT_FACES[font].strokes - 1;
+}
+
+/**
+ * Split text into characters, composing accents onto their letters first
+ */
+function characters(text: string): string[] {
+  return Array.from(text.normalize("NFC"));
+}
+
+/**
+ * Width in pixels of a single line of text
+ * @param text Text to measure
+ * @param scale Pixel size of one font dot
+ * @param font Font face (default: regular)
+ */
+export function measureText(text: string, scale: number = 1, font: FontName = "regular"): number {
+  return characters(text).reduce((width, char) => width + glyphAdvance(char, font), 0) * scale;
+}
+
+/**
+ * Break text into lines no wider than `maxWidth`. Words that are too
+ * long on their own, like a Japanese sentence without spaces, are split
+ * between characters.
+ * @param text Text to wrap
+ * @param maxWidth Line width in pixels
+ * @param scale Pixel size of one font dot
+ * @param font Font face (default: regular)
+ */
+export function wrapText(text: string, maxWidth: number, scale: number = 1, font: FontName = "regular"): string[] {
+  const lines: string[] = [];
+  for (const word of text.trim().split(/\s+/).filter((word) => word)) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && measureText(`${last} ${word}`, scale, font) <= maxWidth) {
+      lines[lines.length - 1] = `${last} ${word}`;
+      continue;
+    }
+    let chars = characters(word);
+    while (chars.length > 1 && measureText(chars.join(""), scale, font) > maxWidth) {
+      let fits = chars.length - 1;
+      while (fits > 1 && measureText(chars.slice(0, fits).join(""), scale, font) > maxWidth) fits--;
+      lines.push(chars.slice(0, fits).join(""));
+      chars = chars.slice(fits);
+    }
+    lines.push(chars.join(""));
+  }
+  return lines;
+}
+
+/**
+ * Draw a single line of text onto a grayscale image
+ * @param image Image to draw on (modified in place)
+ * @param text Text to draw
+ * @param x Left edge in pixels
+ * @param y Top edge in pixels
+ * @param scale Pixel size of one font dot
+ * @param color Gray level to draw with (default: black)
+ * @param font Font face (default: regular)
+ */
+export function drawText(
+  image: GrayImage,
+  text: string,
+  x: number,
+  y: number,
+  scale: number = 1,
+  color: number = 0,
+  font: FontName = "regular"
+): void {
+  const { strokes } = FONT_FACES[font];
+  let cursor = x;
+  for (const char of characters(text)) {
+    const glyph = glyphFor(char, font);
+    for (let row = 0; row < GLYPH_HEIGHT; row++) {
+      for (let col = 0; col < glyph.width + strokes - 1; col++) {
+        let isSet = false;
+        for (let stroke = 0; stroke < strokes && col - stroke >= 0; stroke++) {
+          if (col - stroke < glyph.width && glyph.bitmap[row * glyph.width + col - stroke]) isSet = true;
+        }
+        if (!isSet) continue;
+        for (let dy = 0; dy < scale; dy++) {
+          for (let dx = 0; dx < scale; dx++) {
+            const px = cursor + col * scale + dx;
+            const py = y + row * scale + dy;
+            if (px >= 0 && py >= 0 && px < image.width && py < image.height) {
+              image.data[py * image.width + px] = color;
+            }
+          }
+        }
+      }
+    }
+    cursor += glyphAdvance(char, font) * scale;
+  }
+}
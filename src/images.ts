@@ -0,0 +1,453 @@
+import { createHash } from "node:crypto";
+import { GoogleGenAI } from "@google/genai";
+import OpenAI from "openai";
+import { encodePng, type GrayImage } from "./png.ts";
+import { drawText, measureText, wrapText, GLYPH_HEIGHT } from "./font.ts";
+import { AppError, type ErrorCode } from "./errors.ts";
+import { callOptionsFromEnv, GENERATION_CODES, resilientCall, type CallOptions } from "./resilience.ts";
+
+/**
+ * Shape of the generated image (width:height)
+ */
+export type AspectRatio = "1:1" | "3:4" | "9:16";
+
+export const ASPECT_RATIOS: AspectRatio[] = ["1:1", "3:4", "9:16"];
+
+/**
+ * Per-image generation settings
+ */
+export interface ImageOptions {
+  /** One of the provider's `models` (default: the first) */
+  model?: string;
+  /** Image shape (default: 9:16) */
+  aspectRatio?: AspectRatio;
+  /** Number of images to make (default: 1) */
+  count?: number;
+  /** Aborts the request (e.g. on timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * A provider choice plus its settings, as sent to `ImageGenerator`
+ */
+export interface ImageRequest extends ImageOptions {
+  /** Provider to try first (default: the configured default) */
+  provider?: string;
+}
+
+/**
+ * Something that turns a text prompt into a PNG
+ */
+export interface ImageProvider {
+  /** Provider name used in requests and config (`imagen`, `openai`, `stub`) */
+  readonly name: string;
+  /** Models this provider accepts, default first */
+  readonly models: readonly string[];
+  /** Whether the provider is configured (e.g. has an API key) */
+  isAvailable(): boolean;
+  /**
+   * Generate one or more images
+   * @param prompt Full prompt text
+   * @param options Model, aspect ratio and count
+   * @returns PNG file contents, one per image
+   */
+  generate(prompt: string, options?: ImageOptions): Promise<Buffer[]>;
+}
+
+/**
+ * Which provider made an image
+ */
+export interface GeneratedImage {
+  /** PNG file contents; more than one when candidates were requested */
+  images: Buffer[];
+  provider: string;
+  model: string;
+  /** Providers that were tried first and failed */
+  failures: { provider: string; error: string; code: ErrorCode }[];
+}
+
+export const IMAGEN_MODELS = [
+  "imagen-4.0-generate-001",
+  "imagen-4.0-fast-generate-001",
+  "imagen-4.0-ultra-generate-001",
+  "imagen-3.0-generate-002",
+] as const;
+
+export const OPENAI_IMAGE_MODELS = ["gpt-image-1", "dall-e-3"] as const;
+
+/**
+ * Error for a picture the provider's safety filter wouldn't draw. Asking
+ * again won't help, so the child is asked for another idea.
+ */
+function blockedImageError(reason: string, cause?: unknown): AppError {
+  console.warn(`🛡️ Image provider refused the picture: ${reason}`);
+  return new AppError("GENERATION_BLOCKED", "Let's dream up something else!", { cause });
+}
+
+/**
+ * Google Imagen, through the Gemini API
+ */
+export class ImagenProvider implements ImageProvider {
+  readonly name = "imagen";
+  readonly models = IMAGEN_MODELS;
+  private ai: GoogleGenAI;
+
+  constructor(private apiKey: string | undefined) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async generate(prompt: string, options: ImageOptions = {}): Promise<Buffer[]> {
+    const { model = this.models[0], count = 1 } = options;
+    const request = (numberOfImages: number) =>
+      this.ai.models.generateImages({
+        model,
+        prompt,
+        config: {
+          numberOfImages,
+          aspectRatio: options.aspectRatio ?? "9:16",
+          abortSignal: options.signal,
+        },
+      });
+
+    // Imagen 4 Ultra only makes one image per request
+    const responses = model === "imagen-4.0-ultra-generate-001"
+      ? await Promise.all(Array.from({ length: count }, () => request(1)))
+      : [await request(count)];
+
+    const generated = responses.flatMap((response) => response.generatedImages ?? []);
+    const images = generated
+      .map((image) => image.image?.imageBytes)
+      .filter((imgBytes): imgBytes is string => Boolean(imgBytes))
+      .map((imgBytes) => Buffer.from(imgBytes, "base64"));
+    if (images.length === 0) {
+      // Imagen drops filtered images, so an empty answer means the filter took them all
+      const reason = generated.find((image) => image.raiFilteredReason)?.raiFilteredReason;
+      throw blockedImageError(reason ?? "no images returned");
+    }
+    return images;
+  }
+}
+
+/**
+ * OpenAI image generation (gpt-image-1 or DALL-E 3)
+ */
+export class OpenAIImageProvider implements ImageProvider {
+  readonly name = "openai";
+  readonly models = OPENAI_IMAGE_MODELS;
+  private openai: OpenAI;
+
+  constructor(private apiKey: string | undefined) {
+    // The client throws without a key, so give it a placeholder until one is set.
+    // Retries are left to the image generator.
+    this.openai = new OpenAI({ apiKey: apiKey || "unset", maxRetries: 0 });
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.apiKey);
+  }
+
+  async generate(prompt: string, options: ImageOptions = {}): Promise<Buffer[]> {
+    const { model = this.models[0], aspectRatio = "9:16", count = 1, signal } = options;
+    // OpenAI has fixed sizes, so 3:4 and 9:16 both become its portrait size
+    const square = aspectRatio === "1:1";
+
+    // DALL-E 3 only makes one image per request
+    const responses = await this.refusalsBlocked(
+      model === "dall-e-3"
+        ? Promise.all(
+            Array.from({ length: count }, () =>
+              this.openai.images.generate({
+                model,
+                prompt,
+                n: 1,
+                size: square ? "1024x1024" : "1024x1792",
+                response_format: "b64_json",
+              }, { signal })
+            )
+          )
+        : this.openai.images
+            .generate({
+              model,
+              prompt,
+              n: count,
+              size: square ? "1024x1024" : "1024x1536",
+              output_format: "png",
+            }, { signal })
+            .then((response) => [response])
+    );
+
+    const images = responses
+      .flatMap((response) => response.data ?? [])
+      .map((data) => data.b64_json)
+      .filter((imgBytes): imgBytes is string => Boolean(imgBytes))
+      .map((imgBytes) => Buffer.from(imgBytes, "base64"));
+    if (images.length === 0) {
+      throw blockedImageError("no images returned");
+    }
+    return images;
+  }
+
+  /**
+   * Wait for the requests, turning safety-system refusals into GENERATION_BLOCKED
+   */
+  private async refusalsBlocked<T>(requests: Promise<T>): Promise<T> {
+    try {
+      return await requests;
+    } catch (error) {
+      const code = (error as { code?: unknown }).code;
+      if (code === "content_policy_violation" || code === "moderation_blocked") {
+        throw blockedImageError(code, error);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Draws a simple outline picture from the prompt without any network
+ * access. The same prompt always gives the same image, which makes it
+ * useful for demos, tests and offline printer tuning. Extra images for
+ * the same prompt move the circles around.
+ */
+export class StubImageProvider implements ImageProvider {
+  readonly name = "stub";
+  readonly models = ["stub"] as const;
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async generate(prompt: string, options: ImageOptions = {}): Promise<Buffer[]> {
+    return Array.from({ length: options.count ?? 1 }, (_, index) => this.draw(prompt, options, index));
+  }
+
+  private draw(prompt: string, options: ImageOptions, variant: number): Buffer {
+    const width = 576;
+    const height = { "1:1": 576, "3:4": 768, "9:16": 1024 }[options.aspectRatio ?? "9:16"];
+    const image: GrayImage = { width, height, data: new Uint8Array(width * height).fill(255) };
+    const seed = createHash("sha256")
+      .update(variant === 0 ? prompt : `${prompt}#${variant}`)
+      .digest();
+
+    const ring = (cx: number, cy: number, radius: number, thickness: number) => {
+      for (let y = Math.max(0, cy - radius); y < Math.min(height, cy + radius); y++) {
+        for (let x = Math.max(0, cx - radius); x < Math.min(width, cx + radius); x++) {
+          const distance = Math.hypot(x - cx, y - cy);
+          if (distance <= radius && distance > radius - thickness) {
+            image.data[y * width + x] = 0;
+          }
+        }
+      }
+    };
+
+    // Border, then a few circles placed by the prompt hash
+    const border = 6;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (x < border || y < border || x >= width - border || y >= height - border) {
+          image.data[y * width + x] = 0;
+        }
+      }
+    }
+    for (let i = 0; i < 6; i++) {
+      const radius = 40 + (seed[i * 5] % 90);
+      const cx = radius + (seed.readUInt16BE(i * 5 + 1) % (width - radius * 2));
+      const cy = 160 + radius + (seed.readUInt16BE(i * 5 + 3) % (height - 200 - radius * 2));
+      ring(cx, cy, radius, 5);
+    }
+
+    // The subject itself, word-wrapped across the top
+    const subject = prompt.match(/<image-description>([\s\S]*?)<\/image-description>/)?.[1] ?? prompt;
+    const scale = 2;
+    const lines = wrapText(subject, width - 48, scale);
+    lines.slice(0, 4).forEach((line, index) => {
+      drawText(
+        image,
+        line,
+        Math.round((width - measureText(line, scale)) / 2),
+        24 + index * (GLYPH_HEIGHT + 2) * scale,
+        scale
+      );
+    });
+
+    return encodePng(image);
+  }
+}
+
+// Most useful failure to report when every provider failed: something a
+// grown-up can fix first, then things that may pass if tried again
+const FAILURE_PRIORITY: ErrorCode[] = ["QUOTA_EXCEEDED", "RATE_LIMITED", "GENERATION_TIMEOUT"];
+
+/**
+ * Picks a provider for each request, falling back to a second provider
+ * when the first is unavailable or fails. Each provider call has a time
+ * limit and is retried on transient errors before falling back. Pictures
+ * a provider's safety filter refuses are not retried anywhere.
+ */
+export class ImageGenerator {
+  private providers = new Map<string, ImageProvider>();
+
+  /**
+   * @param providers All known providers
+   * @param defaultProvider Provider used when a request names none
+   * @param fallbackProvider Provider tried when the chosen one fails
+   * @param defaultModel Model for the default provider (default: its first)
+   * @param callOptions Timeout and retries for each provider call
+   */
+  constructor(
+    providers: ImageProvider[],
+    readonly defaultProvider: string,
+    readonly fallbackProvider?: string,
+    readonly defaultModel?: string,
+    private callOptions: CallOptions = {}
+  ) {
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
+    if (!this.providers.has(defaultProvider)) {
+      throw new Error(`Unknown image provider: ${defaultProvider}`);
+    }
+    if (fallbackProvider && !this.providers.has(fallbackProvider)) {
+      throw new Error(`Unknown image provider: ${fallbackProvider}`);
+    }
+  }
+
+  /**
+   * Get a provider by name
+   */
+  get(name: string): ImageProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * Every provider with its models and availability
+   */
+  list(): { name: string; models: string[]; available: boolean; isDefault: boolean }[] {
+    return [...this.providers.values()].map((provider) => ({
+      name: provider.name,
+      models: [...provider.models],
+      available: provider.isAvailable(),
+      isDefault: provider.name === this.defaultProvider,
+    }));
+  }
+
+  /**
+   * Check a provider/model choice, returning an error message if it is invalid
+   */
+  validate(providerName?: string, model?: string): string | undefined {
+    const provider = this.providers.get(providerName ?? this.defaultProvider);
+    if (!provider) {
+      return `Unknown image provider: ${providerName}`;
+    }
+    if (model && !provider.models.includes(model)) {
+      return `Unknown model for ${provider.name}: ${model}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * The provider and model a request will try first
+   */
+  resolve(request: ImageRequest = {}): { provider: string; model: string } {
+    const provider = request.provider ?? this.defaultProvider;
+    const model =
+      request.model ??
+      (provider === this.defaultProvider ? this.defaultModel : undefined) ??
+      this.providers.get(provider)?.models[0] ??
+      "";
+    return { provider, model };
+  }
+
+  /**
+   * Generate images with the chosen provider, or the fallback if it fails
+   * @param prompt Full prompt text
+   * @param request Provider, model, aspect ratio and count
+   */
+  async generate(prompt: string, request: ImageRequest = {}): Promise<GeneratedImage> {
+    const { provider: providerName, model, aspectRatio, count } = request;
+    const invalid = this.validate(providerName, model);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+
+    const first = this.resolve(request);
+    const attempts = [{ provider: this.providers.get(first.provider)!, model: first.model }];
+    if (this.fallbackProvider && this.fallbackProvider !== first.provider) {
+      const fallback = this.providers.get(this.fallbackProvider)!;
+      attempts.push({ provider: fallback, model: fallback.models[0] });
+    }
+
+    const failures: GeneratedImage["failures"] = [];
+    for (const attempt of attempts) {
+      const provider = attempt.provider;
+      if (!provider.isAvailable()) {
+        failures.push({ provider: provider.name, error: "not configured", code: "GENERATION_FAILED" });
+        continue;
+      }
+
+      try {
+        const images = await resilientCall(
+          `${provider.name} image generation`,
+          (signal) => provider.generate(prompt, { model: attempt.model, aspectRatio, count, signal }),
+          this.callOptions,
+          GENERATION_CODES
+        );
+        return { images, provider: provider.name, model: attempt.model, failures };
+      } catch (error) {
+        const { message, code } = error as AppError;
+        console.warn(`⚠️ ${provider.name} (${attempt.model}) failed: ${message}`);
+        // A picture one safety filter refused isn't one to ask another provider for
+        if (code === "GENERATION_BLOCKED") {
+          throw error;
+        }
+        failures.push({ provider: provider.name, error: message, code });
+      }
+    }
+
+    const code =
+      FAILURE_PRIORITY.find((priority) => failures.some((failure) => failure.code === priority)) ??
+      "GENERATION_FAILED";
+    throw new AppError(
+      code,
+      `Failed to generate image: ${failures.map((f) => `${f.provider}: ${f.error}`).join("; ")}`
+    );
+  }
+}
+
+/**
+ * Build the image generator from the environment
+ * - `IMAGE_PROVIDER`: imagen (default), openai or stub
+ * - `IMAGE_MODEL`: model for the default provider
+ * - `IMAGE_FALLBACK_PROVIDER`: provider to try when the first fails, or `none`
+ *   (default: openai when imagen is the default, otherwise none)
+ * - `GENERATION_TIMEOUT_MS`: time limit for one provider call (default: 60000)
+ * - `GENERATION_RETRIES`: retries after transient errors, per provider (default: 2)
+ */
+export function createImageGenerator(env: NodeJS.ProcessEnv = process.env): ImageGenerator {
+  const providers: ImageProvider[] = [
+    new ImagenProvider(env["GEMINI_API_KEY"]),
+    new OpenAIImageProvider(env["OPENAI_API_KEY"]),
+    new StubImageProvider(),
+  ];
+
+  const defaultProvider = env["IMAGE_PROVIDER"] || "imagen";
+  const fallback = env["IMAGE_FALLBACK_PROVIDER"] ?? (defaultProvider === "imagen" ? "openai" : "none");
+
+  const generator = new ImageGenerator(
+    providers,
+    defaultProvider,
+    fallback === "none" ? undefined : fallback,
+    env["IMAGE_MODEL"] || undefined,
+    callOptionsFromEnv("GENERATION", { timeoutMs: 60000, retries: 2 }, env)
+  );
+
+  const invalid = generator.validate(defaultProvider, env["IMAGE_MODEL"] || undefined);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return generator;
+}
@@ -0,0 +1,317 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
+import {
+  cancelPrintJob,
+  getPendingJobs,
+  getPrinterQueue,
+  type PrintOptions,
+  type QueuedJob,
+} from "./print.ts";
+import type { PrinterBackend } from "./backend.ts";
+import { JsonFile } from "./persist.ts";
+import type { RouteRequest } from "./routing.ts";
+
+/**
+ * Lifecycle of a print job:
+ * queued -> sent -> printing -> completed, or failed / cancelled
+ */
+export type JobState = "queued" | "sent" | "printing" | "completed" | "failed" | "cancelled";
+
+/**
+ * A print job as stored by the queue
+ */
+export interface PrintJob {
+  id: string;
+  state: JobState;
+  /** Printer that accepted the job (once sent) */
+  printerName?: string;
+  /** Job ID reported by the backend (CUPS job number) */
+  backendJobId?: string;
+  /** Why the printer was chosen */
+  routeReason?: string;
+  options: PrintOptions;
+  /** Routing request (media/size and the printer picked at submit time) */
+  route?: RouteRequest;
+  attempts: number;
+  maxAttempts: number;
+  /** Last error, if any attempt failed */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  /** Earliest time the next attempt may run */
+  retryAt?: string;
+}
+
+/**
+ * Options for the print job queue
+ */
+export interface JobQueueOptions {
+  /** Directory for jobs.json and job images (default: output/jobs) */
+  directory?: string;
+  /** Attempts before a job is marked failed (default: 3) */
+  maxAttempts?: number;
+  /** Base retry delay in ms, doubled on each attempt (default: 5000) */
+  retryDelay?: number;
+  /** How often to poll CUPS for sent jobs in ms (default: 5000) */
+  pollInterval?: number;
+  /** Completed/failed/cancelled jobs to keep (default: 200) */
+  historyLimit?: number;
+}
+
+const FINISHED_STATES: JobState[] = ["completed", "failed", "cancelled"];
+
+/**
+ * A persistent, retrying print queue. Jobs are stored in a JSON file with
+ * their image alongside, so queued jobs survive a server restart.
+ * Emits `change` with the job whenever one is queued or changes state.
+ */
+export class JobQueue extends EventEmitter<{ change: [job: PrintJob] }> {
+  private jobs = new Map<string, PrintJob>();
+  private directory: string;
+  private maxAttempts: number;
+  private retryDelay: number;
+  private pollInterval: number;
+  private historyLimit: number;
+  private isProcessing = false;
+  private runAgain = false;
+  private index: JsonFile<PrintJob>;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private backend: PrinterBackend, options: JobQueueOptions = {}) {
+    super();
+    this.setMaxListeners(0);
+    this.directory = options.directory ?? path.join("output", "jobs");
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelay = options.retryDelay ?? 5000;
+    this.pollInterval = options.pollInterval ?? 5000;
+    this.historyLimit = options.historyLimit ?? 200;
+    this.index = new JsonFile(path.join(this.directory, "jobs.json"), "print jobs");
+  }
+
+  private imagePath(id: string): string {
+    return path.join(this.directory, `${id}.png`);
+  }
+
+  /**
+   * Load jobs saved by a previous run and start processing
+   */
+  async start(): Promise<void> {
+    const saved = await this.index.load();
+    for (const job of saved) {
+      this.jobs.set(job.id, job);
+    }
+    const pending = saved.filter((job) => !FINISHED_STATES.includes(job.state));
+    console.log(`📚 Loaded ${saved.length} print job(s), ${pending.length} still pending`);
+
+    this.schedule(0);
+  }
+
+  /**
+   * Stop processing (jobs stay on disk)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Add a job to the queue
+   * @param image PNG to print
+   * @param options Print settings
+   * @param route Routing request for the printer backend
+   * @returns The queued job
+   */
+  async enqueue(image: Buffer, options: PrintOptions = {}, route?: RouteRequest): Promise<PrintJob> {
+    const now = new Date().toISOString();
+    const job: PrintJob = {
+      id: randomUUID(),
+      state: "queued",
+      options,
+      route,
+      attempts: 0,
+      maxAttempts: this.maxAttempts,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await fs.promises.writeFile(this.imagePath(job.id), image);
+    this.jobs.set(job.id, job);
+    await this.save();
+    console.log(`📥 Queued print job ${job.id}`);
+    this.emit("change", job);
+
+    this.schedule(0);
+    return job;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  list(): PrintJob[] {
+    return [...this.jobs.values()].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  get(id: string): PrintJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Cancel a job that has not finished yet
+   * @param id Queue job ID
+   * @returns The cancelled job
+   */
+  async cancel(id: string): Promise<PrintJob> {
+    const job = this.jobs.get(id);
+    if (!job) {
+      throw new Error(`Job not found: ${id}`);
+    }
+    if (FINISHED_STATES.includes(job.state)) {
+      throw new Error(`Job ${id} is already ${job.state}`);
+    }
+
+    if ((job.state === "sent" || job.state === "printing") && job.backendJobId) {
+      await cancelPrintJob(job.backendJobId);
+    }
+
+    await this.update(job, { state: "cancelled", retryAt: undefined });
+    await this.removeImage(job);
+    return job;
+  }
+
+  private schedule(delay: number): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = null;
+    if (this.isProcessing) {
+      this.runAgain = true;
+      return;
+    }
+    this.isProcessing = true;
+    this.runAgain = false;
+
+    try {
+      await this.sendQueued();
+      await this.trackSent();
+    } catch (error) {
+      console.warn(`⚠️ Print queue error:`, error instanceof Error ? error.message : error);
+    } finally {
+      this.isProcessing = false;
+    }
+
+    const hasPending = [...this.jobs.values()].some((job) => !FINISHED_STATES.includes(job.state));
+    if ((hasPending || this.runAgain) && !this.timer) {
+      this.schedule(this.runAgain ? 0 : this.pollInterval);
+    }
+  }
+
+  private async sendQueued(): Promise<void> {
+    const now = Date.now();
+    const ready = this.list()
+      .reverse()
+      .filter((job) => job.state === "queued" && (!job.retryAt || Date.parse(job.retryAt) <= now));
+
+    for (const job of ready) {
+      // Might have been cancelled while an earlier job was printing
+      if (job.state !== "queued") continue;
+
+      try {
+        const image = await fs.promises.readFile(this.imagePath(job.id));
+        job.attempts++;
+        console.log(`🖨️ Sending print job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+        const result = await this.backend.print(image, job.options, job.route);
+
+        if ((job.state as JobState) === "cancelled") {
+          // Cancelled while it was being sent
+          if (!result.completed) await cancelPrintJob(result.jobId);
+          continue;
+        }
+
+        await this.update(job, {
+          state: result.completed ? "completed" : "sent",
+          printerName: result.printerName,
+          backendJobId: result.jobId,
+          routeReason: result.reason,
+          error: undefined,
+          retryAt: undefined,
+        });
+        console.log(`✅ Print job ${job.id} sent to ${result.printerName} (Job ID: ${result.jobId})`);
+        if (result.completed) await this.removeImage(job);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (job.attempts < job.maxAttempts) {
+          const delay = this.retryDelay * 2 ** (job.attempts - 1);
+          console.warn(`⚠️ Print job ${job.id} failed, retrying in ${delay}ms: ${message}`);
+          await this.update(job, {
+            error: message,
+            retryAt: new Date(Date.now() + delay).toISOString(),
+          });
+        } else {
+          console.error(`❌ Print job ${job.id} failed after ${job.attempts} attempt(s): ${message}`);
+          await this.update(job, { state: "failed", error: message, retryAt: undefined });
+          await this.removeImage(job);
+        }
+      }
+    }
+  }
+
+  private async trackSent(): Promise<void> {
+    const sent = [...this.jobs.values()].filter(
+      (job) => (job.state === "sent" || job.state === "printing") && job.backendJobId
+    );
+    if (sent.length === 0) return;
+
+    const pending = await getPendingJobs();
+
+    // lpq tells us which job is actually on the print head
+    const printerNames = [...new Set(sent.map((job) => job.printerName).filter((name) => !!name))] as string[];
+    const active: QueuedJob[] = [];
+    for (const printerName of printerNames) {
+      try {
+        active.push(...(await getPrinterQueue(printerName)).filter((job) => job.isActive));
+      } catch {
+        // lpstat -o alone is enough to tell sent from completed
+      }
+    }
+
+    for (const job of sent) {
+      const isPending = pending.some((p) => p.jobId === job.backendJobId);
+      const isActive = active.some((p) => p.jobId === job.backendJobId);
+
+      if (!isPending && !isActive) {
+        console.log(`✅ Print job ${job.id} completed`);
+        await this.update(job, { state: "completed" });
+        await this.removeImage(job);
+      } else if (isActive && job.state !== "printing") {
+        await this.update(job, { state: "printing" });
+      }
+    }
+  }
+
+  private async update(job: PrintJob, changes: Partial<PrintJob>): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    await this.save();
+    this.emit("change", job);
+  }
+
+  private async removeImage(job: PrintJob): Promise<void> {
+    await fs.promises.rm(this.imagePath(job.id), { force: true });
+  }
+
+  private save(): Promise<void> {
+    return this.index.save(() => {
+      // Drop the oldest finished jobs beyond the history limit
+      const finished = this.list().filter((job) => FINISHED_STATES.includes(job.state));
+      for (const job of finished.slice(this.historyLimit)) {
+        this.jobs.delete(job.id);
+      }
+      return this.list();
+    });
+  }
+}
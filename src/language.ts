@@ -0,0 +1,68 @@
+/**
+ * Languages with a name Whisper understands, by ISO 639-1 code. Whisper
+ * knows many more; these are the ones that can be picked by code here.
+ */
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: "english",
+  es: "spanish",
+  fr: "french",
+  ja: "japanese",
+  de: "german",
+  it: "italian",
+  pt: "portuguese",
+  nl: "dutch",
+  zh: "chinese",
+  ko: "korean",
+};
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_NAMES);
+
+/**
+ * Turn a code or Whisper language name ("japanese") into a code
+ * @returns The code, or undefined for unknown languages
+ */
+export function languageCode(language: string | undefined): string | undefined {
+  const key = language?.trim().toLowerCase();
+  if (!key) return undefined;
+  if (LANGUAGE_NAMES[key]) return key;
+  return LANGUAGE_CODES.find((code) => LANGUAGE_NAMES[code] === key);
+}
+
+// Short words that give a language away
+const COMMON_WORDS: Record<string, string[]> = {
+  en: ["a", "an", "the", "and", "with", "of", "is", "on", "in", "my", "that", "it", "please"],
+  es: ["un", "una", "el", "la", "los", "las", "y", "con", "de", "que", "en", "por", "favor", "mi", "es"],
+  fr: ["un", "une", "le", "la", "les", "et", "avec", "de", "des", "du", "qui", "sur", "mon", "est", "plait"],
+  de: ["ein", "eine", "der", "die", "das", "und", "mit", "von", "ist", "auf", "bitte"],
+  it: ["un", "una", "il", "lo", "gli", "e", "con", "di", "che", "per", "favore"],
+  pt: ["um", "uma", "o", "os", "as", "e", "com", "de", "que", "por", "favor"],
+  nl: ["een", "de", "het", "en", "met", "van", "op", "is", "alsjeblieft"],
+};
+
+/**
+ * Guess the language of a transcript, for transcribers that don't report it:
+ * the script for Japanese, Chinese and Korean, otherwise the most common
+ * short words
+ * @returns A code, or undefined when there is nothing to go on
+ */
+export function guessLanguage(text: string): string | undefined {
+  if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(text)) return "ja";
+  if (/\p{Script=Hangul}/u.test(text)) return "ko";
+  if (/\p{Script=Han}/u.test(text)) return "zh";
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter((word) => word);
+  // Accented letters that only some languages use
+  if (/[ñ¿¡]/.test(text.toLowerCase())) return "es";
+  if (/[çœèêëàâîïû]/.test(text.toLowerCase())) return "fr";
+
+  let best: string | undefined;
+  let bestScore = 0;
+  for (const [code, common] of Object.entries(COMMON_WORDS)) {
+    const score = words.filter((word) => common.includes(word)).length;
+    if (score > bestScore) {
+      best = code;
+      bestScore = score;
+    }
+  }
+  return best;
+}
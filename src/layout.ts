@@ -0,0 +1,190 @@
+import { decodePngGray, encodePng, type GrayImage } from "./png.ts";
+import { resize } from "./thermal.ts";
+import { parseMediaSize } from "./capabilities.ts";
+import { drawText, measureText, GLYPH_HEIGHT } from "./font.ts";
+
+/**
+ * Cells per sheet: a preset (1, 2 or 4 up) or an explicit grid
+ */
+export type SheetGrid = 1 | 2 | 4 | { columns: number; rows: number };
+
+/**
+ * Options for laying out a sticker sheet
+ */
+export interface SheetOptions {
+  /** Media size name, e.g. `4x6`, `w288h432`, `A6` (default: 4x6) */
+  media?: string;
+  /** Output resolution in dots per inch (default: 203, typical for thermal) */
+  dpi?: number;
+  /** Stickers per sheet (default: 4) */
+  grid?: SheetGrid;
+  /** Page margin in mm (default: 3) */
+  marginMm?: number;
+  /** Space between cells in mm (default: 4) */
+  gutterMm?: number;
+  /** Dashed cut lines through the gutters, or fold ticks at the page edges (default: none) */
+  guides?: "none" | "cut" | "fold";
+  /** Caption under each cell, by cell index */
+  captions?: (string | undefined)[];
+}
+
+/**
+ * Check a grid from a request: a preset (1, 2 or 4) or whole-number columns and rows
+ * @returns The grid
+ */
+export function validateSheetGrid(grid: unknown): SheetGrid {
+  if (grid === 1 || grid === 2 || grid === 4) return grid;
+  if (grid && typeof grid === "object") {
+    const { columns, rows } = grid as Record<string, unknown>;
+    if (
+      typeof columns === "number" &&
+      typeof rows === "number" &&
+      Number.isInteger(columns) &&
+      Number.isInteger(rows) &&
+      columns > 0 &&
+      rows > 0
+    ) {
+      return { columns, rows };
+    }
+  }
+  throw new Error(`Invalid grid: ${JSON.stringify(grid)}`);
+}
+
+/**
+ * Resolve a grid preset into columns and rows (portrait page)
+ */
+export function gridSize(grid: SheetGrid): { columns: number; rows: number } {
+  if (typeof grid === "object") return grid;
+  if (grid === 1) return { columns: 1, rows: 1 };
+  if (grid === 2) return { columns: 1, rows: 2 };
+  return { columns: 2, rows: 2 };
+}
+
+function fill(page: GrayImage, x: number, y: number, width: number, height: number, color: number): void {
+  for (let py = Math.max(0, y); py < Math.min(page.height, y + height); py++) {
+    for (let px = Math.max(0, x); px < Math.min(page.width, x + width); px++) {
+      page.data[py * page.width + px] = color;
+    }
+  }
+}
+
+function dashedLine(page: GrayImage, x: number, y: number, length: number, vertical: boolean): void {
+  const dash = 12;
+  for (let offset = 0; offset < length; offset += dash * 2) {
+    const size = Math.min(dash, length - offset);
+    if (vertical) fill(page, x, y + offset, 2, size, 0);
+    else fill(page, x + offset, y, size, 2, 0);
+  }
+}
+
+/**
+ * Scale an image to fit a box, keeping its aspect ratio
+ */
+function fitWithin(image: GrayImage, width: number, height: number): GrayImage {
+  const scale = Math.min(width / image.width, height / image.height);
+  return resize(
+    image,
+    Math.max(1, Math.floor(image.width * scale)),
+    Math.max(1, Math.floor(image.height * scale))
+  );
+}
+
+/**
+ * Lay out one or more stickers on a single page
+ * @param images PNGs to place, in cell order (extra images are ignored)
+ * @param options Layout options
+ * @returns The sheet as a grayscale PNG
+ */
+export function layoutSheet(images: Buffer[], options: SheetOptions = {}): Buffer {
+  const {
+    media = "4x6",
+    dpi = 203,
+    grid = 4,
+    marginMm = 3,
+    gutterMm = 4,
+    guides = "none",
+    captions = [],
+  } = options;
+
+  const size = parseMediaSize(media);
+  if (!size.widthMm || !size.heightMm) {
+    throw new Error(`Unknown media size: ${media}`);
+  }
+
+  const mm = (value: number) => Math.round((value / 25.4) * dpi);
+  const page: GrayImage = {
+    width: mm(size.widthMm),
+    height: mm(size.heightMm),
+    data: new Uint8Array(mm(size.widthMm) * mm(size.heightMm)).fill(255),
+  };
+
+  const { columns, rows } = gridSize(grid);
+  const margin = mm(marginMm);
+  const gutter = mm(gutterMm);
+  const cellWidth = Math.floor((page.width - margin * 2 - gutter * (columns - 1)) / columns);
+  const cellHeight = Math.floor((page.height - margin * 2 - gutter * (rows - 1)) / rows);
+  if (cellWidth <= 0 || cellHeight <= 0) {
+    throw new Error(`Grid ${columns}x${rows} does not fit on ${media}`);
+  }
+
+  // Captions use a font scale that keeps text a readable ~3mm tall
+  const captionScale = Math.max(1, Math.round(mm(3) / GLYPH_HEIGHT));
+  const captionHeight = GLYPH_HEIGHT * captionScale + mm(1);
+
+  for (let index = 0; index < Math.min(images.length, columns * rows); index++) {
+    const cellX = margin + (index % columns) * (cellWidth + gutter);
+    const cellY = margin + Math.floor(index / columns) * (cellHeight + gutter);
+    const caption = captions[index]?.trim();
+    const imageHeight = caption ? cellHeight - captionHeight : cellHeight;
+
+    const sticker = fitWithin(decodePngGray(images[index]), cellWidth, imageHeight);
+    const offsetX = cellX + Math.floor((cellWidth - sticker.width) / 2);
+    const offsetY = cellY + Math.floor((imageHeight - sticker.height) / 2);
+    for (let y = 0; y < sticker.height; y++) {
+      page.data.set(
+        sticker.data.subarray(y * sticker.width, (y + 1) * sticker.width),
+        (offsetY + y) * page.width + offsetX
+      );
+    }
+
+    if (caption) {
+      // Shrink the font until the caption fits the cell, then truncate
+      let scale = captionScale;
+      while (scale > 1 && measureText(caption, scale) > cellWidth) scale--;
+      let text = caption;
+      if (measureText(text, scale) > cellWidth) {
+        while (text.length > 1 && measureText(`${text}..`, scale) > cellWidth) {
+          text = text.slice(0, -1);
+        }
+        text = `${text.trimEnd()}..`;
+      }
+      drawText(
+        page,
+        text,
+        cellX + Math.floor((cellWidth - measureText(text, scale)) / 2),
+        cellY + imageHeight + mm(1),
+        scale
+      );
+    }
+  }
+
+  // Guides sit in the middle of each gutter
+  for (let col = 1; col < columns; col++) {
+    const x = margin + col * (cellWidth + gutter) - Math.ceil(gutter / 2);
+    if (guides === "cut") dashedLine(page, x, 0, page.height, true);
+    if (guides === "fold") {
+      fill(page, x, 0, 2, margin, 0);
+      fill(page, x, page.height - margin, 2, margin, 0);
+    }
+  }
+  for (let row = 1; row < rows; row++) {
+    const y = margin + row * (cellHeight + gutter) - Math.ceil(gutter / 2);
+    if (guides === "cut") dashedLine(page, 0, y, page.width, false);
+    if (guides === "fold") {
+      fill(page, 0, y, margin, 2, 0);
+      fill(page, page.width - margin, y, margin, 2, 0);
+    }
+  }
+
+  return encodePng(page);
+}
@@ -0,0 +1,345 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import OpenAI from "openai";
+import { callOptionsFromEnv, GENERATION_CODES, resilientCall, type CallOptions } from "./resilience.ts";
+
+/**
+ * Outcome of checking a prompt
+ */
+export interface ModerationVerdict {
+  allowed: boolean;
+  /** What decided it */
+  source: "blocklist" | "classifier" | "default";
+  /** Blocklist term or classifier category that matched */
+  reason?: string;
+  /** Kid-friendly explanation to show instead of a sticker */
+  message?: string;
+}
+
+/**
+ * Result of an external classifier
+ */
+export interface ClassifierResult {
+  flagged: boolean;
+  category?: string;
+}
+
+/**
+ * Decides whether a prompt is suitable for a child (e.g. an LLM)
+ */
+export type PromptClassifier = (prompt: string) => Promise<ClassifierResult>;
+
+/**
+ * One blocked prompt, as written to the parent log
+ */
+export interface ModerationLogEntry {
+  time: string;
+  prompt: string;
+  source: ModerationVerdict["source"];
+  reason?: string;
+}
+
+/**
+ * Moderation settings
+ */
+export interface ModerationConfig {
+  /** Words and phrases that block a prompt */
+  blocklist: string[];
+  /** Words and phrases that are fine even if they contain a blocked term ("killer whale") */
+  allowlist: string[];
+  /** Optional classifier run after the word lists */
+  classifier?: PromptClassifier;
+  /** Block prompts when the classifier fails (default: false) */
+  failClosed?: boolean;
+  /** JSON lines file of blocked prompts (default: output/moderation.jsonl) */
+  logFile?: string;
+}
+
+/**
+ * Built-in blocklist, extended by `MODERATION_BLOCKLIST_FILE`. Regular
+ * plurals and -ed/-ing forms match too ("kills", "bombed"), so only
+ * irregular forms are listed.
+ */
+export const DEFAULT_BLOCKLIST = [
+  // Violence and weapons
+  "kill", "killer", "murder", "murderer", "blood", "bloody", "gore", "gun", "rifle", "shoot", "shot",
+  "shooter", "knife", "knives", "stab", "stabbed", "stabbing", "bomb", "bomber", "explosion", "explode",
+  "weapon", "war", "dead body", "dead bodies", "corpse", "torture", "behead", "suicide", "self harm",
+  // Scary
+  "demon", "satan", "horror", "creepy clown",
+  // Adult content
+  "naked", "nude", "sex", "sexy", "porn", "boobs", "underwear",
+  // Drugs and alcohol
+  "drug", "cocaine", "weed", "marijuana", "beer", "wine", "vodka", "drunk", "cigarette", "smoking",
+  // Hate
+  "nazi", "swastika", "kkk", "racist",
+];
+
+/**
+ * Built-in allowlist, extended by `MODERATION_ALLOWLIST_FILE`
+ */
+export const DEFAULT_ALLOWLIST = [
+  "killer whale", "water gun", "bubble gun", "blood orange", "star wars", "shooting star",
+  "butter knife", "bath bomb", "smoking volcano", "weeding",
+];
+
+const FRIENDLY_MESSAGES = [
+  "Hmm, let's dream up something else! How about a puppy astronaut?",
+  "That one isn't a sticker idea. What about a dragon having a tea party?",
+  "Let's pick something different! Maybe a cat riding a skateboard?",
+  "Ooh, let's try another idea! How about a unicorn at the beach?",
+  "Let's imagine something else! What about a robot baking cookies?",
+];
+
+/**
+ * Lowercase, strip accents and collapse everything but letters and digits
+ * to single spaces, so matching works on whole words
+ */
+function normalize(text: string): string {
+  return ` ${text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()} `;
+}
+
+/**
+ * Match a normalized word or phrase, letting its last word take a regular
+ * ending: "bomb" matches "bombs", "bombed" and "bombing", "explode"
+ * matches "exploding"
+ */
+function termPattern(term: string, flags?: string): RegExp {
+  const words = term.trim();
+  const pattern = words.endsWith("e")
+    ? `${words.slice(0, -1)}(?:e|es|ed|ing)`
+    : `${words}(?:|s|es|ed|ing)`;
+  return new RegExp(` ${pattern}(?= )`, flags);
+}
+
+/**
+ * Checks prompts before anything is generated. Word lists run first, then
+ * the optional classifier. Blocked prompts get a friendly message and are
+ * appended to a log for parents.
+ */
+export class PromptModerator {
+  private blocklist: { term: string; pattern: RegExp }[];
+  private allowlist: RegExp[];
+  private logFile: string;
+  private messageIndex = 0;
+
+  constructor(private config: ModerationConfig) {
+    this.blocklist = config.blocklist
+      .map(normalize)
+      .filter((term) => term.trim())
+      .map((term) => ({ term: term.trim(), pattern: termPattern(term) }));
+    this.allowlist = config.allowlist
+      .map(normalize)
+      .filter((term) => term.trim())
+      .map((term) => termPattern(term, "g"));
+    this.logFile = config.logFile ?? path.join("output", "moderation.jsonl");
+  }
+
+  /**
+   * Whether an LLM or other classifier is configured
+   */
+  get hasClassifier(): boolean {
+    return Boolean(this.config.classifier);
+  }
+
+  /**
+   * Check a prompt against the word lists only
+   */
+  checkWords(prompt: string): ModerationVerdict {
+    let text = normalize(prompt);
+    // Allowed phrases are removed first, so "killer whales" doesn't match "kill"
+    for (const pattern of this.allowlist) {
+      text = text.replace(pattern, " ");
+    }
+
+    const match = this.blocklist.find(({ pattern }) => pattern.test(text));
+    if (match) {
+      return { allowed: false, source: "blocklist", reason: match.term };
+    }
+    return { allowed: true, source: "default" };
+  }
+
+  /**
+   * Check a prompt, logging it if blocked
+   * @param prompt Transcript or typed prompt
+   */
+  async check(prompt: string): Promise<ModerationVerdict> {
+    let verdict = this.checkWords(prompt);
+
+    if (verdict.allowed && this.config.classifier) {
+      try {
+        const result = await this.config.classifier(prompt);
+        if (result.flagged) {
+          verdict = { allowed: false, source: "classifier", reason: result.category };
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ Moderation classifier failed: ${message}`);
+        if (this.config.failClosed) {
+          verdict = { allowed: false, source: "classifier", reason: "classifier unavailable" };
+        }
+      }
+    }
+
+    if (verdict.allowed) {
+      return verdict;
+    }
+
+    console.log(`🛡️ Blocked prompt (${verdict.source}: ${verdict.reason}): "${prompt}"`);
+    await this.log({ time: new Date().toISOString(), prompt, source: verdict.source, reason: verdict.reason });
+
+    const message = FRIENDLY_MESSAGES[this.messageIndex++ % FRIENDLY_MESSAGES.length];
+    return { ...verdict, message };
+  }
+
+  /**
+   * Blocked prompts, newest first
+   * @param limit Maximum entries to return
+   */
+  async getLog(limit: number = 100): Promise<ModerationLogEntry[]> {
+    let contents: string;
+    try {
+      contents = await fs.promises.readFile(this.logFile, "utf8");
+    } catch {
+      return [];
+    }
+
+    return contents
+      .split("\n")
+      .filter((line) => line.trim())
+      .flatMap((line) => {
+        try {
+          return [JSON.parse(line) as ModerationLogEntry];
+        } catch {
+          return [];
+        }
+      })
+      .reverse()
+      .slice(0, limit);
+  }
+
+  private async log(entry: ModerationLogEntry): Promise<void> {
+    try {
+      await fs.promises.mkdir(path.dirname(this.logFile), { recursive: true });
+      await fs.promises.appendFile(this.logFile, `${JSON.stringify(entry)}\n`);
+    } catch (error) {
+      console.warn(`⚠️ Could not write moderation log: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
+
+/**
+ * Ask an OpenAI chat model whether a prompt is suitable for young children
+ * @param openai OpenAI client
+ * @param model Chat model (default: gpt-4o-mini)
+ * @param callOptions Time limit and retries for each check
+ */
+export function createOpenAIClassifier(
+  openai: OpenAI,
+  model: string = "gpt-4o-mini",
+  callOptions: CallOptions = {}
+): PromptClassifier {
+  return async (prompt) => {
+    const response = await resilientCall(
+      "moderation",
+      (signal) =>
+        openai.chat.completions.create(
+          {
+            model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              {
+                role: "system",
+                content:
+                  "You screen sticker ideas spoken by children aged 3-10 before a picture is drawn. " +
+                  "Flag anything violent, scary, sexual, hateful, about drugs or alcohol, or otherwise " +
+                  "not suitable for a young child. Silly, gross-out and cartoon mischief are fine. " +
+                  'Answer with JSON: {"flagged": boolean, "category": string}.',
+              },
+              { role: "user", content: prompt },
+            ],
+          },
+          { signal }
+        ),
+      callOptions,
+      GENERATION_CODES
+    );
+
+    const content = response.choices[0]?.message?.content;
+    if (!content) {
+      throw new Error("Empty classifier response");
+    }
+    const result = JSON.parse(content) as ClassifierResult;
+    return { flagged: result.flagged === true, category: result.category || undefined };
+  };
+}
+
+/**
+ * Read a word list file: one word or phrase per line, `#` starts a comment
+ */
+function readWordList(file: string): string[] {
+  try {
+    return fs
+      .readFileSync(file, "utf8")
+      .split("\n")
+      .map((line) => line.replace(/#.*/, "").trim())
+      .filter((line) => line);
+  } catch (error) {
+    throw new Error(
+      `Failed to read word list ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Read moderation settings from the environment:
+ * - `MODERATION_BLOCKLIST_FILE`: extra blocked words, one per line
+ * - `MODERATION_ALLOWLIST_FILE`: extra allowed phrases, one per line
+ * - `MODERATION_CLASSIFIER`: `openai` to also ask an LLM (default: off)
+ * - `MODERATION_MODEL`: chat model for the classifier (default: gpt-4o-mini)
+ * - `MODERATION_FAIL_CLOSED`: set to `1` to block prompts when the classifier fails
+ * - `MODERATION_TIMEOUT_MS`, `MODERATION_RETRIES`: time limit and retries for
+ *   each classifier call (default: 10000 and 1)
+ * @param openai Client for the `openai` classifier
+ */
+export function moderationConfigFromEnv(
+  openai?: OpenAI,
+  env: NodeJS.ProcessEnv = process.env
+): ModerationConfig {
+  const blocklist = [...DEFAULT_BLOCKLIST];
+  const allowlist = [...DEFAULT_ALLOWLIST];
+  if (env["MODERATION_BLOCKLIST_FILE"]) {
+    blocklist.push(...readWordList(env["MODERATION_BLOCKLIST_FILE"]));
+  }
+  if (env["MODERATION_ALLOWLIST_FILE"]) {
+    allowlist.push(...readWordList(env["MODERATION_ALLOWLIST_FILE"]));
+  }
+
+  let classifier: PromptClassifier | undefined;
+  const classifierType = env["MODERATION_CLASSIFIER"];
+  if (classifierType === "openai") {
+    if (!openai) {
+      throw new Error("MODERATION_CLASSIFIER=openai needs an OpenAI client");
+    }
+    classifier = createOpenAIClassifier(
+      openai,
+      env["MODERATION_MODEL"] || undefined,
+      callOptionsFromEnv("MODERATION", { timeoutMs: 10000, retries: 1 }, env)
+    );
+  } else if (classifierType && classifierType !== "none") {
+    throw new Error(`Unknown MODERATION_CLASSIFIER: ${classifierType}`);
+  }
+
+  return {
+    blocklist,
+    allowlist,
+    classifier,
+    failClosed: env["MODERATION_FAIL_CLOSED"] === "1",
+  };
+}
@@ -0,0 +1,238 @@
+import { decodePngGray, encodePng, type GrayImage } from "./png.ts";
+import { drawText, measureText, wrapText, GLYPH_HEIGHT, type FontName } from "./font.ts";
+
+/**
+ * Where overlay text goes: a white band added above or below the picture,
+ * or a speech bubble drawn over its top corner
+ */
+export type OverlayPlacement = "top" | "bottom" | "bubble";
+
+export const OVERLAY_PLACEMENTS: OverlayPlacement[] = ["top", "bottom", "bubble"];
+
+/**
+ * What to write on a sticker. Each part is optional; empty parts are skipped.
+ */
+export interface OverlayContent {
+  /** Custom caption, written first */
+  caption?: string;
+  /** The spoken prompt */
+  prompt?: string;
+  /** The child's name, written with the date on the last line */
+  name?: string;
+  /** Date to write on the last line */
+  date?: Date;
+  /** IANA time zone the date is written in (default: UTC) */
+  timeZone?: string;
+}
+
+/**
+ * How overlay text looks
+ */
+export interface OverlayStyle {
+  /** Band or bubble (default: bottom) */
+  placement?: OverlayPlacement;
+  /** Font face (default: bold) */
+  font?: FontName;
+  /** Largest share of the picture height the text may take (default: 0.2) */
+  maxHeight?: number;
+}
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+/**
+ * Format a date for a sticker ("19 Oct 2026"). The day is taken in the
+ * given time zone rather than the host's, so every host writes the same date.
+ * @param timeZone IANA time zone, e.g. `Asia/Tokyo` (default: UTC)
+ */
+export function formatOverlayDate(date: Date, timeZone: string = "UTC"): string {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, year: "numeric", month: "numeric", day: "numeric" })
+    .formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return `${part("day")} ${MONTHS[part("month") - 1]} ${part("year")}`;
+}
+
+/**
+ * Whether a time zone name is one `formatOverlayDate` accepts
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The text blocks to write, in order: caption, prompt, then "name - date"
+ */
+export function overlayBlocks(content: OverlayContent): string[] {
+  const footer = [content.name?.trim(), content.date ? formatOverlayDate(content.date, content.timeZone) : undefined]
+    .filter((part) => part)
+    .join(" - ");
+  return [content.caption?.trim(), content.prompt?.trim(), footer].filter(
+    (block): block is string => Boolean(block)
+  );
+}
+
+function fill(image: GrayImage, x: number, y: number, width: number, height: number, color: number): void {
+  for (let py = Math.max(0, y); py < Math.min(image.height, y + height); py++) {
+    for (let px = Math.max(0, x); px < Math.min(image.width, x + width); px++) {
+      image.data[py * image.width + px] = color;
+    }
+  }
+}
+
+/**
+ * Lines of text at the largest font scale that fits the box. At the smallest
+ * scale, lines that still don't fit are dropped and the last one ends in "..".
+ */
+function fitText(
+  blocks: string[],
+  maxWidth: number,
+  maxHeight: number,
+  font: FontName
+): { lines: string[]; scale: number; lineHeight: number } {
+  const maxScale = Math.max(1, Math.floor(maxWidth / 96));
+  for (let scale = maxScale; scale >= 1; scale--) {
+    const lineHeight = (GLYPH_HEIGHT + 2) * scale;
+    const lines = blocks.flatMap((block) => wrapText(block, maxWidth, scale, font));
+    if (lines.length * lineHeight <= maxHeight || scale === 1) {
+      const fitting = Math.max(1, Math.floor(maxHeight / lineHeight));
+      if (lines.length <= fitting) {
+        return { lines, scale, lineHeight };
+      }
+
+      let last = lines[fitting - 1];
+      while (last.length > 1 && measureText(`${last}..`, scale, font) > maxWidth) {
+        last = last.slice(0, -1);
+      }
+      return { lines: [...lines.slice(0, fitting - 1), `${last.trimEnd()}..`], scale, lineHeight };
+    }
+  }
+  throw new Error("Unreachable");
+}
+
+function drawLines(
+  image: GrayImage,
+  text: { lines: string[]; scale: number; lineHeight: number },
+  left: number,
+  width: number,
+  top: number,
+  font: FontName
+): void {
+  text.lines.forEach((line, index) => {
+    drawText(
+      image,
+      line,
+      left + Math.floor((width - measureText(line, text.scale, font)) / 2),
+      top + index * text.lineHeight,
+      text.scale,
+      0,
+      font
+    );
+  });
+}
+
+/**
+ * Add a white band with the text above or below the picture, so the
+ * artwork itself is never covered
+ */
+function addBand(picture: GrayImage, blocks: string[], top: boolean, maxHeight: number, font: FontName): GrayImage {
+  const padding = Math.max(4, Math.round(picture.width / 48));
+  const text = fitText(blocks, picture.width - padding * 2, maxHeight, font);
+  const rule = Math.max(2, text.scale);
+  const bandHeight = text.lines.length * text.lineHeight + padding * 2;
+
+  const height = picture.height + bandHeight;
+  const image: GrayImage = { width: picture.width, height, data: new Uint8Array(picture.width * height).fill(255) };
+  const pictureY = top ? bandHeight : 0;
+  image.data.set(picture.data, pictureY * picture.width);
+
+  // A rule between band and picture, so it reads as a label
+  fill(image, padding, top ? bandHeight - rule : picture.height, picture.width - padding * 2, rule, 0);
+  drawLines(image, text, padding, picture.width - padding * 2, (top ? 0 : picture.height) + padding + rule, font);
+  return image;
+}
+
+/**
+ * Draw a rounded speech bubble with the text over the top-left corner,
+ * its tail pointing down towards the middle of the picture
+ */
+function drawBubble(picture: GrayImage, blocks: string[], maxHeight: number, font: FontName): GrayImage {
+  const image: GrayImage = { ...picture, data: picture.data.slice() };
+  const margin = Math.max(4, Math.round(picture.width / 32));
+  const padding = Math.max(6, Math.round(picture.width / 40));
+  const maxWidth = Math.round(picture.width * 0.6);
+
+  const text = fitText(blocks, maxWidth - padding * 2, maxHeight - padding * 2, font);
+  const textWidth = Math.max(...text.lines.map((line) => measureText(line, text.scale, font)));
+  const width = textWidth + padding * 2;
+  const height = text.lines.length * text.lineHeight + padding * 2;
+  const border = Math.max(2, text.scale);
+  const radius = Math.min(padding * 2, Math.floor(height / 2));
+
+  // Tail: a triangle under the bubble, leaning right to a point
+  const tailHeight = Math.round(height / 2);
+  const tailX = margin + Math.round(width * 0.3);
+  const tailWidth = Math.max(border * 4, Math.round(width * 0.15));
+  for (let row = 0; row <= tailHeight; row++) {
+    const progress = row / tailHeight;
+    const left = tailX + Math.round(progress * tailWidth * 1.3);
+    const right = tailX + tailWidth + Math.round(progress * tailWidth * 0.3);
+    const y = margin + height - border + row;
+    fill(image, left, y, Math.max(0, right - left), 1, 255);
+    fill(image, left, y, border * 2, 1, 0);
+    fill(image, right - border * 2, y, border * 2, 1, 0);
+  }
+
+  // Rounded rectangle: white inside, black outline
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cornerX = x < radius ? radius - x : x >= width - radius ? x - (width - radius - 1) : 0;
+      const cornerY = y < radius ? radius - y : y >= height - radius ? y - (height - radius - 1) : 0;
+      const distance = Math.hypot(cornerX, cornerY);
+      if (cornerX && cornerY && distance > radius) continue;
+
+      const edge = cornerX && cornerY
+        ? distance > radius - border
+        : x < border || y < border || x >= width - border || y >= height - border;
+      const isTailGap = y >= height - border && x >= tailX - margin + border * 2 && x < tailX - margin + tailWidth - border * 2;
+      const px = margin + x;
+      const py = margin + y;
+      if (px < image.width && py < image.height) {
+        image.data[py * image.width + px] = edge && !isTailGap ? 0 : 255;
+      }
+    }
+  }
+
+  drawLines(image, text, margin + padding, textWidth, margin + padding, font);
+  return image;
+}
+
+/**
+ * Write a caption, prompt, name or date onto a sticker, using the bundled
+ * font so the result is identical on any host
+ * @param png Picture as a PNG
+ * @param content What to write
+ * @param style Placement, font and size limit
+ * @returns The new PNG, or the original if there is nothing to write
+ */
+export function renderOverlay(png: Buffer, content: OverlayContent, style: OverlayStyle = {}): Buffer {
+  const { placement = "bottom", font = "bold", maxHeight = 0.2 } = style;
+  const blocks = overlayBlocks(content);
+  if (blocks.length === 0) {
+    return png;
+  }
+  if (!OVERLAY_PLACEMENTS.includes(placement)) {
+    throw new Error(`Unknown overlay placement: ${placement}`);
+  }
+
+  const picture = decodePngGray(png);
+  const textHeight = Math.max(GLYPH_HEIGHT + 2, Math.round(picture.height * maxHeight));
+  const image =
+    placement === "bubble"
+      ? drawBubble(picture, blocks, textHeight, font)
+      : addBand(picture, blocks, placement === "top", textHeight, font);
+  return encodePng(image);
+}
@@ -0,0 +1,51 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+/**
+ * A JSON array kept in one file, shared by the image cache, sticker
+ * history and print queue. Writes go to a temp file that is renamed over
+ * the old one, so a crash never leaves half an index behind.
+ */
+export class JsonFile<T> {
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param file Path of the JSON file
+   * @param description What it holds, for the warning when it can't be read (e.g. "print jobs")
+   */
+  constructor(
+    readonly file: string,
+    private description: string
+  ) {}
+
+  /**
+   * Create the directory and read what a previous run saved
+   * @returns The saved items, or none if there is no file or it can't be read
+   */
+  async load(): Promise<T[]> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    try {
+      return JSON.parse(await fs.promises.readFile(this.file, "utf8")) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`⚠️ Could not load ${this.description}:`, error instanceof Error ? error.message : error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Write the items. Writes are chained so two saves never race on the
+   * temp file, and `items` is called when this write's turn comes.
+   */
+  save(items: () => T[]): Promise<void> {
+    this.saving = this.saving.catch(() => {}).then(() => this.write(items()));
+    return this.saving;
+  }
+
+  private async write(items: T[]): Promise<void> {
+    const tempPath = `${this.file}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(items, null, 2));
+    await fs.promises.rename(tempPath, this.file);
+  }
+}
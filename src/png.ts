@@ -0,0 +1,250 @@
+import * as zlib from "node:zlib";
+
+/**
+ * A decoded image with 8-bit RGBA pixels, row-major
+ */
+export interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/**
+ * An 8-bit single channel image, row-major (0 = black, 255 = white)
+ */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Check whether a buffer starts with the PNG signature
+ */
+export function isPng(buffer: Buffer): boolean {
+  return buffer.length >= 8 && buffer.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+/**
+ * Read the dimensions from a PNG header without decoding it
+ */
+export function readPngSize(buffer: Buffer): { width: number; height: number } {
+  if (!isPng(buffer)) {
+    throw new Error("Not a PNG image");
+  }
+  return { width: buffer.readUInt32BE(16), height: buffer.readUInt32BE(20) };
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  if (pb <= pc) return b;
+  return c;
+}
+
+/**
+ * Decode a (non-interlaced) PNG into RGBA pixels
+ * @param buffer PNG file contents
+ * @returns Decoded image
+ */
+export function decodePng(buffer: Buffer): RgbaImage {
+  if (!isPng(buffer)) {
+    throw new Error("Not a PNG image");
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  let offset = 8;
+  while (offset < buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString("ascii", offset + 4, offset + 8);
+    const chunk = buffer.subarray(offset + 8, offset + 8 + length);
+    offset += 12 + length;
+
+    if (type === "IHDR") {
+      width = chunk.readUInt32BE(0);
+      height = chunk.readUInt32BE(4);
+      bitDepth = chunk[8];
+      colorType = chunk[9];
+      if (chunk[12] !== 0) {
+        throw new Error("Interlaced PNGs are not supported");
+      }
+    } else if (type === "PLTE") {
+      palette = chunk;
+    } else if (type === "tRNS") {
+      transparency = chunk;
+    } else if (type === "IDAT") {
+      idat.push(chunk);
+    } else if (type === "IEND") {
+      break;
+    }
+  }
+
+  const channels = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 }[colorType];
+  if (!channels || !width || !height) {
+    throw new Error(`Unsupported PNG (color type ${colorType})`);
+  }
+
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+
+  // Undo the per-row filters
+  const pixels = new Uint8Array(stride * height);
+  let prev = new Uint8Array(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const line = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    const out = pixels.subarray(y * stride, (y + 1) * stride);
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bytesPerPixel ? out[x - bytesPerPixel] : 0;
+      const b = prev[x];
+      const c = x >= bytesPerPixel ? prev[x - bytesPerPixel] : 0;
+      let value = line[x];
+      if (filter === 1) value += a;
+      else if (filter === 2) value += b;
+      else if (filter === 3) value += (a + b) >> 1;
+      else if (filter === 4) value += paeth(a, b, c);
+      out[x] = value;
+    }
+    prev = out;
+  }
+
+  // Read one sample (scaled to 8 bits) from a row
+  const maxSample = (1 << bitDepth) - 1;
+  const sample = (row: number, index: number): number => {
+    const base = row * stride;
+    if (bitDepth === 8) return pixels[base + index];
+    if (bitDepth === 16) return pixels[base + index * 2];
+    const bitOffset = index * bitDepth;
+    const byte = pixels[base + (bitOffset >> 3)];
+    const value = (byte >> (8 - bitDepth - (bitOffset & 7))) & maxSample;
+    return colorType === 3 ? value : Math.round((value * 255) / maxSample);
+  };
+
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      if (colorType === 0) {
+        const v = sample(y, x);
+        data[o] = data[o + 1] = data[o + 2] = v;
+        data[o + 3] = 255;
+      } else if (colorType === 2) {
+        data[o] = sample(y, x * 3);
+        data[o + 1] = sample(y, x * 3 + 1);
+        data[o + 2] = sample(y, x * 3 + 2);
+        data[o + 3] = 255;
+      } else if (colorType === 3) {
+        const index = sample(y, x);
+        data[o] = palette?.[index * 3] ?? 0;
+        data[o + 1] = palette?.[index * 3 + 1] ?? 0;
+        data[o + 2] = palette?.[index * 3 + 2] ?? 0;
+        data[o + 3] = transparency && index < transparency.length ? transparency[index] : 255;
+      } else if (colorType === 4) {
+        const v = sample(y, x * 2);
+        data[o] = data[o + 1] = data[o + 2] = v;
+        data[o + 3] = sample(y, x * 2 + 1);
+      } else {
+        data[o] = sample(y, x * 4);
+        data[o + 1] = sample(y, x * 4 + 1);
+        data[o + 2] = sample(y, x * 4 + 2);
+        data[o + 3] = sample(y, x * 4 + 3);
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Convert an RGBA image to grayscale, compositing transparency onto white
+ */
+export function toGrayscale(image: RgbaImage): GrayImage {
+  const data = new Uint8Array(image.width * image.height);
+  for (let i = 0; i < data.length; i++) {
+    const o = i * 4;
+    const luma =
+      0.299 * image.data[o] + 0.587 * image.data[o + 1] + 0.114 * image.data[o + 2];
+    const alpha = image.data[o + 3] / 255;
+    data[i] = Math.round(luma * alpha + 255 * (1 - alpha));
+  }
+  return { width: image.width, height: image.height, data };
+}
+
+/**
+ * Decode a PNG straight to grayscale
+ */
+export function decodePngGray(buffer: Buffer): GrayImage {
+  return toGrayscale(decodePng(buffer));
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, "ascii"), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode a grayscale image as an 8-bit grayscale PNG
+ * @param image Grayscale image
+ * @returns PNG file contents
+ */
+export function encodePng(image: GrayImage): Buffer {
+  const header = Buffer.alloc(13);
+  header.writeUInt32BE(image.width, 0);
+  header.writeUInt32BE(image.height, 4);
+  header[8] = 8; // bit depth
+  header[9] = 0; // grayscale
+
+  const raw = Buffer.alloc((image.width + 1) * image.height);
+  for (let y = 0; y < image.height; y++) {
+    raw[y * (image.width + 1)] = 0;
+    raw.set(
+      image.data.subarray(y * image.width, (y + 1) * image.width),
+      y * (image.width + 1) + 1
+    );
+  }
+
+  return Buffer.concat([
+    PNG_SIGNATURE,
+    chunk("IHDR", header),
+    chunk("IDAT", zlib.deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
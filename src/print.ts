@@ -1,10 +1,14 @@
-import { exec } from "node:child_process";
-import { promisify } from "node:util";
 import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
+import { preprocessPng, type ThermalOptions } from "./thermal.ts";
+import { runCommand } from "./runner.ts";
+import {
+  parseCapabilities,
+  parsePrinterOptions,
+  type PrinterCapabilities,
+} from "./capabilities.ts";
 
-const execAsync = promisify(exec);
 
 /**
  * Represents a printer with its details
@@ -33,6 +37,121 @@ export interface PrintOptions {
   fitToPage?: boolean;
   /** Additional CUPS options as key-value pairs */
   cupOptions?: Record<string, string>;
+  /** Resize and dither the image for a thermal print head before sending */
+  thermal?: ThermalOptions;
+}
+
+/**
+ * A job waiting in (or being printed from) a CUPS queue
+ */
+export interface QueuedJob {
+  /** Numeric CUPS job ID */
+  jobId: string;
+  printerName?: string;
+  owner: string;
+  /** Queue position from lpq ("active", "1st", ...) */
+  rank?: string;
+  /** True when the printer is currently printing this job */
+  isActive: boolean;
+  files?: string;
+  sizeBytes?: number;
+  submittedAt?: string;
+}
+
+/**
+ * Parsed `lpstat -p <printer>` output
+ */
+export interface PrinterStatus {
+  /** Printer is paused or disabled */
+  isPaused: boolean;
+  /** CUPS can't reach the printer */
+  isOffline: boolean;
+  /** Printer reports it has no paper/labels */
+  isOutOfMedia: boolean;
+  /** The raw status text */
+  message: string;
+}
+
+/**
+ * What the watcher knows about a printer
+ */
+export interface PrinterState {
+  printerName: string;
+  online: boolean;
+  paused: boolean;
+  outOfMedia: boolean;
+  /** Job that has been pending too long, if any */
+  stuckJobId?: string;
+  updatedAt: string;
+}
+
+/**
+ * Kinds of printer change the watcher reports
+ */
+export type PrinterEventType =
+  | "online"
+  | "offline"
+  | "paused"
+  | "resumed"
+  | "out-of-media"
+  | "job-stuck";
+
+/**
+ * A change in a printer's state
+ */
+export interface PrinterEvent {
+  type: PrinterEventType;
+  printerName: string;
+  message: string;
+  /** Stuck job ID, for `job-stuck` */
+  jobId?: string;
+  /** Printer state after the change */
+  state: PrinterState;
+  timestamp: string;
+}
+
+/**
+ * Check that a printer name is safe to pass to CUPS commands.
+ * CUPS names may not contain spaces, tabs, "/" or "#"; we also refuse
+ * a leading "-" so a name can never be read as a command-line flag.
+ * @param printerName Name of the printer
+ * @returns The printer name
+ */
+export function validatePrinterName(printerName: string): string {
+  if (
+    !printerName ||
+    printerName.length > 127 ||
+    printerName.startsWith("-") ||
+    /[\s/#\\'"`$\x00-\x1f\x7f]/.test(printerName)
+  ) {
+    throw new Error(`Invalid printer name: ${JSON.stringify(printerName)}`);
+  }
+  return printerName;
+}
+
+/**
+ * Check that a job ID is a CUPS job number (`12`) or a
+ * printer-qualified job ID (`Printer-12`)
+ * @param jobId Job ID
+ * @returns The job ID
+ */
+export function validateJobId(jobId: string): string {
+  const match = jobId.match(/^(?:(.+)-)?(\d+)$/);
+  if (!match) {
+    throw new Error(`Invalid job ID: ${JSON.stringify(jobId)}`);
+  }
+  if (match[1]) validatePrinterName(match[1]);
+  return jobId;
+}
+
+/**
+ * Check that a CUPS option key/value can't smuggle in extra options
+ * (`lp -o` splits its argument on whitespace)
+ */
+function validateOption(key: string, value: string): void {
+  if (!/^[A-Za-z0-9_.-]+$/.test(key) || /[\s'"\\]/.test(value)) {
+    throw new Error(`Invalid print option: ${JSON.stringify(`${key}=${value}`)}`);
+  }
 }
 
 /**
@@ -44,11 +163,11 @@ export async function getAllPrinters(): Promise<Printer[]> {
     console.log(`🔍 getAllPrinters() - Querying system printers...`);
     
     // Get printer names and status
-    const { stdout: printerList } = await execAsync("lpstat -p -d");
+    const { stdout: printerList } = await runCommand("lpstat", ["-p", "-d"]);
     console.log(`📋 lpstat -p -d output:\n${printerList}`);
 
     // Get printer URIs/devices
-    const { stdout: printerDevices } = await execAsync("lpstat -v");
+    const { stdout: printerDevices } = await runCommand("lpstat", ["-v"]);
     console.log(`📋 lpstat -v output:\n${printerDevices}`);
 
     const printers: Printer[] = [];
@@ -129,20 +248,39 @@ export async function getBluetoothPrinters(): Promise<Printer[]> {
 }
 
 /**
- * Check if a printer is accepting jobs (not paused/disabled)
- * @param printerName Name of the printer
- * @returns True if printer is enabled and accepting jobs
+ * Parse `lpstat -p <printer>` output into status flags
+ * @param stdout Output of `lpstat -p <printer>`
  */
-export async function isPrinterEnabled(printerName: string): Promise<boolean> {
-  try {
-    const { stdout } = await execAsync(`lpstat -p "${printerName}"`);
+export function parsePrinterStatus(stdout: string): PrinterStatus {
+  const text = stdout.toLowerCase();
 
-    // Check for disabled/paused states
-    const isDisabled =
-      stdout.toLowerCase().includes("disabled") ||
-      stdout.toLowerCase().includes("paused");
+  return {
+    isPaused: text.includes("disabled") || text.includes("paused"),
+    isOffline:
+      text.includes("offline") ||
+      text.includes("not connected") ||
+      text.includes("unable to connect") ||
+      text.includes("waiting for printer to become available"),
+    isOutOfMedia:
+      text.includes("media-empty") ||
+      text.includes("media empty") ||
+      text.includes("out of paper") ||
+      text.includes("paper out") ||
+      text.includes("out of media") ||
+      text.includes("no media"),
+    message: stdout.trim(),
+  };
+}
 
-    return !isDisabled;
+/**
+ * Get the current status flags for a printer
+ * @param printerName Name of the printer
+ * @returns Parsed status
+ */
+export async function getPrinterStatus(printerName: string): Promise<PrinterStatus> {
+  try {
+    const { stdout } = await runCommand("lpstat", ["-p", validatePrinterName(printerName)]);
+    return parsePrinterStatus(stdout);
   } catch (error) {
     throw new Error(
       `Failed to check printer status: ${
@@ -152,6 +290,16 @@ export async function isPrinterEnabled(printerName: string): Promise<boolean> {
   }
 }
 
+/**
+ * Check if a printer is accepting jobs (not paused/disabled)
+ * @param printerName Name of the printer
+ * @returns True if printer is enabled and accepting jobs
+ */
+export async function isPrinterEnabled(printerName: string): Promise<boolean> {
+  const status = await getPrinterStatus(printerName);
+  return !status.isPaused;
+}
+
 /**
  * Enable/resume a printer that is paused or disabled
  * @param printerName Name of the printer to enable
@@ -159,11 +307,13 @@ export async function isPrinterEnabled(printerName: string): Promise<boolean> {
  */
 export async function enablePrinter(printerName: string): Promise<string> {
   try {
+    validatePrinterName(printerName);
+
     // Enable/resume the printer using cupsenable
-    await execAsync(`cupsenable "${printerName}"`);
+    await runCommand("cupsenable", [printerName]);
 
     // Also accept jobs (in case it was rejecting)
-    await execAsync(`cupsaccept "${printerName}"`);
+    await runCommand("cupsaccept", [printerName]);
 
     return `Printer "${printerName}" has been enabled and is now accepting jobs`;
   } catch (error) {
@@ -215,7 +365,7 @@ export async function checkAndResumePrinter(
  */
 export async function getPrinterInfo(printerName: string): Promise<string> {
   try {
-    const { stdout } = await execAsync(`lpoptions -p "${printerName}" -l`);
+    const { stdout } = await runCommand("lpoptions", ["-p", validatePrinterName(printerName), "-l"]);
     return stdout;
   } catch (error) {
     throw new Error(
@@ -226,6 +376,19 @@ export async function getPrinterInfo(printerName: string): Promise<string> {
   }
 }
 
+/**
+ * Get a typed view of a printer's options, resolutions, color support
+ * and media sizes
+ * @param printerName Name of the printer
+ * @returns Parsed capabilities
+ */
+export async function getPrinterCapabilities(
+  printerName: string
+): Promise<PrinterCapabilities> {
+  const info = await getPrinterInfo(printerName);
+  return parseCapabilities(printerName, info);
+}
+
 /**
  * Check if a file exists and is readable
  * @param filePath Path to the file
@@ -260,25 +423,26 @@ async function validateImageFile(filePath: string): Promise<void> {
 }
 
 /**
- * Build the print command with options
+ * Build the `lp` arguments for a print job
  */
-function buildPrintCommand(
+export function buildPrintArgs(
   printerName: string,
   imagePath: string,
   options: PrintOptions = {}
-): string {
-  const args: string[] = ["lp"];
+): string[] {
+  const args: string[] = [];
 
   // Add printer name
-  args.push("-d", `"${printerName}"`);
+  args.push("-d", validatePrinterName(printerName));
 
   // Add copies
   if (options.copies && options.copies > 1) {
-    args.push("-n", options.copies.toString());
+    args.push("-n", Math.floor(options.copies).toString());
   }
 
   // Add media size
   if (options.media) {
+    validateOption("media", options.media);
     args.push("-o", `media=${options.media}`);
   }
 
@@ -295,14 +459,15 @@ function buildPrintCommand(
   // Add custom CUPS options
   if (options.cupOptions) {
     for (const [key, value] of Object.entries(options.cupOptions)) {
+      validateOption(key, value);
       args.push("-o", `${key}=${value}`);
     }
   }
 
-  // Add the file path
-  args.push(`"${imagePath}"`);
+  // Add the file path ("--" so a path can't be read as a flag)
+  args.push("--", imagePath);
 
-  return args.join(" ");
+  return args;
 }
 
 /**
@@ -327,6 +492,11 @@ export async function printImage(
 
   try {
     // Handle Buffer input by creating a temporary file
+    if (Buffer.isBuffer(imagePathOrBuffer) && options.thermal) {
+      console.log(`🔥 Preprocessing image for thermal printing...`, options.thermal);
+      imagePathOrBuffer = preprocessPng(imagePathOrBuffer, options.thermal);
+    }
+
     if (Buffer.isBuffer(imagePathOrBuffer)) {
       console.log(`📦 Creating temporary file from buffer (${imagePathOrBuffer.length} bytes)...`);
       // Create a temporary file
@@ -365,11 +535,11 @@ export async function printImage(
     console.log(`   Status: ${printer.status}`);
     console.log(`   URI: ${printer.uri}`);
 
-    const command = buildPrintCommand(printerName, imagePath, options);
+    const args = buildPrintArgs(printerName, imagePath, options);
     console.log(`\n🖨️ Executing print command:`);
-    console.log(`   ${command}`);
+    console.log(`   lp ${args.join(" ")}`);
     
-    const { stdout, stderr } = await execAsync(command);
+    const { stdout, stderr } = await runCommand("lp", args);
     
     console.log(`📤 Command output:`);
     if (stdout) console.log(`   stdout: ${stdout.trim()}`);
@@ -471,8 +641,7 @@ export async function printToBluetooth(
  */
 export async function getPrintJobStatus(jobId?: string): Promise<string> {
   try {
-    const command = jobId ? `lpq ${jobId}` : "lpq";
-    const { stdout } = await execAsync(command);
+    const { stdout } = await runCommand("lpq", jobId ? [validateJobId(jobId)] : []);
     return stdout;
   } catch (error) {
     throw new Error(
@@ -483,13 +652,102 @@ export async function getPrintJobStatus(jobId?: string): Promise<string> {
   }
 }
 
+/**
+ * Parse `lpq` output into job records
+ * @param stdout Output of `lpq` / `lpq -P printer`
+ * @returns Jobs in queue order
+ */
+export function parseLpq(stdout: string): QueuedJob[] {
+  const jobs: QueuedJob[] = [];
+
+  // Lines look like: "active  wes     12      print-temp-1.png    123456 bytes"
+  for (const line of stdout.split("\n")) {
+    const match = line.match(/^(active|\d+(?:st|nd|rd|th))\s+(\S+)\s+(\d+)\s+(.+?)\s+(\d+) bytes\s*$/);
+    if (match) {
+      jobs.push({
+        jobId: match[3],
+        owner: match[2],
+        rank: match[1],
+        isActive: match[1] === "active",
+        files: match[4].trim(),
+        sizeBytes: Number(match[5]),
+      });
+    }
+  }
+
+  return jobs;
+}
+
+/**
+ * Parse `lpstat -o` output into job records
+ * @param stdout Output of `lpstat -o`
+ * @returns Jobs as listed
+ */
+export function parseLpstatJobs(stdout: string): QueuedJob[] {
+  const jobs: QueuedJob[] = [];
+
+  // Lines look like: "Canon_XK130-12   wes   123456   Mon 19 Oct 2026 10:00:00"
+  for (const line of stdout.split("\n")) {
+    const match = line.match(/^(\S+)-(\d+)\s+(\S+)\s+(\d+)\s+(.+?)\s*$/);
+    if (match) {
+      jobs.push({
+        jobId: match[2],
+        printerName: match[1],
+        owner: match[3],
+        isActive: false,
+        sizeBytes: Number(match[4]),
+        submittedAt: match[5],
+      });
+    }
+  }
+
+  return jobs;
+}
+
+/**
+ * Get the structured job list for one printer (via `lpq`)
+ * @param printerName Name of the printer
+ * @returns Jobs in queue order, with the active one flagged
+ */
+export async function getPrinterQueue(printerName: string): Promise<QueuedJob[]> {
+  try {
+    const { stdout } = await runCommand("lpq", ["-P", validatePrinterName(printerName)]);
+    return parseLpq(stdout).map((job) => ({ ...job, printerName }));
+  } catch (error) {
+    throw new Error(
+      `Failed to get printer queue: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
+/**
+ * Get all not-yet-completed jobs on every printer (via `lpstat -o`)
+ * @returns Pending jobs
+ */
+export async function getPendingJobs(): Promise<QueuedJob[]> {
+  try {
+    const { stdout } = await runCommand("lpstat", ["-o"]);
+    return parseLpstatJobs(stdout);
+  } catch (error) {
+    throw new Error(
+      `Failed to get pending jobs: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+}
+
 /**
  * Cancel a print job
  * @param jobId Job ID to cancel, or printer name to cancel all jobs
  */
 export async function cancelPrintJob(jobId: string): Promise<void> {
   try {
-    await execAsync(`cancel ${jobId}`);
+    // A bare printer name cancels every job on that printer
+    const target = /^(?:.+-)?\d+$/.test(jobId) ? validateJobId(jobId) : validatePrinterName(jobId);
+    await runCommand("cancel", [target]);
   } catch (error) {
     throw new Error(
       `Failed to cancel job: ${
@@ -509,14 +767,7 @@ export async function getAvailableMediaSizes(
 ): Promise<string[]> {
   try {
     const info = await getPrinterInfo(printerName);
-    const mediaMatch = info.match(/PageSize\/Media Size: (.+)/);
-
-    if (mediaMatch) {
-      const sizes = mediaMatch[1].split(" ");
-      return sizes.filter((s) => s && s !== "*");
-    }
-
-    return [];
+    return parsePrinterOptions(info)["PageSize"]?.values ?? [];
   } catch (error) {
     throw new Error(
       `Failed to get media sizes: ${
@@ -527,7 +778,7 @@ export async function getAvailableMediaSizes(
 }
 
 /**
- * Watch for paused printers and automatically resume them
+ * Watch printers, automatically resume paused ones and report changes
  * Runs in a loop checking every second
  * @param options Options for the watcher
  * @returns Stop function to stop the watcher
@@ -535,47 +786,157 @@ export async function getAvailableMediaSizes(
 export function watchAndResumePrinters(options: {
   interval?: number;
   printerNames?: string[];
+  /** Also watch USB/Bluetooth printers, which jobs fall back to when `printerNames` are missing */
+  fallbackToUSB?: boolean;
+  /** Resume paused printers (default: true) */
+  autoResume?: boolean;
+  /** A job pending longer than this (ms) is reported as stuck (default: 2 minutes) */
+  stuckJobAfter?: number;
   onResume?: (printerName: string) => void;
+  onEvent?: (event: PrinterEvent) => void;
   onError?: (error: Error) => void;
 } = {}): () => void {
   const {
     interval = 1000,
     printerNames,
+    fallbackToUSB = false,
+    autoResume = true,
+    stuckJobAfter = 2 * 60 * 1000,
     onResume,
+    onEvent,
     onError,
   } = options;
 
   let isRunning = true;
 
+  // Last known state of each printer, and when each pending job was first seen
+  const states = new Map<string, PrinterState>();
+  const jobFirstSeen = new Map<string, number>();
+
+  const emit = (type: PrinterEventType, state: PrinterState, message: string, jobId?: string) => {
+    console.log(`📣 Printer "${state.printerName}": ${message}`);
+    onEvent?.({
+      type,
+      printerName: state.printerName,
+      message,
+      jobId,
+      state: { ...state },
+      timestamp: new Date().toISOString(),
+    });
+  };
+
   const check = async () => {
     if (!isRunning) return;
 
     try {
       // Get printers to check
       let printersToCheck: Printer[];
+      const allPrinters = await getAllPrinters();
 
       if (printerNames && printerNames.length > 0) {
-        // Check specific printers
-        const allPrinters = await getAllPrinters();
-        printersToCheck = allPrinters.filter(p => printerNames.includes(p.name));
+        // Check specific printers, plus the USB/Bluetooth ones jobs may fall back to
+        printersToCheck = allPrinters.filter(p =>
+          printerNames.includes(p.name) || (fallbackToUSB && (p.isUSB || p.isBluetooth))
+        );
         console.log(`👀 Watching ${printersToCheck.length} specific printer(s): ${printersToCheck.map(p => p.name).join(', ')}`);
       } else {
         // Check all USB and Bluetooth printers by default
-        const allPrinters = await getAllPrinters();
         printersToCheck = allPrinters.filter(p => p.isUSB || p.isBluetooth);
         console.log(`👀 Watching ${printersToCheck.length} USB/Bluetooth printer(s): ${printersToCheck.map(p => p.name).join(', ')}`);
       }
 
+      // Printers we expected but CUPS no longer lists are offline. A configured
+      // printer that isn't installed doesn't count while there is a fallback printer
+      const expected = fallbackToUSB && printersToCheck.length > 0 ? [] : printerNames ?? [];
+      const missing = [...expected, ...states.keys()].filter(
+        (name) => !printersToCheck.some((p) => p.name === name)
+      );
+      for (const printerName of new Set(missing)) {
+        const previous = states.get(printerName);
+        if (previous && !previous.online) continue;
+        const state: PrinterState = {
+          printerName,
+          online: false,
+          paused: false,
+          outOfMedia: false,
+          updatedAt: new Date().toISOString(),
+        };
+        states.set(printerName, state);
+        emit("offline", state, "is not connected");
+      }
+
+      const pendingJobs = onEvent ? await getPendingJobs() : [];
+
       // Check each printer
       for (const printer of printersToCheck) {
-        const isEnabled = await isPrinterEnabled(printer.name);
+        const status = await getPrinterStatus(printer.name);
+        const previous = states.get(printer.name);
+        const state: PrinterState = {
+          printerName: printer.name,
+          online: !status.isOffline,
+          paused: status.isPaused,
+          outOfMedia: status.isOutOfMedia,
+          stuckJobId: previous?.stuckJobId,
+          updatedAt: new Date().toISOString(),
+        };
+        states.set(printer.name, state);
+
+        if (!previous || previous.online !== state.online) {
+          emit(state.online ? "online" : "offline", state, state.online ? "is online" : "is offline");
+        }
+        if (state.outOfMedia && !previous?.outOfMedia) {
+          emit("out-of-media", state, "is out of paper");
+        }
 
-        if (!isEnabled) {
-          console.log(`⚠️ Printer "${printer.name}" is paused/disabled, attempting to resume...`);
-          await enablePrinter(printer.name);
-          if (onResume) {
-            onResume(printer.name);
+        if (state.paused) {
+          if (!previous?.paused) {
+            emit("paused", state, "is paused");
           }
+          if (autoResume) {
+            console.log(`⚠️ Printer "${printer.name}" is paused/disabled, attempting to resume...`);
+            try {
+              await enablePrinter(printer.name);
+              // cupsenable can succeed while the printer stays paused, so look again
+              const resumed = await getPrinterStatus(printer.name);
+              if (resumed.isPaused) {
+                console.warn(`⚠️ Printer "${printer.name}" is still paused, will retry`);
+              } else {
+                state.paused = false;
+                emit("resumed", state, "was resumed automatically");
+                if (onResume) {
+                  onResume(printer.name);
+                }
+              }
+            } catch (error) {
+              // One printer failing to resume mustn't stop the checks on the others
+              if (onError) {
+                onError(error instanceof Error ? error : new Error(String(error)));
+              }
+            }
+          }
+        } else if (previous?.paused) {
+          emit("resumed", state, "was resumed");
+        }
+
+        // Report each job that sits in the queue too long, once
+        const jobs = pendingJobs.filter((job) => job.printerName === printer.name);
+        const stuck = jobs.find((job) => {
+          const key = `${printer.name}-${job.jobId}`;
+          if (!jobFirstSeen.has(key)) jobFirstSeen.set(key, Date.now());
+          return Date.now() - jobFirstSeen.get(key)! > stuckJobAfter;
+        });
+        if (stuck && stuck.jobId !== state.stuckJobId) {
+          state.stuckJobId = stuck.jobId;
+          emit("job-stuck", state, `job ${stuck.jobId} has not printed`, stuck.jobId);
+        } else if (!stuck) {
+          state.stuckJobId = undefined;
+        }
+      }
+
+      // Forget jobs that have left the queue
+      for (const key of jobFirstSeen.keys()) {
+        if (!pendingJobs.some((job) => `${job.printerName}-${job.jobId}` === key)) {
+          jobFirstSeen.delete(key);
         }
       }
     } catch (error) {
@@ -0,0 +1,120 @@
+import { AppError, classifyError, toAppError, type ErrorCode } from "./errors.ts";
+
+/**
+ * Timeout and retry settings for one stage of the pipeline
+ */
+export interface CallOptions {
+  /** Give up on a single attempt after this many ms (default: 60000) */
+  timeoutMs?: number;
+  /** Extra attempts after a transient or rate-limit error (default: 2) */
+  retries?: number;
+  /** Delay before the first retry in ms, doubled on each retry (default: 1000) */
+  baseDelayMs?: number;
+  /** Longest delay between retries in ms (default: 15000) */
+  maxDelayMs?: number;
+}
+
+/**
+ * Error codes a stage reports when it times out or fails
+ */
+export interface StageCodes {
+  timeout: ErrorCode;
+  failed: ErrorCode;
+}
+
+export const TRANSCRIPTION_CODES: StageCodes = { timeout: "TRANSCRIPTION_TIMEOUT", failed: "TRANSCRIPTION_FAILED" };
+export const GENERATION_CODES: StageCodes = { timeout: "GENERATION_TIMEOUT", failed: "GENERATION_FAILED" };
+
+/**
+ * Run a call with a timeout on each attempt, retrying transient failures
+ * and rate limits with exponential backoff. Timeouts, quota errors and
+ * anything else are not retried.
+ * @param stage What is being done, for logs and messages (e.g. "transcription")
+ * @param call The call; its signal aborts when an attempt times out
+ * @param options Timeout and retry settings
+ * @param codes Error codes to throw for this stage
+ * @returns The call's result
+ * @throws AppError with the stage's codes, QUOTA_EXCEEDED or RATE_LIMITED
+ */
+export async function resilientCall<T>(
+  stage: string,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: CallOptions,
+  codes: StageCodes
+): Promise<T> {
+  const { timeoutMs = 60000, retries = 2, baseDelayMs = 1000, maxDelayMs = 15000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await withTimeout(call, timeoutMs, () => new AppError(codes.timeout, `${stage} timed out after ${timeoutMs}ms`));
+    } catch (error) {
+      const kind = classifyError(error);
+      if (kind === "timeout") {
+        throw error instanceof AppError ? error : new AppError(codes.timeout, `${stage} timed out`, { cause: error });
+      }
+      if ((kind !== "transient" && kind !== "rate-limit") || attempt >= retries) {
+        throw toAppError(error, codes.failed);
+      }
+
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️ ${stage} failed (${kind}), retrying in ${delay}ms: ${message}`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Run a call, aborting it and rejecting once the time is up (even if the
+ * call ignores its signal)
+ */
+async function withTimeout<T>(
+  call: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  onTimeout: () => Error
+): Promise<T> {
+  const controller = new AbortController();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = onTimeout();
+      controller.abort(error);
+      reject(error);
+    }, timeoutMs);
+  });
+
+  try {
+    return await Promise.race([call(controller.signal), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Read a stage's settings from the environment, e.g. for `GENERATION`:
+ * - `GENERATION_TIMEOUT_MS`: time limit for one attempt
+ * - `GENERATION_RETRIES`: extra attempts after transient errors
+ * @param stage Variable prefix
+ * @param defaults Settings used when a variable is not set
+ */
+export function callOptionsFromEnv(
+  stage: string,
+  defaults: CallOptions = {},
+  env: NodeJS.ProcessEnv = process.env
+): CallOptions {
+  const read = (name: string): number | undefined => {
+    const value = env[`${stage}_${name}`];
+    if (value === undefined || value === "") return undefined;
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 0) {
+      throw new Error(`Invalid ${stage}_${name}: ${value}`);
+    }
+    return number;
+  };
+
+  return {
+    ...defaults,
+    timeoutMs: read("TIMEOUT_MS") ?? defaults.timeoutMs,
+    retries: read("RETRIES") ?? defaults.retries,
+  };
+}
@@ -0,0 +1,204 @@
+import { getAllPrinters, isPrinterEnabled, type Printer } from "./print.ts";
+
+/**
+ * Send jobs matching `media` and/or `size` to a specific set of printers
+ */
+export interface RoutingRule {
+  /** Media name the job asks for (e.g. `4x6`) */
+  media?: string;
+  /** Sticker size the job asks for (e.g. `small`) */
+  size?: string;
+  /** Printers to use for matching jobs, in order of preference */
+  printers: string[];
+}
+
+/**
+ * How jobs are spread across printers
+ */
+export interface RoutingConfig {
+  /** Printers in order of preference */
+  printers: string[];
+  /** `ordered` always tries the first healthy printer; `round-robin` takes turns */
+  strategy?: "ordered" | "round-robin";
+  /** Rules checked in order before falling back to `printers` */
+  rules?: RoutingRule[];
+  /** Use any USB printer when none of the configured ones are available (default: true) */
+  fallbackToUSB?: boolean;
+}
+
+/**
+ * What a job is asking for
+ */
+export interface RouteRequest {
+  media?: string;
+  size?: string;
+  /** Printer picked earlier, kept if it is still healthy */
+  preferred?: string;
+  /** Only look: don't take a round-robin turn (e.g. for a preview) */
+  peek?: boolean;
+}
+
+/**
+ * Which printer got the job, and why
+ */
+export interface RouteDecision {
+  printerName: string;
+  reason: string;
+  /** Printers passed over, with the reason for each */
+  skipped: { printerName: string; reason: string }[];
+}
+
+/**
+ * Picks a printer for each job, skipping printers that are missing,
+ * offline or paused
+ */
+export class PrinterRouter {
+  private nextIndex = new Map<string, number>();
+
+  constructor(private config: RoutingConfig) {}
+
+  /**
+   * All printers the router may send jobs to
+   */
+  get printerNames(): string[] {
+    const names = [...this.config.printers];
+    for (const rule of this.config.rules ?? []) {
+      names.push(...rule.printers);
+    }
+    return [...new Set(names)];
+  }
+
+  /**
+   * Whether jobs may go to a USB printer when no configured one is available
+   */
+  get fallbackToUSB(): boolean {
+    return this.config.fallbackToUSB ?? true;
+  }
+
+  /**
+   * Choose a printer for a job
+   * @param request Media/size the job needs
+   * @returns The chosen printer and the reason
+   */
+  async route(request: RouteRequest = {}): Promise<RouteDecision> {
+    const rule = (this.config.rules ?? []).find(
+      (r) =>
+        (r.media || r.size) &&
+        (!r.media || r.media === request.media) &&
+        (!r.size || r.size === request.size)
+    );
+    const ruleDescription = rule
+      ? `rule ${[rule.media && `media=${rule.media}`, rule.size && `size=${rule.size}`].filter(Boolean).join(", ")}`
+      : "default printers";
+    let candidates = rule ? rule.printers : this.config.printers;
+
+    // Round robin: rotate the list so the next printer in turn goes first
+    if (this.config.strategy === "round-robin" && candidates.length > 1) {
+      const key = candidates.join("\u0000");
+      const start = this.nextIndex.get(key) ?? 0;
+      candidates = [...candidates.slice(start), ...candidates.slice(0, start)];
+      if (!request.preferred && !request.peek) {
+        this.nextIndex.set(key, (start + 1) % candidates.length);
+      }
+    }
+
+    if (request.preferred && candidates.includes(request.preferred)) {
+      candidates = [request.preferred, ...candidates.filter((name) => name !== request.preferred)];
+    }
+
+    const printers = await getAllPrinters();
+    const skipped: RouteDecision["skipped"] = [];
+
+    for (const [index, printerName] of candidates.entries()) {
+      const problem = await this.checkPrinter(printers.find((p) => p.name === printerName));
+      if (problem) {
+        skipped.push({ printerName, reason: problem });
+        continue;
+      }
+
+      let reason: string;
+      if (printerName === request.preferred) {
+        reason = `previously routed to ${printerName}`;
+      } else if (this.config.strategy === "round-robin" && candidates.length > 1) {
+        reason = `round-robin turn (${ruleDescription})`;
+      } else {
+        reason = index === 0 ? `first choice (${ruleDescription})` : `choice ${index + 1} (${ruleDescription})`;
+      }
+      if (skipped.length > 0) {
+        reason += `; skipped ${skipped.map((s) => `${s.printerName}: ${s.reason}`).join(", ")}`;
+      }
+
+      return { printerName, reason, skipped };
+    }
+
+    if (this.config.fallbackToUSB ?? true) {
+      for (const printer of printers.filter((p) => p.isUSB && !candidates.includes(p.name))) {
+        if (!(await this.checkPrinter(printer))) {
+          return {
+            printerName: printer.name,
+            reason: `USB fallback; skipped ${skipped.map((s) => `${s.printerName}: ${s.reason}`).join(", ")}`,
+            skipped,
+          };
+        }
+      }
+    }
+
+    throw new Error(
+      `No available printer: ${skipped.map((s) => `${s.printerName}: ${s.reason}`).join(", ") || "none configured"}`
+    );
+  }
+
+  /**
+   * @returns Why the printer can't take a job, or null if it can
+   */
+  private async checkPrinter(printer: Printer | undefined): Promise<string | null> {
+    if (!printer) return "not installed";
+
+    const status = printer.status.toLowerCase();
+    if (status.includes("offline") || status.includes("not connected") || status.includes("unable to")) {
+      return "offline";
+    }
+
+    try {
+      if (!(await isPrinterEnabled(printer.name))) return "paused";
+    } catch (error) {
+      return `status check failed (${error instanceof Error ? error.message : String(error)})`;
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Read routing settings from the environment:
+ * - `PRINTER_NAMES`: comma separated printers in order of preference (default: `PRINTER_NAME`)
+ * - `PRINTER_STRATEGY`: `ordered` (default) or `round-robin`
+ * - `PRINTER_ROUTES`: JSON rules, e.g. `[{"media":"4x6","printers":["Zebra"]}]`
+ * @param printerName Fallback printer when `PRINTER_NAMES` is not set
+ */
+export function routingConfigFromEnv(
+  printerName: string,
+  env: NodeJS.ProcessEnv = process.env
+): RoutingConfig {
+  const printers = env["PRINTER_NAMES"]
+    ? env["PRINTER_NAMES"].split(",").map((name) => name.trim()).filter((name) => name)
+    : [printerName];
+
+  const strategy = env["PRINTER_STRATEGY"] || "ordered";
+  if (strategy !== "ordered" && strategy !== "round-robin") {
+    throw new Error(`Unknown PRINTER_STRATEGY: ${strategy}`);
+  }
+
+  let rules: RoutingRule[] = [];
+  if (env["PRINTER_ROUTES"]) {
+    try {
+      rules = JSON.parse(env["PRINTER_ROUTES"]);
+    } catch (error) {
+      throw new Error(
+        `Invalid PRINTER_ROUTES: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  return { printers, strategy, rules };
+}
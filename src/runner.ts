@@ -0,0 +1,85 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Output of a finished command
+ */
+export interface CommandResult {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * Runs a program with an argument array. Arguments are passed straight to
+ * the program and never through a shell, so they need no quoting.
+ */
+export type CommandRunner = (file: string, args: string[]) => Promise<CommandResult>;
+
+/**
+ * Run commands with `execFile` (the default)
+ */
+export const execFileRunner: CommandRunner = async (file, args) => {
+  const { stdout, stderr } = await execFileAsync(file, args);
+  return { stdout, stderr };
+};
+
+let currentRunner: CommandRunner = execFileRunner;
+
+/**
+ * Replace the runner used for every CUPS command (e.g. with a fake CUPS)
+ * @param runner New runner, or undefined to restore `execFile`
+ * @returns The previous runner
+ */
+export function setCommandRunner(runner?: CommandRunner): CommandRunner {
+  const previous = currentRunner;
+  currentRunner = runner ?? execFileRunner;
+  return previous;
+}
+
+/**
+ * Run a command through the current runner
+ */
+export function runCommand(file: string, args: string[] = []): Promise<CommandResult> {
+  return currentRunner(file, args);
+}
+
+/**
+ * A scripted reply: stdout text, a full result, an error to throw,
+ * or a function computing one of those from the arguments
+ */
+export type ScriptedResponse =
+  | string
+  | CommandResult
+  | Error
+  | ((args: string[]) => string | CommandResult | Promise<string | CommandResult>);
+
+/**
+ * Create a runner that answers from a script instead of running anything.
+ * Keys are either the full command line (`lpstat -p -d`) or just the
+ * program (`lpstat`); the full command line wins. Every call is recorded.
+ * @param script Replies keyed by command
+ */
+export function createScriptedRunner(
+  script: Record<string, ScriptedResponse>
+): CommandRunner & { calls: string[][] } {
+  const calls: string[][] = [];
+
+  const runner = async (file: string, args: string[]): Promise<CommandResult> => {
+    calls.push([file, ...args]);
+    const response = script[[file, ...args].join(" ")] ?? script[file];
+
+    if (response === undefined) {
+      throw new Error(`Command not found: ${file}`);
+    }
+    if (response instanceof Error) {
+      throw response;
+    }
+
+    const result = typeof response === "function" ? await response(args) : response;
+    return typeof result === "string" ? { stdout: result, stderr: "" } : result;
+  };
+
+  return Object.assign(runner, { calls });
+}
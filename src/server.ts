@@ -1,12 +1,32 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { serve } from '@hono/node-server';
 import { cors } from 'hono/cors';
-import { GoogleGenAI } from "@google/genai";
+import { bodyLimit } from 'hono/body-limit';
+import { streamSSE, type SSEStreamingApi } from 'hono/streaming';
 import OpenAI from 'openai';
-import { printToUSB, printImage, getAllPrinters, watchAndResumePrinters } from './print.ts';
-import fs from 'fs';
-import path from 'path';
-import os from 'os';
+import { getAllPrinters, getPrinterCapabilities, watchAndResumePrinters, type PrinterEvent, type PrinterState } from './print.ts';
+import { createPrinterBackend, CupsBackend, type RenderedImage } from './backend.ts';
+import { thermalProfilesFromEnv } from './thermal.ts';
+import { JobQueue, type PrintJob } from './jobs.ts';
+import { layoutSheet, validateSheetGrid, type SheetGrid } from './layout.ts';
+import { createImageGenerator, type GeneratedImage, type ImageRequest } from './images.ts';
+import { moderationConfigFromEnv, PromptModerator, type ModerationVerdict } from './moderation.ts';
+import { createPromptEnhancer } from './enhance.ts';
+import { cacheKey, createImageCache } from './cache.ts';
+import { StickerStore, type Sticker } from './stickers.ts';
+import { isValidTimeZone, OVERLAY_PLACEMENTS, renderOverlay, type OverlayStyle } from './overlay.ts';
+import { FONT_NAMES } from './font.ts';
+import { AppError, errorResponse, toAppError, type ErrorCode } from './errors.ts';
+import { callOptionsFromEnv, resilientCall, TRANSCRIPTION_CODES } from './resilience.ts';
+import { createTranscriber } from './transcribe.ts';
+import { AudioIntake, audioLimitsFromEnv, hasFfmpeg } from './audio.ts';
+import { voiceGrammarsFromEnv } from './voice.ts';
+import { createTranslator } from './translate.ts';
+import { LANGUAGE_CODES } from './language.ts';
+import { buildStylePrompt, DEFAULT_STYLE, getStyle, STYLE_PRESETS, type StylePreset } from './styles.ts';
+import type { RouteDecision } from './routing.ts';
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
 
 const app = new Hono();
 const PORT = 3000;
@@ -19,76 +39,414 @@ const PRINTER_NAME = process.env["PRINTER_NAME"] || "Canon XK130 series 3";
 
 console.log(`📋 Configured printer: "${PRINTER_NAME}"`);
 
+// Resize/dither settings for thermal printers (THERMAL_* and THERMAL_PRINTERS env vars)
+const THERMAL_PROFILES = thermalProfilesFromEnv();
+if (THERMAL_PROFILES.defaults) {
+  console.log(`🔥 Thermal preprocessing:`, THERMAL_PROFILES.defaults);
+}
+for (const [printer, options] of Object.entries(THERMAL_PROFILES.printers)) {
+  console.log(`🔥 Thermal preprocessing for "${printer}":`, options);
+}
+
+// CUPS by default, or raw ESC/POS when PRINTER_BACKEND=escpos
+const printerBackend = createPrinterBackend(PRINTER_NAME, process.env, THERMAL_PROFILES);
+console.log(`🔌 Printer backend: ${printerBackend.type}`);
+
+// Preview mode: generate and preprocess, but never print
+const PREVIEW_MODE = process.env["PRINT_PREVIEW"] === "1";
+if (PREVIEW_MODE) {
+  console.log(`👁️ Preview mode: nothing will be printed`);
+}
+
+// Persistent print queue: retries failed prints and tracks CUPS jobs
+const printQueue = new JobQueue(printerBackend, {
+  maxAttempts: Number(process.env["PRINT_MAX_ATTEMPTS"]) || 3,
+});
+printQueue.start().catch(err => {
+  console.error(`⚠️ Could not start print queue:`, err.message);
+});
+
+// Every sticker made, with its prompt and printer, in output/stickers
+const stickerStore = new StickerStore();
+
+// Candidates left from choices nobody finished are deleted after a day,
+// checked at startup and then every hour
+const CANDIDATE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+const CANDIDATE_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+function pruneCandidates(): void {
+  stickerStore.pruneCandidates(CANDIDATE_MAX_AGE_MS).then((count) => {
+    if (count > 0) console.log(`🧹 Deleted ${count} candidate(s) that were never picked`);
+  }).catch(err => {
+    console.warn(`⚠️ Could not prune candidates:`, err.message);
+  });
+}
+pruneCandidates();
+setInterval(pruneCandidates, CANDIDATE_PRUNE_INTERVAL_MS).unref();
+
+// Printer changes from the watcher, streamed to clients over SSE
+const printerEvents = new EventEmitter();
+printerEvents.setMaxListeners(0);
+const printerStates = new Map<string, PrinterState>();
+
 // Start watching and resuming printers
-// If a specific printer is configured, watch that one, otherwise watch all USB printers
-console.log(`👀 Starting printer watcher for: ${PRINTER_NAME ? `"${PRINTER_NAME}"` : 'all USB/Bluetooth printers'}`);
-watchAndResumePrinters({
-  interval: 30000, // Check every 30 seconds instead of 1 second
-  printerNames: PRINTER_NAME ? [PRINTER_NAME] : undefined,
-  onResume: (printerName) => {
-    console.log(`✅ Resumed printer: ${printerName}`);
-  },
-  onError: (error) => {
-    console.warn(`⚠️ Printer watcher error:`, error.message);
-  }
+// Only CUPS queues can be watched; other backends write straight to their device
+if (printerBackend instanceof CupsBackend) {
+  console.log(`👀 Starting printer watcher for: ${printerBackend.printerNames.map((name) => `"${name}"`).join(', ')}${printerBackend.fallbackToUSB ? ' and USB/Bluetooth printers' : ''}`);
+  watchAndResumePrinters({
+    interval: 30000, // Check every 30 seconds instead of 1 second
+    printerNames: printerBackend.printerNames,
+    fallbackToUSB: printerBackend.fallbackToUSB,
+    onResume: (printerName) => {
+      console.log(`✅ Resumed printer: ${printerName}`);
+    },
+    onEvent: (event) => {
+      printerStates.set(event.printerName, event.state);
+      printerEvents.emit('event', event);
+    },
+    onError: (error) => {
+      console.warn(`⚠️ Printer watcher error:`, error.message);
+    }
+  });
+} else {
+  // No status to watch, so report the printer as ready
+  printerStates.set(printerBackend.type, {
+    printerName: printerBackend.type,
+    online: true,
+    paused: false,
+    outOfMedia: false,
+    updatedAt: new Date().toISOString(),
+  });
+}
+
+// Initialize OpenAI (the key may be missing when everything runs locally).
+// Each stage retries through resilientCall, so the client itself doesn't.
+const openai = new OpenAI({
+  apiKey: process.env["OPENAI_API_KEY"] || 'unset',
+  maxRetries: 0,
 });
 
-// Initialize Google AI
-const ai = new GoogleGenAI({
-  apiKey: process.env["GEMINI_API_KEY"],
+// Speech to text: OpenAI or local Whisper (TRANSCRIBER, LOCAL_WHISPER_MODEL)
+const transcriber = createTranscriber(openai);
+console.log(`🎤 Transcriber: ${transcriber.type}`);
+transcriber.prepare?.().catch((error) => {
+  console.warn(`⚠️ Could not prepare transcriber, will retry on first request:`, error instanceof Error ? error.message : error);
 });
 
-// Initialize OpenAI
-const openai = new OpenAI({
-  apiKey: process.env["OPENAI_API_KEY"],
+// Checks on uploaded recordings (AUDIO_MAX_BYTES, AUDIO_MAX_SECONDS, AUDIO_SILENCE_DB)
+const audioIntake = new AudioIntake(audioLimitsFromEnv());
+console.log(`🔊 Recordings: up to ${audioIntake.limits.maxSeconds}s and ${Math.round(audioIntake.limits.maxBytes / 1024 / 1024)} MB`);
+
+// Browsers record WebM or MP4, which only ffmpeg decodes (FFMPEG_PATH)
+hasFfmpeg(audioIntake.limits.ffmpegPath).then((found) => {
+  if (found) return;
+  console.warn(
+    transcriber.type === 'local'
+      ? `⚠️ ffmpeg not found: local Whisper only reads WAV, so browser recordings will fail. Install ffmpeg or set FFMPEG_PATH`
+      : `⚠️ ffmpeg not found: recordings are checked from their headers only, so silence isn't caught. Install ffmpeg or set FFMPEG_PATH`
+  );
 });
 
+// Time limit and retries for transcription (TRANSCRIPTION_TIMEOUT_MS, TRANSCRIPTION_RETRIES)
+const TRANSCRIPTION_OPTIONS = callOptionsFromEnv('TRANSCRIPTION', { timeoutMs: 30000, retries: 2 });
+
+// Language the kids speak, or auto to detect it per recording (TRANSCRIPTION_LANGUAGE)
+const TRANSCRIPTION_LANGUAGE = process.env['TRANSCRIPTION_LANGUAGE'] || 'auto';
+if (TRANSCRIPTION_LANGUAGE !== 'auto' && !LANGUAGE_CODES.includes(TRANSCRIPTION_LANGUAGE)) {
+  throw new Error(`Invalid TRANSCRIPTION_LANGUAGE: ${TRANSCRIPTION_LANGUAGE} (use auto or one of ${LANGUAGE_CODES.join(', ')})`);
+}
+console.log(`🌐 Transcription language: ${TRANSCRIPTION_LANGUAGE}`);
+
+// Spoken commands like "cancel", "print two of them" or "make it a mandala",
+// in the transcript's language (VOICE_LANGUAGE, VOICE_PHRASES_FILE)
+const voiceGrammars = voiceGrammarsFromEnv();
+
+// Non-English prompts are translated for the image model (TRANSLATOR, TRANSLATOR_MODEL)
+const translator = createTranslator(openai);
+console.log(`🌐 Translator: ${translator?.type ?? 'off'}`);
+if (TRANSCRIPTION_LANGUAGE !== 'auto' && TRANSCRIPTION_LANGUAGE !== 'en') {
+  translator?.prepare?.(TRANSCRIPTION_LANGUAGE).catch((error) => {
+    console.warn(`⚠️ Could not prepare translator, will retry on first request:`, error instanceof Error ? error.message : error);
+  });
+}
+
+// Kid-safe moderation of every prompt, before anything is generated
+const moderator = new PromptModerator(moderationConfigFromEnv(openai));
+console.log(`🛡️ Moderation: word lists${moderator.hasClassifier ? ' + LLM classifier' : ''}`);
+
+// Optional rewrite of what was said into a clear description (PROMPT_ENHANCER)
+const promptEnhancer = createPromptEnhancer(openai);
+console.log(`✏️ Prompt enhancer: ${promptEnhancer?.type ?? 'off'}`);
+
+// Image providers (IMAGE_PROVIDER, IMAGE_MODEL, IMAGE_FALLBACK_PROVIDER)
+const imageGenerator = createImageGenerator();
+console.log(`🖼️ Image provider: ${imageGenerator.defaultProvider}${imageGenerator.fallbackProvider ? ` (fallback: ${imageGenerator.fallbackProvider})` : ''}`);
+
+// Style used when a request doesn't pick one (STICKER_STYLE)
+const DEFAULT_STYLE_ID = process.env["STICKER_STYLE"] || DEFAULT_STYLE;
+if (!getStyle(DEFAULT_STYLE_ID)) {
+  throw new Error(`Unknown STICKER_STYLE: ${DEFAULT_STYLE_ID}`);
+}
+
+// Time zone the date on name tags is written in (OVERLAY_TIME_ZONE)
+const OVERLAY_TIME_ZONE = process.env["OVERLAY_TIME_ZONE"] || 'UTC';
+if (!isValidTimeZone(OVERLAY_TIME_ZONE)) {
+  throw new Error(`Invalid OVERLAY_TIME_ZONE: ${OVERLAY_TIME_ZONE}`);
+}
+
+// Generated images by prompt/style/model (IMAGE_CACHE, IMAGE_CACHE_MAX_MB, IMAGE_CACHE_MAX_AGE_DAYS)
+const imageCache = createImageCache();
+console.log(`🗃️ Image cache: ${imageCache ? 'on' : 'off'}`);
+
+// Choose mode: make a few candidates and print only the one picked (CHOOSE_MODE, CHOOSE_CANDIDATES)
+const CHOOSE_MODE = process.env["CHOOSE_MODE"] === "1";
+const MIN_CANDIDATES = 2;
+const MAX_CANDIDATES = 4;
+const CHOOSE_CANDIDATES = Number(process.env["CHOOSE_CANDIDATES"] || 3);
+if (!Number.isInteger(CHOOSE_CANDIDATES) || CHOOSE_CANDIDATES < MIN_CANDIDATES || CHOOSE_CANDIDATES > MAX_CANDIDATES) {
+  throw new Error(`Invalid CHOOSE_CANDIDATES: ${process.env["CHOOSE_CANDIDATES"]} (must be ${MIN_CANDIDATES}-${MAX_CANDIDATES})`);
+}
+if (CHOOSE_MODE) {
+  console.log(`🤔 Choose mode: ${CHOOSE_CANDIDATES} candidates per sticker`);
+}
+
+/**
+ * How a request may use the image cache
+ */
+interface CacheChoice {
+  /** Always generate a new image (it still replaces the cached one) */
+  fresh?: boolean;
+  /** Only reuse images generated within this many days */
+  maxAgeDays?: number;
+}
+
 /**
- * Generate an image using Imagen AI
+ * Generate an image in a style with the chosen (or default) image provider,
+ * reusing a cached image for the same prompt, style and model when allowed.
+ * Requests for several candidates always generate new images.
  */
+async function generateImage(
+  prompt: string,
+  style: StylePreset,
+  request: ImageRequest = {},
+  cacheChoice: CacheChoice = {}
+): Promise<GeneratedImage & { cache: 'HIT' | 'MISS' | 'BYPASS' | 'OFF' }> {
+  const { provider, model } = imageGenerator.resolve(request);
+  const aspectRatio = request.aspectRatio ?? style.aspectRatio;
+  const key = cacheKey({ prompt, style: style.id, provider, model, aspectRatio });
+  // Candidates are meant to differ, so they skip the cache
+  const isCandidates = (request.count ?? 1) > 1;
 
-const imageGen4 = "imagen-4.0-generate-001";
-const imageGen3 = "imagen-3.0-generate-002";
-const imageGen4Fast = "imagen-4.0-fast-generate-001";
-const imageGen4Ultra = "imagen-4.0-ultra-generate-001";
+  if (imageCache && !cacheChoice.fresh && !isCandidates) {
+    const cached = await imageCache.get(key, cacheChoice.maxAgeDays);
+    if (cached) {
+      console.log(`🗃️ Cache hit for "${prompt}" (${cached.entry.hits} hits)`);
+      return {
+        images: [cached.image],
+        provider: cached.entry.provider,
+        model: cached.entry.model,
+        failures: [],
+        cache: 'HIT',
+      };
+    }
+  }
 
-async function generateImage(prompt: string): Promise<Buffer | null> {
-  console.log(`🎨 Generating image: "${prompt}"`);
+  console.log(`🎨 Generating ${isCandidates ? `${request.count} ${style.id} candidates` : `${style.id} image`}: "${prompt}"`);
   console.time('generation');
 
-  const response = await ai.models.generateImages({
-    model: imageGen4,
-    prompt: `A black and white kids coloring page.
-    <image-description>
-    ${prompt}
-    </image-description>
-    ${prompt}`,
-    config: {
-      numberOfImages: 1,
-      aspectRatio: "9:16"
-    },
-  });
+  let generated: GeneratedImage;
+  try {
+    generated = await imageGenerator.generate(buildStylePrompt(style, prompt), {
+      ...request,
+      aspectRatio,
+    });
+  } finally {
+    console.timeEnd('generation');
+  }
 
-  console.timeEnd('generation');
+  if (!imageCache) {
+    return { ...generated, cache: 'OFF' };
+  }
+  if (isCandidates) {
+    return { ...generated, cache: 'BYPASS' };
+  }
+  try {
+    // A fallback's image is filed under the provider that made it, so asking
+    // the primary again later still tries the primary
+    const madeBy = { provider: generated.provider, model: generated.model };
+    await imageCache.set(cacheKey({ prompt, style: style.id, ...madeBy, aspectRatio }), generated.images[0], {
+      prompt,
+      ...madeBy,
+    });
+  } catch (cacheError) {
+    console.warn(`⚠️ Could not cache image: ${cacheError instanceof Error ? cacheError.message : String(cacheError)}`);
+  }
+  return { ...generated, cache: cacheChoice.fresh ? 'BYPASS' : 'MISS' };
+}
 
-  if (!response.generatedImages || response.generatedImages.length === 0) {
-    console.error('No images generated');
-    return null;
+/**
+ * Send an error in the shared JSON shape: `{ error, code, retryable }`
+ * @param fallback Code for errors that aren't already an AppError (default: INTERNAL_ERROR)
+ */
+function fail(c: Context, error: unknown, fallback?: ErrorCode) {
+  const appError = toAppError(error, fallback);
+  return c.json(errorResponse(appError), appError.status);
+}
+
+/**
+ * Error for a prompt, caption or name that moderation turned down
+ */
+function blockedError(verdict: ModerationVerdict): AppError {
+  return new AppError('GENERATION_BLOCKED', verdict.message ?? 'Let\'s dream up something else!');
+}
+
+/**
+ * Read a request's JSON body, which must be an object
+ */
+async function readJsonObject(c: Context): Promise<Record<string, any>> {
+  const body = await c.req.json().catch(() => null);
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new AppError('INVALID_REQUEST', 'Request body must be a JSON object');
   }
+  return body;
+}
+
+/**
+ * Text to write on a sticker, as sent in a request's `overlay`.
+ * Placement, font and size default to the style's.
+ */
+interface OverlayRequest extends OverlayStyle {
+  caption?: string;
+  name?: string;
+  /** Write today's date */
+  date?: boolean;
+  /** Write what was said */
+  prompt?: boolean;
+}
 
-  const imgBytes = response.generatedImages[0].image?.imageBytes;
-  if (!imgBytes) {
-    console.error('No image bytes returned');
-    return null;
+// Longest caption or name a request may print
+const MAX_OVERLAY_TEXT = 120;
+
+/**
+ * Check a request's overlay, returning an error message if it is invalid
+ */
+function validateOverlay(overlay: OverlayRequest | undefined): string | undefined {
+  if (overlay === undefined) return undefined;
+  if (typeof overlay !== 'object' || overlay === null) {
+    return 'Overlay must be an object';
+  }
+  if (overlay.placement && !OVERLAY_PLACEMENTS.includes(overlay.placement)) {
+    return `Unknown overlay placement: ${overlay.placement}`;
+  }
+  if (overlay.font && !FONT_NAMES.includes(overlay.font)) {
+    return `Unknown font: ${overlay.font}`;
+  }
+  if (overlay.maxHeight !== undefined && !(overlay.maxHeight > 0 && overlay.maxHeight <= 0.5)) {
+    return 'Overlay maxHeight must be more than 0 and at most 0.5';
+  }
+  for (const text of [overlay.caption, overlay.name]) {
+    if (text !== undefined && (typeof text !== 'string' || text.length > MAX_OVERLAY_TEXT)) {
+      return `Overlay text must be a string of at most ${MAX_OVERLAY_TEXT} characters`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Captions and names are printed as-is, so they get the same check as prompts
+ * @returns The verdict that blocked them, if any
+ */
+async function moderateOverlay(overlay: OverlayRequest | undefined): Promise<ModerationVerdict | undefined> {
+  for (const text of [overlay?.caption, overlay?.name]) {
+    if (!text?.trim()) continue;
+    const verdict = await moderator.check(text);
+    if (!verdict.allowed) return verdict;
   }
+  return undefined;
+}
+
+/**
+ * Write a request's overlay onto a sticker, in the style's look unless overridden
+ * @param transcript What was said, in the child's language, for `prompt: true`
+ */
+function applyOverlay(
+  image: Buffer,
+  overlay: OverlayRequest | undefined,
+  style: StylePreset,
+  transcript: string
+): Buffer {
+  if (!overlay) return image;
+  return renderOverlay(image, {
+    caption: overlay.caption,
+    name: overlay.name,
+    date: overlay.date ? new Date() : undefined,
+    timeZone: OVERLAY_TIME_ZONE,
+    prompt: overlay.prompt ? transcript : undefined,
+  }, {
+    placement: overlay.placement ?? style.overlay?.placement,
+    font: overlay.font ?? style.overlay?.font,
+    maxHeight: overlay.maxHeight ?? style.overlay?.maxHeight,
+  });
+}
 
-  return Buffer.from(imgBytes, "base64");
+/**
+ * Check a request's transcription language
+ * @param value A code like `ja`, `auto`, or nothing for TRANSCRIPTION_LANGUAGE
+ */
+function transcriptionLanguage(value: string | undefined): string {
+  const requested = value || TRANSCRIPTION_LANGUAGE;
+  if (requested !== 'auto' && !LANGUAGE_CODES.includes(requested)) {
+    throw new AppError('INVALID_REQUEST', `Invalid language: ${requested}`);
+  }
+  return requested;
 }
 
+// Room for the other form fields around the audio
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
 /**
- * API endpoint to transcribe audio using OpenAI Whisper
+ * Turn away uploads over AUDIO_MAX_BYTES before they are read into memory
  */
-app.post('/api/transcribe', async (c) => {
+const audioBodyLimit = bodyLimit({
+  maxSize: audioIntake.limits.maxBytes + FORM_OVERHEAD_BYTES,
+  onError: (c) => fail(c, new AppError('AUDIO_TOO_LARGE', `Recordings can be at most ${(audioIntake.limits.maxBytes / 1024 / 1024).toFixed(1)} MB`)),
+});
+
+/**
+ * Check a recording, transcribe it and find the voice command in it
+ * @param language A code like `ja`, or `auto` to detect it
+ * @throws AppError with an AUDIO_* code for recordings that can't be used
+ */
+async function transcribeRecording(audioFile: File, language: string) {
+  const audio = await audioIntake.check(Buffer.from(await audioFile.arrayBuffer()));
+  console.log(`🔊 ${audio.format} recording${audio.seconds === undefined ? '' : `, ${audio.seconds.toFixed(1)}s`}${audio.normalized ? ', converted to 16kHz WAV' : ''}`);
+
+  console.log(`🚀 Transcribing with ${transcriber.type} Whisper...`);
+  const transcript = await resilientCall('transcription', (signal) =>
+    transcriber.transcribe(audio.audio, {
+      filename: audio.filename,
+      mimeType: audio.mimeType,
+      language: language === 'auto' ? undefined : language,
+      signal
+    }),
+    TRANSCRIPTION_OPTIONS,
+    TRANSCRIPTION_CODES
+  );
+
+  console.log(`✅ Transcription complete (${transcript.language ?? 'unknown language'}): "${transcript.text}"`);
+  const command = voiceGrammars.get(transcript.language).parse(transcript.text);
+  if (command.matched.length > 0 || command.action !== 'generate') {
+    console.log(`🗣️ Voice command: ${command.action}${command.matched.length ? ` (${command.matched.join(', ')})` : ''}`);
+  }
+  return { ...transcript, command };
+}
+
+/**
+ * API endpoint to transcribe audio with the configured transcriber.
+ * Form fields: `audio`, and optionally `language` (a code like `ja`, or `auto`).
+ * Returns the `text`, its `language` and the voice `command` found in it
+ * (what to do, and the prompt without the command words).
+ */
+app.post('/api/transcribe', audioBodyLimit, async (c) => {
   try {
     console.log(`\n🎤 ===== TRANSCRIPTION REQUEST =====`);
     
@@ -97,50 +455,22 @@ app.post('/api/transcribe', async (c) => {
     
     if (!audioFile || !(audioFile instanceof File)) {
       console.error(`❌ No audio file provided`);
-      return c.json({ error: 'Audio file is required' }, 400);
+      return fail(c, new AppError('INVALID_REQUEST', 'Audio file is required'));
     }
 
     console.log(`📄 Audio file received: ${audioFile.name}, size: ${audioFile.size} bytes, type: ${audioFile.type}`);
 
-    // Convert File to buffer
-    const arrayBuffer = await audioFile.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    // The page may say which language to expect; otherwise use the configured one
+    const requested = transcriptionLanguage(typeof body['language'] === 'string' ? body['language'] : undefined);
+    const { text, language, command } = await transcribeRecording(audioFile, requested);
+    console.log(`🎤 ===== TRANSCRIPTION COMPLETE =====\n`);
 
-    // Create a temporary file for OpenAI API (it requires a file)
-    const tempDir = os.tmpdir();
-    const timestamp = Date.now();
-    const tempFilePath = path.join(tempDir, `audio-${timestamp}.webm`);
-    
-    console.log(`💾 Writing audio to temp file: ${tempFilePath}`);
-    fs.writeFileSync(tempFilePath, buffer);
-
-    try {
-      console.log(`🚀 Sending to OpenAI Whisper API...`);
-      const transcription = await openai.audio.transcriptions.create({
-        file: fs.createReadStream(tempFilePath),
-        model: "whisper-1",
-      });
-
-      console.log(`✅ Transcription complete: "${transcription.text}"`);
-      console.log(`🎤 ===== TRANSCRIPTION COMPLETE =====\n`);
-
-      return c.json({ text: transcription.text });
-    } finally {
-      // Clean up temp file
-      try {
-        fs.unlinkSync(tempFilePath);
-        console.log(`🗑️ Cleaned up temp file`);
-      } catch (err) {
-        console.warn(`⚠️ Could not delete temp file: ${tempFilePath}`);
-      }
-    }
+    return c.json({ text, language, command });
   } catch (error) {
     console.error(`\n❌ ===== TRANSCRIPTION FAILED =====`);
     console.error(`Error:`, error);
     console.error(`🎤 ===== TRANSCRIPTION FAILED =====\n`);
-    return c.json({
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    return fail(c, error, 'TRANSCRIPTION_FAILED');
   }
 });
 
@@ -163,96 +493,929 @@ app.get('/api/printers', async (c) => {
     });
   } catch (error) {
     console.error('Error getting printers:', error);
-    return c.json({
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+    return fail(c, error);
   }
 });
 
 /**
- * API endpoint to generate and print image
+ * API endpoint streaming printer status changes (Server-Sent Events).
+ * Sends the last known state of every printer first, then each change.
  */
-app.post('/api/generate', async (c) => {
-  const { prompt } = await c.req.json();
+app.get('/api/printers/events', (c) => {
+  return streamSSE(c, async (stream) => {
+    for (const state of printerStates.values()) {
+      await stream.writeSSE({ event: 'state', data: JSON.stringify(state) });
+    }
+
+    const onEvent = (event: PrinterEvent) => {
+      stream.writeSSE({ event: 'printer', data: JSON.stringify(event) }).catch(() => {});
+    };
+    printerEvents.on('event', onEvent);
+
+    let isOpen = true;
+    stream.onAbort(() => {
+      isOpen = false;
+      printerEvents.off('event', onEvent);
+    });
+
+    // Keep the connection alive through proxies
+    while (isOpen) {
+      await stream.sleep(25000);
+      if (isOpen) {
+        await stream.writeSSE({ event: 'ping', data: '' });
+      }
+    }
+  });
+});
+
+/**
+ * API endpoint to get what a printer supports (media, resolution, color, options)
+ */
+app.get('/api/printers/:name/capabilities', async (c) => {
+  const printerName = c.req.param('name');
+
+  try {
+    const printers = await getAllPrinters();
+    if (!printers.some(p => p.name === printerName)) {
+      return fail(c, new AppError('NOT_FOUND', `Printer not found: ${printerName}`));
+    }
+
+    return c.json(await getPrinterCapabilities(printerName));
+  } catch (error) {
+    console.error('Error getting printer capabilities:', error);
+    return fail(c, error);
+  }
+});
+
+/**
+ * API endpoint to list print jobs
+ */
+app.get('/api/jobs', (c) => {
+  return c.json({ jobs: printQueue.list() });
+});
+
+/**
+ * API endpoint to get a single print job
+ */
+app.get('/api/jobs/:id', (c) => {
+  const job = printQueue.get(c.req.param('id'));
+  if (!job) {
+    return fail(c, new AppError('NOT_FOUND', 'Job not found'));
+  }
+  return c.json(job);
+});
+
+/**
+ * API endpoint to cancel a print job
+ */
+app.delete('/api/jobs/:id', async (c) => {
+  const job = printQueue.get(c.req.param('id'));
+  if (!job) {
+    return fail(c, new AppError('NOT_FOUND', 'Job not found'));
+  }
+
+  try {
+    return c.json(await printQueue.cancel(job.id));
+  } catch (error) {
+    console.error('Error cancelling job:', error);
+    return fail(c, error, 'CONFLICT');
+  }
+});
+
+/**
+ * API endpoint for parents to review blocked prompts
+ */
+app.get('/api/moderation/log', async (c) => {
+  const limit = Number(c.req.query('limit')) || 100;
+  return c.json({ entries: await moderator.getLog(limit) });
+});
+
+/**
+ * API endpoint to list sticker style presets
+ */
+app.get('/api/styles', (c) => {
+  return c.json({
+    default: DEFAULT_STYLE_ID,
+    styles: STYLE_PRESETS.map(({ id, name, description, aspectRatio }) => ({
+      id,
+      name,
+      description,
+      aspectRatio
+    }))
+  });
+});
+
+/**
+ * API endpoint to list image providers and their models
+ */
+app.get('/api/providers', (c) => {
+  return c.json({ providers: imageGenerator.list() });
+});
+
+// Most copies of one sticker a single request may print
+const MAX_COPIES = 10;
+
+/**
+ * A sticker to make, as sent to `/api/generate` (or read from `/api/dream`'s form)
+ */
+interface StickerRequest {
+  prompt?: string;
+  media?: string;
+  size?: string;
+  preview?: boolean;
+  provider?: string;
+  model?: string;
+  style?: string;
+  enhance?: boolean;
+  fresh?: boolean;
+  maxAgeDays?: number;
+  choose?: boolean;
+  candidates?: number;
+  overlay?: OverlayRequest;
+  copies?: number;
+  language?: string;
+}
+
+/**
+ * How far `makeSticker` has got, as streamed by `/api/dream`
+ */
+type StickerProgress =
+  | { event: 'moderated' }
+  | { event: 'generating'; prompt: string; style: string }
+  | { event: 'generated'; stickerId?: string; imageUrl: string; originalPrompt: string; prompt: string; provider: string; model: string }
+  | { event: 'queued'; jobId?: string; printer?: string; printError?: ErrorCode };
+
+/**
+ * What `makeSticker` made: candidates to choose from, a preview of what
+ * would print, or a sticker queued for printing
+ */
+type StickerResult = {
+  prompt: string;
+  drawnPrompt: string;
+  style: StylePreset;
+  generated: Awaited<ReturnType<typeof generateImage>>;
+} & (
+  | { kind: 'candidates'; candidates: Sticker[] }
+  | { kind: 'preview'; stickerId?: string; rendered: RenderedImage; route?: RouteDecision }
+  | { kind: 'queued'; stickerId?: string; image: Buffer; jobId?: string; route?: RouteDecision; printError?: ErrorCode }
+);
+
+/**
+ * Check, translate, draw, save and print (or preview) a sticker.
+ * Throws an AppError for invalid or blocked requests.
+ * @param onProgress Called as each step is done
+ */
+async function makeSticker(
+  request: StickerRequest,
+  onProgress: (progress: StickerProgress) => void | Promise<void> = () => {}
+): Promise<StickerResult> {
+  const {
+    prompt,
+    media,
+    size,
+    preview,
+    provider,
+    model,
+    style: styleId,
+    enhance,
+    fresh,
+    maxAgeDays,
+    choose,
+    candidates,
+    overlay,
+    copies = 1,
+    language
+  } = request;
 
   if (!prompt) {
-    return c.json({ error: 'Prompt is required' }, 400);
+    throw new AppError('INVALID_REQUEST', 'Prompt is required');
+  }
+
+  const style = getStyle(styleId || DEFAULT_STYLE_ID);
+  if (!style) {
+    throw new AppError('INVALID_REQUEST', `Unknown style: ${styleId}`);
+  }
+
+  const invalidChoice = imageGenerator.validate(provider, model);
+  if (invalidChoice) {
+    throw new AppError('INVALID_REQUEST', invalidChoice);
+  }
+
+  const invalidOverlay = validateOverlay(overlay);
+  if (invalidOverlay) {
+    throw new AppError('INVALID_REQUEST', invalidOverlay);
+  }
+
+  const copyCount = Number(copies);
+  if (!Number.isInteger(copyCount) || copyCount < 1 || copyCount > MAX_COPIES) {
+    throw new AppError('INVALID_REQUEST', `Copies must be between 1 and ${MAX_COPIES}`);
+  }
+
+  if (language !== undefined && (typeof language !== 'string' || !LANGUAGE_CODES.includes(language))) {
+    throw new AppError('INVALID_REQUEST', `Invalid language: ${language}`);
   }
 
+  const isChoosing = choose === true || (choose !== false && CHOOSE_MODE);
+  const candidateCount = candidates === undefined ? CHOOSE_CANDIDATES : Number(candidates);
+  if (isChoosing && (!Number.isInteger(candidateCount) || candidateCount < MIN_CANDIDATES || candidateCount > MAX_CANDIDATES)) {
+    throw new AppError('INVALID_REQUEST', `Candidates must be between ${MIN_CANDIDATES} and ${MAX_CANDIDATES}`);
+  }
+
+  const verdict = await moderator.check(prompt);
+  if (!verdict.allowed) {
+    throw blockedError(verdict);
+  }
+  const overlayVerdict = await moderateOverlay(overlay);
+  if (overlayVerdict) {
+    throw blockedError(overlayVerdict);
+  }
+  await onProgress({ event: 'moderated' });
+
+  // Image models work best in English, so translate what the child said
+  let englishPrompt = prompt;
+  if (translator && language && language !== 'en') {
+    try {
+      englishPrompt = await translator.translate(prompt, language);
+      console.log(`🌐 Translated from ${language}: "${englishPrompt}"`);
+    } catch (translateError) {
+      console.warn(`⚠️ Translation failed, drawing the prompt as said: ${translateError instanceof Error ? translateError.message : String(translateError)}`);
+    }
+    // The word lists are English, so the translation is checked too
+    if (englishPrompt !== prompt) {
+      const translationVerdict = await moderator.check(englishPrompt);
+      if (!translationVerdict.allowed) {
+        throw blockedError(translationVerdict);
+      }
+    }
+  }
+
+  // Tidy up what was said ("a dinosaur... um... with a hat"), unless turned off
+  let drawnPrompt = englishPrompt;
+  if (promptEnhancer && enhance !== false) {
+    drawnPrompt = await promptEnhancer.enhance(englishPrompt);
+    if (drawnPrompt !== englishPrompt) {
+      console.log(`✏️ Rewrote prompt: "${drawnPrompt}"`);
+      // The rewrite is checked too, in case the model added anything
+      const rewriteVerdict = await moderator.check(drawnPrompt);
+      if (!rewriteVerdict.allowed) {
+        throw blockedError(rewriteVerdict);
+      }
+    }
+  }
+
+  // Generate the image
+  await onProgress({ event: 'generating', prompt: drawnPrompt, style: style.id });
+  const generated = await generateImage(drawnPrompt, style, {
+    provider,
+    model,
+    count: isChoosing ? candidateCount : 1
+  }, {
+    fresh: fresh === true,
+    maxAgeDays: typeof maxAgeDays === 'number' ? maxAgeDays : undefined
+  });
+  if (generated.failures.length > 0) {
+    console.log(`↪️ Fell back to ${generated.provider} (${generated.model})`);
+  }
+  const made = { prompt, drawnPrompt, style, generated };
+
+  // Choose mode: keep every candidate, print none of them yet
+  if (isChoosing) {
+    const candidateGroup = randomUUID();
+    const stored = await Promise.all(generated.images.map(image => stickerStore.add(image, {
+      transcript: prompt,
+      prompt: drawnPrompt,
+      ...(language ? { language } : {}),
+      style: style.id,
+      provider: generated.provider,
+      model: generated.model,
+      candidate: true,
+      candidateGroup
+    })));
+    console.log(`🤔 ${stored.length} candidates ready to choose from`);
+    return { ...made, kind: 'candidates', candidates: stored };
+  }
+
+  const image = generated.images[0];
+  const isPreview = preview === true || PREVIEW_MODE;
+  let stickerId: string | undefined;
   try {
-    // Generate the image
-    const buffer = await generateImage(prompt);
+    const sticker = await stickerStore.add(image, {
+      transcript: prompt,
+      prompt: drawnPrompt,
+      ...(language ? { language } : {}),
+      style: style.id,
+      provider: generated.provider,
+      model: generated.model,
+      ...(isPreview ? { preview: true } : {})
+    });
+    stickerId = sticker.id;
+  } catch (storeError) {
+    console.warn(`⚠️ Could not save sticker: ${storeError instanceof Error ? storeError.message : String(storeError)}`);
+  }
+  await onProgress({
+    event: 'generated',
+    stickerId,
+    imageUrl: stickerId ? `/api/stickers/${stickerId}/image` : `data:image/png;base64,${image.toString('base64')}`,
+    originalPrompt: prompt,
+    prompt: drawnPrompt,
+    provider: generated.provider,
+    model: generated.model
+  });
+
+  // History keeps the plain picture; captions only go on what is printed
+  const buffer = applyOverlay(image, overlay, style, prompt);
+
+  const printOptions = {
+    fitToPage: true,
+    copies: copyCount,
+    media,
+    // Layered over the thermal settings of whichever printer takes the job
+    thermal: style.thermal
+  };
 
-    if (!buffer) {
-      return c.json({ error: 'Failed to generate image' }, 500);
+  // Preview: return exactly what the printer would get, without printing
+  if (isPreview) {
+    console.log(`👁️ Preview requested, skipping print`);
+    let route: RouteDecision | undefined;
+    try {
+      // Peek, so the preview doesn't use up a printer's round-robin turn
+      route = await printerBackend.route({ media, size, peek: true });
+    } catch (routeError) {
+      console.warn(`⚠️ ${routeError instanceof Error ? routeError.message : String(routeError)}`);
     }
 
-    // Print the image
-    console.log(`\n🖨️ ===== STARTING PRINT JOB =====`);
-    console.log(`📄 Image buffer size: ${buffer.length} bytes`);
-    
+    return { ...made, kind: 'preview', stickerId, rendered: printerBackend.render(buffer, printOptions, route?.printerName), route };
+  }
+
+  // Queue the image for printing
+  console.log(`\n🖨️ ===== QUEUEING PRINT JOB =====`);
+  console.log(`📄 Image buffer size: ${buffer.length} bytes`);
+
+  let jobId: string | undefined;
+  let route: RouteDecision | undefined;
+  // Why the sticker may not come out right away, for the client to explain
+  let printError: ErrorCode | undefined;
+  try {
+    try {
+      route = await printerBackend.route({ media, size });
+      console.log(`🧭 Routed to "${route.printerName}": ${route.reason}`);
+    } catch (routeError) {
+      // No printer available right now - the queue will retry routing
+      console.warn(`⚠️ ${routeError instanceof Error ? routeError.message : String(routeError)}`);
+      printError = 'PRINTER_OFFLINE';
+    }
+
+    const job = await printQueue.enqueue(buffer, printOptions, {
+      media,
+      size,
+      preferred: route?.printerName
+    });
+    jobId = job.id;
+    if (stickerId) {
+      await stickerStore.update(stickerId, { jobId: job.id, printerName: route?.printerName });
+    }
+  } catch (queueError) {
+    console.error('\n❌ ===== QUEUEING PRINT JOB FAILED =====');
+    console.error(`Error message: ${queueError instanceof Error ? queueError.message : String(queueError)}`);
+    // Continue even if printing fails - still return the image
+    printError = 'PRINT_FAILED';
+  }
+  await onProgress({ event: 'queued', jobId, printer: route?.printerName, printError });
+
+  return { ...made, kind: 'queued', stickerId, image: buffer, jobId, route, printError };
+}
+
+/**
+ * API endpoint to generate and print image.
+ * `copies` prints more than one (e.g. from "print two of them"). `language`
+ * is the prompt's language; other languages than English are translated.
+ * In choose mode (`choose: true` or CHOOSE_MODE=1) it makes `candidates`
+ * images instead, prints nothing and returns them as JSON; print the one
+ * picked with `POST /api/stickers/:id/print`.
+ */
+app.post('/api/generate', async (c) => {
+  try {
+    const request: StickerRequest = await readJsonObject(c);
+
+    const result = await makeSticker(request);
+    const { prompt, drawnPrompt, style, generated } = result;
+
+    if (result.kind === 'candidates') {
+      return c.json({
+        candidates: result.candidates.map(sticker => ({
+          stickerId: sticker.id,
+          imageUrl: `/api/stickers/${sticker.id}/image`
+        })),
+        originalPrompt: prompt,
+        prompt: drawnPrompt,
+        style: style.id,
+        provider: generated.provider,
+        model: generated.model
+      });
+    }
+
+    const imageHeaders: Record<string, string> = {
+      'X-Cache': generated.cache,
+      'X-Image-Provider': generated.provider,
+      'X-Image-Model': generated.model,
+      'X-Style': style.id,
+      // Headers must be ASCII, so the prompts are URI-encoded
+      'X-Original-Prompt': encodeURIComponent(prompt),
+      'X-Prompt': encodeURIComponent(drawnPrompt),
+      ...(result.stickerId ? { 'X-Sticker-Id': result.stickerId } : {}),
+      ...(result.route ? { 'X-Printer': result.route.printerName, 'X-Printer-Reason': result.route.reason } : {}),
+    };
+
+    if (result.kind === 'preview') {
+      const { rendered } = result;
+      return new Response(new Uint8Array(rendered.png), {
+        status: 200,
+        headers: {
+          'Content-Type': 'image/png',
+          ...imageHeaders,
+          'X-Preview': 'true',
+          'X-Image-Width': String(rendered.width),
+          'X-Image-Height': String(rendered.height),
+          ...(rendered.dotWidth ? { 'X-Dot-Width': String(rendered.dotWidth) } : {}),
+          ...(request.media ? { 'X-Media': request.media } : {}),
+        },
+      });
+    }
+
+    // Send the image back to the client
+    return new Response(new Uint8Array(result.image), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        ...imageHeaders,
+        ...(result.jobId ? { 'X-Print-Job': result.jobId } : {}),
+        ...(result.printError ? { 'X-Print-Error': result.printError } : {}),
+      },
+    });
+  } catch (error) {
+    console.error('Error:', error);
+    return fail(c, error);
+  }
+});
+
+// How long /api/dream follows a print job before leaving it to the queue
+const PRINT_FOLLOW_MS = 2 * 60 * 1000;
+
+/**
+ * Send one `/api/dream` event
+ */
+function writeEvent(stream: SSEStreamingApi, event: string, data: object = {}): Promise<void> {
+  return stream.writeSSE({ event, data: JSON.stringify(data) });
+}
+
+/**
+ * Stream a print job's progress (`printing`, then `printed`, `failed` or
+ * `cancelled`) until it finishes, the client goes away or PRINT_FOLLOW_MS
+ * passes. The queue keeps going either way.
+ */
+function followPrintJob(stream: SSEStreamingApi, jobId: string): Promise<void> {
+  return new Promise((resolve) => {
+    let lastEvent: string | undefined;
+    // Events are written in order, and the stream only ends once they are out
+    let writing = Promise.resolve();
+
+    const report = (job: PrintJob) => {
+      if (job.id !== jobId) return;
+      const event = {
+        queued: undefined,
+        sent: 'printing',
+        printing: 'printing',
+        completed: 'printed',
+        failed: 'failed',
+        cancelled: 'cancelled',
+      }[job.state];
+      if (!event || event === lastEvent) return;
+      lastEvent = event;
+
+      const data = event === 'failed'
+        ? errorResponse(new AppError('PRINT_FAILED', job.error ?? 'Print failed'))
+        : { jobId, printer: job.printerName };
+      writing = writing.then(() => writeEvent(stream, event, data)).catch(() => {});
+      if (event !== 'printing') finish();
+    };
+
+    const timer = setTimeout(() => finish(), PRINT_FOLLOW_MS);
+    const finish = () => {
+      clearTimeout(timer);
+      printQueue.off('change', report);
+      writing.then(resolve);
+    };
+
+    printQueue.on('change', report);
+    stream.onAbort(finish);
+    // It may have moved on before anyone was listening
+    const job = printQueue.get(jobId);
+    if (job) report(job);
+  });
+}
+
+/**
+ * Read a true/false form field (`true`/`1` or `false`/`0`)
+ */
+function formFlag(value: unknown): boolean | undefined {
+  if (value === 'true' || value === '1') return true;
+  if (value === 'false' || value === '0') return false;
+  return undefined;
+}
+
+/**
+ * API endpoint for a whole recording in one request: transcribes, checks,
+ * draws and prints it, streaming progress as Server-Sent Events.
+ * Form fields: `audio`, and optionally `language`, `style`, `copies`, `size`,
+ * `preview`, `fresh`, `provider`, `model`, `choose`, `overlay` (JSON) and
+ * `previousPrompt` / `previousLanguage` (what "make it a mandala" redraws).
+ * Events: `transcribed` (`text`, `language`, `command`), `moderated`,
+ * `generating`, `generated` (`stickerId`, `imageUrl`), `queued` (`jobId`,
+ * `printer`, `printError`), `printing`, `printed`, or `failed` (the usual
+ * `{ error, code, retryable }`) at any step. Choose mode ends with
+ * `candidates`, preview with `preview`, and "cancel" with `cancelled`.
+ * "Print it again" ends after `transcribed`, for the client to reprint the
+ * sticker it shows.
+ */
+app.post('/api/dream', audioBodyLimit, async (c) => {
+  console.log(`\n💭 ===== DREAM REQUEST =====`);
+
+  const body = await c.req.parseBody();
+  const audioFile = body['audio'];
+  if (!audioFile || !(audioFile instanceof File)) {
+    return fail(c, new AppError('INVALID_REQUEST', 'Audio file is required'));
+  }
+
+  let overlay: OverlayRequest | undefined;
+  try {
+    overlay = typeof body['overlay'] === 'string' && body['overlay'] ? JSON.parse(body['overlay']) : undefined;
+  } catch {
+    return fail(c, new AppError('INVALID_REQUEST', 'Overlay must be JSON'));
+  }
+
+  const field = (name: string) => typeof body[name] === 'string' && body[name] ? body[name] as string : undefined;
+  const previousPrompt = field('previousPrompt');
+  const request: StickerRequest = {
+    size: field('size'),
+    style: field('style'),
+    copies: field('copies') ? Number(field('copies')) : undefined,
+    preview: formFlag(body['preview']),
+    fresh: formFlag(body['fresh']),
+    choose: formFlag(body['choose']),
+    provider: field('provider'),
+    model: field('model'),
+    overlay,
+  };
+
+  let requested: string;
+  try {
+    requested = transcriptionLanguage(field('language'));
+  } catch (error) {
+    return fail(c, error);
+  }
+
+  return streamSSE(c, async (stream) => {
     try {
-      // Check if the specified printer is available
-      console.log(`🔍 Looking for available printers...`);
-      const printers = await getAllPrinters();
-      console.log(`📋 Found ${printers.length} printer(s):`);
-      printers.forEach(p => {
-        console.log(`   - ${p.name} (${p.isUSB ? 'USB' : p.isBluetooth ? 'Bluetooth' : 'Network'}) - ${p.status} ${p.isDefault ? '⭐ DEFAULT' : ''}`);
+      console.log(`📄 Audio file received: ${audioFile.name}, size: ${audioFile.size} bytes, type: ${audioFile.type}`);
+      const { text, language, command } = await transcribeRecording(audioFile, requested);
+      await writeEvent(stream, 'transcribed', { text, language, command });
+
+      if (command.action === 'cancel') {
+        await writeEvent(stream, 'cancelled');
+        return;
+      }
+      if (command.action === 'reprint') {
+        return;
+      }
+
+      // "Make it a mandala" draws the last idea again in the new style
+      const isRedraw = command.action === 'redraw';
+      if (isRedraw && !previousPrompt) {
+        await writeEvent(stream, 'cancelled');
+        return;
+      }
+
+      const result = await makeSticker({
+        ...request,
+        prompt: isRedraw ? previousPrompt : command.prompt,
+        language: isRedraw ? field('previousLanguage') : language,
+        style: command.style ?? request.style,
+        copies: command.copies ?? request.copies,
+        size: command.size ?? request.size,
+      }, (progress) => {
+        const { event, ...data } = progress;
+        return writeEvent(stream, event, data);
       });
-      
-      const targetPrinter = printers.find(p => p.name === PRINTER_NAME);
-      
-      if (targetPrinter) {
-        console.log(`\n✅ Found target printer: "${PRINTER_NAME}"`);
-        console.log(`   Status: ${targetPrinter.status}`);
-        console.log(`   URI: ${targetPrinter.uri}`);
-        console.log(`   Type: ${targetPrinter.isUSB ? 'USB' : targetPrinter.isBluetooth ? 'Bluetooth' : 'Network'}`);
-        
-        console.log(`\n🚀 Sending print job to ${PRINTER_NAME}...`);
-        const jobId = await printImage(PRINTER_NAME, buffer, {
-          fitToPage: true,
-          copies: 1
+
+      if (result.kind === 'candidates') {
+        await writeEvent(stream, 'candidates', {
+          candidates: result.candidates.map(sticker => ({
+            stickerId: sticker.id,
+            imageUrl: `/api/stickers/${sticker.id}/image`
+          })),
+          originalPrompt: result.prompt,
+          prompt: result.drawnPrompt
         });
-        console.log(`✅ Print job ${jobId} submitted successfully!`);
-        console.log(`🖨️ ===== PRINT JOB COMPLETE =====\n`);
-      } else {
-        // Fall back to USB printer if specified printer not found
-        console.warn(`\n⚠️ Printer "${PRINTER_NAME}" not found in available printers`);
-        console.log(`🔄 Attempting fallback to USB printer...`);
-        const printResult = await printToUSB(buffer, {
-          fitToPage: true,
-          copies: 1
+      } else if (result.kind === 'preview') {
+        const { rendered, route } = result;
+        await writeEvent(stream, 'preview', {
+          imageUrl: `data:image/png;base64,${rendered.png.toString('base64')}`,
+          width: rendered.width,
+          height: rendered.height,
+          dotWidth: rendered.dotWidth,
+          printer: route?.printerName
         });
-        console.log(`✅ Print job submitted to ${printResult.printerName} (Job ID: ${printResult.jobId})`);
-        console.log(`🖨️ ===== PRINT JOB COMPLETE =====\n`);
-      }
-    } catch (printError) {
-      console.error('\n❌ ===== PRINTING FAILED =====');
-      console.error(`Error type: ${printError instanceof Error ? printError.constructor.name : typeof printError}`);
-      console.error(`Error message: ${printError instanceof Error ? printError.message : String(printError)}`);
-      if (printError instanceof Error && printError.stack) {
-        console.error(`Stack trace:\n${printError.stack}`);
+      } else if (result.jobId) {
+        await followPrintJob(stream, result.jobId);
+      } else {
+        await writeEvent(stream, 'failed', errorResponse(new AppError(result.printError ?? 'PRINT_FAILED', 'Could not queue the sticker')));
       }
-      console.error(`🖨️ ===== PRINT JOB FAILED =====\n`);
-      // Continue even if printing fails - still return the image
+      console.log(`💭 ===== DREAM COMPLETE =====\n`);
+    } catch (error) {
+      console.error(`❌ Dream failed:`, error);
+      await writeEvent(stream, 'failed', errorResponse(toAppError(error))).catch(() => {});
     }
+  });
+});
 
-    // Send the image back to the client
-    return new Response(new Uint8Array(buffer), {
+/**
+ * API endpoint to browse past stickers, newest first.
+ * Query: `search`, `style`, `offset`, `limit`
+ */
+app.get('/api/stickers', async (c) => {
+  const result = await stickerStore.list({
+    search: c.req.query('search'),
+    style: c.req.query('style'),
+    offset: Number(c.req.query('offset')) || 0,
+    limit: Number(c.req.query('limit')) || 20
+  });
+  return c.json(result);
+});
+
+/**
+ * API endpoint to get a single sticker
+ */
+app.get('/api/stickers/:id', async (c) => {
+  const sticker = await stickerStore.get(c.req.param('id'));
+  if (!sticker) {
+    return fail(c, new AppError('NOT_FOUND', 'Sticker not found'));
+  }
+  return c.json(sticker);
+});
+
+/**
+ * API endpoint to get a sticker's image
+ */
+app.get('/api/stickers/:id/image', async (c) => {
+  const image = await stickerStore.getImage(c.req.param('id'));
+  if (!image) {
+    return fail(c, new AppError('NOT_FOUND', 'Sticker not found'));
+  }
+  return new Response(new Uint8Array(image), {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/png',
+      // Stickers never change once made
+      'Cache-Control': 'public, max-age=31536000, immutable',
+    },
+  });
+});
+
+/**
+ * Once a candidate is picked, the others made with it are deleted
+ */
+async function removeUnpicked(picked: Sticker): Promise<void> {
+  if (!picked.candidateGroup) return;
+  try {
+    const count = await stickerStore.removeUnpicked(picked.candidateGroup);
+    if (count > 0) console.log(`🧹 Deleted ${count} candidate(s) that weren't picked`);
+  } catch (error) {
+    console.warn(`⚠️ Could not delete unpicked candidates: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * API endpoint to print a stored sticker again, without generating a new one.
+ * Also prints the candidate picked in choose mode.
+ * Body: `copies`, `printer`, `media`, `size`, `style` (thermal and caption settings),
+ * `overlay`, `preview`
+ */
+app.post('/api/stickers/:id/print', async (c) => {
+  const sticker = await stickerStore.get(c.req.param('id'));
+  const image = sticker && await stickerStore.getImage(sticker.id);
+  if (!sticker || !image) {
+    return fail(c, new AppError('NOT_FOUND', 'Sticker not found'));
+  }
+
+  let body: Record<string, any>;
+  try {
+    body = await readJsonObject(c);
+  } catch (error) {
+    return fail(c, error, 'INVALID_REQUEST');
+  }
+  const {
+    copies = 1,
+    printer,
+    media,
+    size,
+    style: styleId,
+    overlay,
+    preview
+  } = body;
+
+  const copyCount = Number(copies);
+  if (!Number.isInteger(copyCount) || copyCount < 1 || copyCount > MAX_COPIES) {
+    return fail(c, new AppError('INVALID_REQUEST', `Copies must be between 1 and ${MAX_COPIES}`));
+  }
+
+  const style = getStyle(styleId || sticker.style) ?? getStyle(DEFAULT_STYLE_ID)!;
+  if (styleId && style.id !== styleId) {
+    return fail(c, new AppError('INVALID_REQUEST', `Unknown style: ${styleId}`));
+  }
+
+  if (printer && printerBackend instanceof CupsBackend && !printerBackend.printerNames.includes(printer)) {
+    return fail(c, new AppError('INVALID_REQUEST', `Unknown printer: ${printer}`));
+  }
+
+  const invalidOverlay = validateOverlay(overlay);
+  if (invalidOverlay) {
+    return fail(c, new AppError('INVALID_REQUEST', invalidOverlay));
+  }
+  const overlayVerdict = await moderateOverlay(overlay);
+  if (overlayVerdict) {
+    return fail(c, blockedError(overlayVerdict));
+  }
+  const printed = applyOverlay(image, overlay, style, sticker.transcript);
+
+  const printOptions = {
+    fitToPage: true,
+    copies: copyCount,
+    media,
+    thermal: style.thermal
+  };
+
+  if (preview === true || PREVIEW_MODE) {
+    if (sticker.candidate) {
+      await stickerStore.update(sticker.id, { candidate: false, preview: true });
+      await removeUnpicked(sticker);
+    }
+    const rendered = printerBackend.render(printed, printOptions, printer);
+    return new Response(new Uint8Array(rendered.png), {
       status: 200,
       headers: {
         'Content-Type': 'image/png',
+        'X-Preview': 'true',
+        'X-Sticker-Id': sticker.id,
+        'X-Image-Width': String(rendered.width),
+        'X-Image-Height': String(rendered.height),
+        ...(media ? { 'X-Media': media } : {}),
       },
     });
+  }
 
-  } catch (error) {
-    console.error('Error:', error);
+  console.log(`${sticker.candidate ? '👉 Printing chosen' : '🔁 Reprinting'} sticker ${sticker.id} ("${sticker.prompt}") x${copyCount}`);
+  let route: RouteDecision | undefined;
+  let printError: ErrorCode | undefined;
+  try {
+    route = await printerBackend.route({ media, size, preferred: printer });
+    console.log(`🧭 Routed to "${route.printerName}": ${route.reason}`);
+  } catch (routeError) {
+    // No printer available right now - the queue will retry routing
+    console.warn(`⚠️ ${routeError instanceof Error ? routeError.message : String(routeError)}`);
+    printError = 'PRINTER_OFFLINE';
+  }
+
+  try {
+    const job = await printQueue.enqueue(printed, printOptions, {
+      media,
+      size,
+      preferred: route?.printerName ?? printer
+    });
+    // A picked candidate or a printed preview becomes a normal sticker
+    if (sticker.candidate || sticker.preview) {
+      await stickerStore.update(sticker.id, { candidate: false, preview: false, jobId: job.id, printerName: route?.printerName });
+      await removeUnpicked(sticker);
+    }
     return c.json({
-      error: error instanceof Error ? error.message : 'Unknown error'
-    }, 500);
+      stickerId: sticker.id,
+      jobId: job.id,
+      copies: copyCount,
+      printerName: route?.printerName,
+      reason: route?.reason,
+      // Queued, but waiting for a printer to come back
+      ...(printError ? { printError } : {})
+    });
+  } catch (queueError) {
+    console.error(`❌ Queueing reprint failed: ${queueError instanceof Error ? queueError.message : String(queueError)}`);
+    return fail(c, queueError, 'PRINT_FAILED');
   }
 });
 
+/**
+ * API endpoint to print a sheet of the most recent stickers
+ * (e.g. the last four on one 4x6 label, with cut lines)
+ */
+app.post('/api/sheet', async (c) => {
+  let body: Record<string, any>;
+  try {
+    body = await readJsonObject(c);
+  } catch (error) {
+    return fail(c, error, 'INVALID_REQUEST');
+  }
+  const {
+    count = 4,
+    grid,
+    media = '4x6',
+    size,
+    guides = 'cut',
+    captions,
+    preview
+  } = body;
+
+  if (!['none', 'cut', 'fold'].includes(guides)) {
+    return fail(c, new AppError('INVALID_REQUEST', `Unknown guides: ${guides}`));
+  }
+  if (captions !== undefined && captions !== true
+    && !(Array.isArray(captions) && captions.every(caption => typeof caption === 'string'))) {
+    return fail(c, new AppError('INVALID_REQUEST', 'Captions must be true or a list of strings'));
+  }
+  let requestedGrid: SheetGrid | undefined;
+  try {
+    requestedGrid = grid === undefined ? undefined : validateSheetGrid(grid);
+  } catch (error) {
+    return fail(c, error, 'INVALID_REQUEST');
+  }
+
+  // Previews never made it onto paper, so they don't belong on a sheet
+  const { stickers } = await stickerStore.list({ limit: Math.max(1, Number(count) || 4), printedOnly: true });
+  if (stickers.length === 0) {
+    return fail(c, new AppError('NOT_FOUND', 'No stickers to print yet'));
+  }
+
+  // Captions are printed as-is, so they get the same check as prompts.
+  // Stored prompts are checked again too: moderation may have changed since.
+  const captionTexts: string[] | undefined = captions === true ? stickers.map(s => s.prompt) : captions;
+  for (const caption of captionTexts ?? []) {
+    const verdict = await moderator.check(caption);
+    if (!verdict.allowed) {
+      return fail(c, blockedError(verdict));
+    }
+  }
+
+  const sheetGrid: SheetGrid = requestedGrid ?? (stickers.length === 1 ? 1 : stickers.length === 2 ? 2 : 4);
+  const images = await Promise.all(stickers.map(s => stickerStore.getImage(s.id)));
+
+  let sheet: Buffer;
+  try {
+    sheet = layoutSheet(images.filter((image): image is Buffer => image !== undefined), {
+      media,
+      grid: sheetGrid,
+      guides,
+      captions: captionTexts,
+    });
+  } catch (error) {
+    return fail(c, error, 'INVALID_REQUEST');
+  }
+
+  // The sheet is already laid out for the page, so print it at 100%
+  const printOptions = {
+    fitToPage: false,
+    copies: 1,
+    media
+  };
+
+  if (preview === true || PREVIEW_MODE) {
+    const rendered = printerBackend.render(sheet, printOptions);
+    return new Response(new Uint8Array(rendered.png), {
+      status: 200,
+      headers: {
+        'Content-Type': 'image/png',
+        'X-Preview': 'true',
+        'X-Image-Width': String(rendered.width),
+        'X-Image-Height': String(rendered.height),
+        'X-Media': media,
+      },
+    });
+  }
+
+  console.log(`🗂️ Queueing sheet of ${stickers.length} sticker(s) on ${media}`);
+  let printJobId: string | undefined;
+  try {
+    const job = await printQueue.enqueue(sheet, printOptions, { media, size });
+    printJobId = job.id;
+  } catch (queueError) {
+    console.error(`❌ Queueing sheet failed: ${queueError instanceof Error ? queueError.message : String(queueError)}`);
+  }
+
+  return new Response(new Uint8Array(sheet), {
+    status: 200,
+    headers: {
+      'Content-Type': 'image/png',
+      ...(printJobId ? { 'X-Print-Job': printJobId } : { 'X-Print-Error': 'PRINT_FAILED' }),
+    },
+  });
+});
+
 // Log initial printer check on startup
 getAllPrinters().then(printers => {
   console.log(`\n📋 Initial printer check at startup:`);
@@ -273,9 +1436,22 @@ serve({
 }, (info) => {
   console.log(`\n🚀 Server running at http://localhost:${info.port}`);
   console.log(`📝 API endpoints:`);
-  console.log(`   POST http://localhost:${info.port}/api/transcribe - Transcribe audio (OpenAI Whisper)`);
+  console.log(`   POST http://localhost:${info.port}/api/transcribe - Transcribe audio (${transcriber.type} Whisper)`);
   console.log(`   GET  http://localhost:${info.port}/api/printers - List available printers`);
-  console.log(`   POST http://localhost:${info.port}/api/generate - Generate and print image`);
+  console.log(`   GET  http://localhost:${info.port}/api/printers/events - Printer status events (SSE)`);
+  console.log(`   GET  http://localhost:${info.port}/api/printers/:name/capabilities - Printer capabilities`);
+  console.log(`   GET  http://localhost:${info.port}/api/styles - List sticker styles`);
+  console.log(`   GET  http://localhost:${info.port}/api/moderation/log - Blocked prompts, for parents`);
+  console.log(`   GET  http://localhost:${info.port}/api/providers - List image providers and models`);
+  console.log(`   POST http://localhost:${info.port}/api/generate - Generate and print image (or candidates to choose from)`);
+  console.log(`   POST http://localhost:${info.port}/api/dream - Transcribe, generate and print a recording, streaming progress (SSE)`);
+  console.log(`   GET  http://localhost:${info.port}/api/stickers - Browse past stickers`);
+  console.log(`   GET  http://localhost:${info.port}/api/stickers/:id/image - Get a sticker's image`);
+  console.log(`   POST http://localhost:${info.port}/api/stickers/:id/print - Print a sticker again`);
+  console.log(`   POST http://localhost:${info.port}/api/sheet - Print a sheet of recent stickers`);
+  console.log(`   GET  http://localhost:${info.port}/api/jobs - List print jobs`);
+  console.log(`   GET  http://localhost:${info.port}/api/jobs/:id - Get a print job`);
+  console.log(`   DELETE http://localhost:${info.port}/api/jobs/:id - Cancel a print job`);
   console.log('');
 });
 
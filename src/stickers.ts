@@ -0,0 +1,197 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { randomUUID } from "node:crypto";
+import { JsonFile } from "./persist.ts";
+
+/**
+ * A generated sticker, as stored in the history
+ */
+export interface Sticker {
+  id: string;
+  /** What was said (or typed) */
+  transcript: string;
+  /** Prompt after translation and clean-up, as drawn */
+  prompt: string;
+  /** Language code of the transcript, when known */
+  language?: string;
+  style: string;
+  provider: string;
+  model: string;
+  /** Printer the job was routed to */
+  printerName?: string;
+  /** Print queue job ID */
+  jobId?: string;
+  /** True if it was only previewed, not printed */
+  preview?: boolean;
+  /** True while it is one of several candidates that hasn't been picked */
+  candidate?: boolean;
+  /** Shared by candidates made together, so the rest can go once one is picked */
+  candidateGroup?: string;
+  createdAt: string;
+}
+
+/**
+ * Options for listing stickers
+ */
+export interface StickerQuery {
+  /** Case-insensitive text to find in the transcript or prompt */
+  search?: string;
+  /** Only stickers in this style */
+  style?: string;
+  /** Also list candidates that were never picked (default: false) */
+  candidates?: boolean;
+  /** Leave out stickers that were only previewed (default: false) */
+  printedOnly?: boolean;
+  /** Stickers to skip (default: 0) */
+  offset?: number;
+  /** Page size (default: 20, max: 100) */
+  limit?: number;
+}
+
+/**
+ * Every sticker ever made: a JSON index plus one PNG per sticker,
+ * so the history survives restarts and page refreshes
+ */
+export class StickerStore {
+  private stickers = new Map<string, Sticker>();
+  private index: JsonFile<Sticker>;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * @param directory Directory for stickers.json and images (default: output/stickers)
+   */
+  constructor(private directory: string = path.join("output", "stickers")) {
+    this.index = new JsonFile(path.join(directory, "stickers.json"), "sticker history");
+  }
+
+  private imagePath(id: string): string {
+    return path.join(this.directory, `${id}.png`);
+  }
+
+  /**
+   * Save a new sticker
+   * @param image PNG file contents
+   * @param info Everything about the sticker except its ID and time
+   */
+  async add(image: Buffer, info: Omit<Sticker, "id" | "createdAt">): Promise<Sticker> {
+    await this.load();
+
+    const sticker: Sticker = {
+      id: randomUUID(),
+      ...info,
+      createdAt: new Date().toISOString(),
+    };
+    await fs.promises.writeFile(this.imagePath(sticker.id), image);
+    this.stickers.set(sticker.id, sticker);
+    await this.save();
+    return sticker;
+  }
+
+  /**
+   * Record details that are only known later (printer, job ID, being picked)
+   */
+  async update(id: string, changes: Partial<Omit<Sticker, "id" | "createdAt">>): Promise<Sticker> {
+    await this.load();
+
+    const sticker = this.stickers.get(id);
+    if (!sticker) {
+      throw new Error(`Sticker not found: ${id}`);
+    }
+    Object.assign(sticker, changes);
+    await this.save();
+    return sticker;
+  }
+
+  /**
+   * Delete the candidates of a group that weren't picked
+   * @param group Candidate group of the picked sticker
+   * @returns How many were deleted
+   */
+  removeUnpicked(group: string): Promise<number> {
+    return this.removeWhere((sticker) => sticker.candidate === true && sticker.candidateGroup === group);
+  }
+
+  /**
+   * Delete candidates nobody picked, e.g. when the page was closed first
+   * @param maxAgeMs Keep candidates younger than this
+   * @returns How many were deleted
+   */
+  pruneCandidates(maxAgeMs: number): Promise<number> {
+    const cutoff = new Date(Date.now() - maxAgeMs).toISOString();
+    return this.removeWhere((sticker) => sticker.candidate === true && sticker.createdAt < cutoff);
+  }
+
+  private async removeWhere(predicate: (sticker: Sticker) => boolean): Promise<number> {
+    await this.load();
+
+    const removed = [...this.stickers.values()].filter(predicate);
+    if (removed.length === 0) return 0;
+    for (const sticker of removed) {
+      this.stickers.delete(sticker.id);
+      await fs.promises.rm(this.imagePath(sticker.id), { force: true });
+    }
+    await this.save();
+    return removed.length;
+  }
+
+  async get(id: string): Promise<Sticker | undefined> {
+    await this.load();
+    return this.stickers.get(id);
+  }
+
+  /**
+   * Read a sticker's PNG
+   * @returns The image, or undefined if there is no such sticker
+   */
+  async getImage(id: string): Promise<Buffer | undefined> {
+    await this.load();
+    if (!this.stickers.has(id)) return undefined;
+
+    try {
+      return await fs.promises.readFile(this.imagePath(id));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * List stickers, newest first
+   * @returns One page of stickers and the total number matching
+   */
+  async list(query: StickerQuery = {}): Promise<{ stickers: Sticker[]; total: number }> {
+    await this.load();
+
+    const offset = Math.max(0, query.offset ?? 0);
+    const limit = Math.min(100, Math.max(1, query.limit ?? 20));
+    const search = query.search?.trim().toLowerCase();
+
+    const matching = [...this.stickers.values()]
+      .filter((sticker) => query.candidates || !sticker.candidate)
+      .filter((sticker) => !query.printedOnly || !sticker.preview)
+      .filter((sticker) => !query.style || sticker.style === query.style)
+      .filter(
+        (sticker) =>
+          !search ||
+          sticker.transcript.toLowerCase().includes(search) ||
+          sticker.prompt.toLowerCase().includes(search)
+      )
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    return { stickers: matching.slice(offset, offset + limit), total: matching.length };
+  }
+
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      const saved = await this.index.load();
+      for (const sticker of saved) {
+        this.stickers.set(sticker.id, sticker);
+      }
+      console.log(`🖼️ Loaded ${saved.length} sticker(s) from history`);
+    })();
+    return this.loading;
+  }
+
+  private save(): Promise<void> {
+    return this.index.save(() => [...this.stickers.values()]);
+  }
+}
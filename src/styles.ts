@@ -0,0 +1,115 @@
+import type { AspectRatio } from "./images.ts";
+import type { ThermalOptions } from "./thermal.ts";
+import type { OverlayStyle } from "./overlay.ts";
+
+/**
+ * A named look for stickers: how the prompt is phrased, what to steer
+ * away from, the image shape and how it is best printed
+ */
+export interface StylePreset {
+  id: string;
+  name: string;
+  /** Short description for the style picker */
+  description: string;
+  /** Prompt template; `{prompt}` is replaced with what was asked for */
+  template: string;
+  /** Things the image should not contain */
+  negative?: string;
+  /** Image shape (default: 9:16) */
+  aspectRatio: AspectRatio;
+  /** Thermal preprocessing overrides that suit the style */
+  thermal?: Partial<ThermalOptions>;
+  /** How captions and name tags look on this style (default: bold, in a bottom band) */
+  overlay?: OverlayStyle;
+}
+
+export const DEFAULT_STYLE = "coloring-page";
+
+export const STYLE_PRESETS: StylePreset[] = [
+  {
+    id: "coloring-page",
+    name: "Coloring page",
+    description: "Black and white line art to color in",
+    template: `A black and white kids coloring page.
+<image-description>
+{prompt}
+</image-description>
+{prompt}`,
+    aspectRatio: "9:16",
+  },
+  {
+    id: "bold-outline",
+    name: "Bold outline sticker",
+    description: "One character with thick outlines, like a die-cut sticker",
+    template: `A single die-cut sticker of {prompt}. Thick bold black outlines, white fill, centered on a plain white background, with a white border around the outline.`,
+    negative: "shading, gradients, grey fill, background scenery, text",
+    aspectRatio: "1:1",
+    thermal: { dither: "threshold", thicken: 1, trimMargins: true },
+  },
+  {
+    id: "mandala",
+    name: "Mandala",
+    description: "Detailed symmetric patterns for older kids and grown-ups",
+    template: `A black and white mandala coloring page with intricate symmetric patterns, built around {prompt}. Fine clean line work on white.`,
+    negative: "shading, filled black areas, text",
+    aspectRatio: "1:1",
+    thermal: { dither: "threshold", thicken: 1 },
+    overlay: { font: "regular" },
+  },
+  {
+    id: "dot-to-dot",
+    name: "Dot-to-dot",
+    description: "Numbered dots to join up into a picture",
+    template: `A black and white connect-the-dots puzzle for kids that reveals {prompt}. Clearly numbered dots, a few simple outline details, lots of white space.`,
+    negative: "finished outline of the main subject, shading, color",
+    aspectRatio: "3:4",
+    thermal: { dither: "threshold" },
+    // The dots fill the page, so keep the name out of the way
+    overlay: { placement: "top", maxHeight: 0.1 },
+  },
+  {
+    id: "pixel-art",
+    name: "Pixel art",
+    description: "Chunky retro pixels",
+    template: `Black and white 8-bit pixel art of {prompt}. Large square pixels, crisp edges, plain white background.`,
+    negative: "anti-aliasing, gradients, grey tones, blur",
+    aspectRatio: "1:1",
+    thermal: { dither: "threshold", autoLevel: false },
+    overlay: { font: "mono" },
+  },
+  {
+    id: "kawaii",
+    name: "Kawaii",
+    description: "Cute round characters with happy faces",
+    template: `A cute kawaii black and white line drawing of {prompt}. Round soft shapes, big sparkly eyes, happy little face, simple outlines on white, ready to color.`,
+    negative: "scary, realistic, shading, dense background",
+    aspectRatio: "3:4",
+    overlay: { placement: "bubble" },
+  },
+  {
+    id: "toddler",
+    name: "Simple shapes",
+    description: "Very simple big shapes for toddlers",
+    template: `A very simple black and white coloring page for toddlers showing {prompt}. A few large simple shapes with extra thick outlines, no small details, plain white background.`,
+    negative: "small details, busy background, text, shading",
+    aspectRatio: "3:4",
+    thermal: { dither: "threshold", thicken: 2 },
+  },
+];
+
+/**
+ * Look up a style preset by id
+ */
+export function getStyle(id: string): StylePreset | undefined {
+  return STYLE_PRESETS.find((style) => style.id === id);
+}
+
+/**
+ * Build the full image prompt for a style
+ * @param style Style preset
+ * @param prompt What was asked for
+ */
+export function buildStylePrompt(style: StylePreset, prompt: string): string {
+  const text = style.template.replaceAll("{prompt}", prompt);
+  return style.negative ? `${text}\nAvoid: ${style.negative}.` : text;
+}
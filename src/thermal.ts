@@ -0,0 +1,416 @@
+import { decodePngGray, encodePng, type GrayImage } from "./png.ts";
+
+/**
+ * How grey is turned into black and white dots
+ */
+export type DitherMethod = "threshold" | "floyd-steinberg" | "atkinson" | "ordered";
+
+export const DITHER_METHODS: DitherMethod[] = [
+  "threshold",
+  "floyd-steinberg",
+  "atkinson",
+  "ordered",
+];
+
+/**
+ * Preprocessing settings for a thermal printer
+ */
+export interface ThermalOptions {
+  /** Print head width in dots (384 = 58mm, 576 = 80mm, 832 = 4") */
+  dotWidth?: number;
+  /** Stretch the histogram so the darkest pixel is black and the lightest white (default: true) */
+  autoLevel?: boolean;
+  /** Dithering method (default: floyd-steinberg) */
+  dither?: DitherMethod;
+  /** Cut-off between black and white dots, 0-255 (default: 128) */
+  threshold?: number;
+  /** Thicken dark lines by this many dots (default: 0) */
+  thicken?: number;
+  /** Trim white margins before scaling (default: false) */
+  trimMargins?: boolean;
+}
+
+/**
+ * Thermal settings for every printer: `THERMAL_*` defaults, plus overrides
+ * keyed by CUPS printer name or backend type (`escpos`, `catprinter`, `niimbot`)
+ */
+export interface ThermalProfiles {
+  defaults?: ThermalOptions;
+  printers: Record<string, ThermalOptions>;
+}
+
+/**
+ * Crop away near-white borders, leaving a small padding
+ */
+export function trimMargins(image: GrayImage, whiteLevel: number = 245, padding: number = 4): GrayImage {
+  let top = image.height;
+  let bottom = -1;
+  let left = image.width;
+  let right = -1;
+
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      if (image.data[y * image.width + x] < whiteLevel) {
+        if (y < top) top = y;
+        if (y > bottom) bottom = y;
+        if (x < left) left = x;
+        if (x > right) right = x;
+      }
+    }
+  }
+
+  // Blank image, nothing to trim to
+  if (bottom < 0) return image;
+
+  top = Math.max(0, top - padding);
+  left = Math.max(0, left - padding);
+  bottom = Math.min(image.height - 1, bottom + padding);
+  right = Math.min(image.width - 1, right + padding);
+
+  const width = right - left + 1;
+  const height = bottom - top + 1;
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    data.set(
+      image.data.subarray((top + y) * image.width + left, (top + y) * image.width + left + width),
+      y * width
+    );
+  }
+  return { width, height, data };
+}
+
+/**
+ * Resize a grayscale image. Downscaling averages every source pixel that
+ * falls into a destination pixel so thin lines fade instead of vanishing;
+ * upscaling is bilinear.
+ */
+export function resize(image: GrayImage, width: number, height: number): GrayImage {
+  const data = new Uint8Array(width * height);
+  const scaleX = image.width / width;
+  const scaleY = image.height / height;
+
+  if (scaleX >= 1 && scaleY >= 1) {
+    for (let y = 0; y < height; y++) {
+      const y0 = Math.floor(y * scaleY);
+      const y1 = Math.max(y0 + 1, Math.floor((y + 1) * scaleY));
+      for (let x = 0; x < width; x++) {
+        const x0 = Math.floor(x * scaleX);
+        const x1 = Math.max(x0 + 1, Math.floor((x + 1) * scaleX));
+        let sum = 0;
+        for (let sy = y0; sy < y1; sy++) {
+          for (let sx = x0; sx < x1; sx++) {
+            sum += image.data[sy * image.width + sx];
+          }
+        }
+        data[y * width + x] = Math.round(sum / ((y1 - y0) * (x1 - x0)));
+      }
+    }
+    return { width, height, data };
+  }
+
+  for (let y = 0; y < height; y++) {
+    const fy = Math.min(image.height - 1, Math.max(0, (y + 0.5) * scaleY - 0.5));
+    const y0 = Math.floor(fy);
+    const y1 = Math.min(image.height - 1, y0 + 1);
+    const dy = fy - y0;
+    for (let x = 0; x < width; x++) {
+      const fx = Math.min(image.width - 1, Math.max(0, (x + 0.5) * scaleX - 0.5));
+      const x0 = Math.floor(fx);
+      const x1 = Math.min(image.width - 1, x0 + 1);
+      const dx = fx - x0;
+      const top = image.data[y0 * image.width + x0] * (1 - dx) + image.data[y0 * image.width + x1] * dx;
+      const bottom = image.data[y1 * image.width + x0] * (1 - dx) + image.data[y1 * image.width + x1] * dx;
+      data[y * width + x] = Math.round(top * (1 - dy) + bottom * dy);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Scale to a target width, keeping the aspect ratio
+ */
+export function scaleToWidth(image: GrayImage, width: number): GrayImage {
+  if (image.width === width) return image;
+  const height = Math.max(1, Math.round((image.height * width) / image.width));
+  return resize(image, width, height);
+}
+
+/**
+ * Stretch levels so the 1st percentile becomes black and the 99th white
+ */
+export function autoLevel(image: GrayImage): GrayImage {
+  const histogram = new Uint32Array(256);
+  for (const value of image.data) histogram[value]++;
+
+  const cutoff = image.data.length * 0.01;
+  let low = 0;
+  let high = 255;
+  for (let count = 0; low < 255 && count + histogram[low] <= cutoff; low++) count += histogram[low];
+  for (let count = 0; high > 0 && count + histogram[high] <= cutoff; high--) count += histogram[high];
+
+  if (high <= low) return image;
+
+  const data = new Uint8Array(image.data.length);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = Math.max(0, Math.min(255, Math.round(((image.data[i] - low) * 255) / (high - low))));
+  }
+  return { ...image, data };
+}
+
+/**
+ * Darken each pixel to the darkest value within `radius` dots,
+ * which thickens dark lines before they are dithered away
+ */
+export function thicken(image: GrayImage, radius: number): GrayImage {
+  if (radius <= 0) return image;
+  const { width, height } = image;
+
+  // Separable min filter: horizontal pass then vertical pass
+  const horizontal = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let min = 255;
+      for (let dx = Math.max(0, x - radius); dx <= Math.min(width - 1, x + radius); dx++) {
+        min = Math.min(min, image.data[y * width + dx]);
+      }
+      horizontal[y * width + x] = min;
+    }
+  }
+
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let min = 255;
+      for (let dy = Math.max(0, y - radius); dy <= Math.min(height - 1, y + radius); dy++) {
+        min = Math.min(min, horizontal[dy * width + x]);
+      }
+      data[y * width + x] = min;
+    }
+  }
+  return { width, height, data };
+}
+
+// 8x8 Bayer matrix for ordered dithering
+const BAYER_8 = [
+  0, 32, 8, 40, 2, 34, 10, 42,
+  48, 16, 56, 24, 50, 18, 58, 26,
+  12, 44, 4, 36, 14, 46, 6, 38,
+  60, 28, 52, 20, 62, 30, 54, 22,
+  3, 35, 11, 43, 1, 33, 9, 41,
+  51, 19, 59, 27, 49, 17, 57, 25,
+  15, 47, 7, 39, 13, 45, 5, 37,
+  63, 31, 55, 23, 61, 29, 53, 21,
+];
+
+// Error diffusion kernels as [dx, dy, weight]
+const DIFFUSION_KERNELS: Record<"floyd-steinberg" | "atkinson", [number, number, number][]> = {
+  "floyd-steinberg": [
+    [1, 0, 7 / 16],
+    [-1, 1, 3 / 16],
+    [0, 1, 5 / 16],
+    [1, 1, 1 / 16],
+  ],
+  // Atkinson only spreads 6/8 of the error, which keeps large areas crisp
+  atkinson: [
+    [1, 0, 1 / 8],
+    [2, 0, 1 / 8],
+    [-1, 1, 1 / 8],
+    [0, 1, 1 / 8],
+    [1, 1, 1 / 8],
+    [0, 2, 1 / 8],
+  ],
+};
+
+/**
+ * Reduce a grayscale image to pure black (0) and white (255)
+ * @param image Grayscale image
+ * @param method Dithering method
+ * @param threshold Cut-off between black and white; error diffusion rounds against it too
+ */
+export function dither(image: GrayImage, method: DitherMethod, threshold: number = 128): GrayImage {
+  const { width, height } = image;
+  const data = new Uint8Array(width * height);
+
+  if (method === "threshold") {
+    for (let i = 0; i < data.length; i++) {
+      data[i] = image.data[i] < threshold ? 0 : 255;
+    }
+  } else if (method === "ordered") {
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const limit = ((BAYER_8[(y & 7) * 8 + (x & 7)] + 0.5) * 255) / 64;
+        data[y * width + x] = image.data[y * width + x] < limit ? 0 : 255;
+      }
+    }
+  } else {
+    const kernel = DIFFUSION_KERNELS[method];
+    const values = Float32Array.from(image.data);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = y * width + x;
+        const value = values[i] < threshold ? 0 : 255;
+        const error = values[i] - value;
+        data[i] = value;
+        for (const [dx, dy, weight] of kernel) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny < height) {
+            values[ny * width + nx] += error * weight;
+          }
+        }
+      }
+    }
+  }
+
+  return { width, height, data };
+}
+
+/**
+ * Run the full thermal preprocessing pipeline on a grayscale image:
+ * trim, scale to the head width, auto-level, thicken and dither
+ * @returns Black and white image, one pixel per printer dot
+ */
+export function prepareForThermal(image: GrayImage, options: ThermalOptions = {}): GrayImage {
+  const {
+    dotWidth,
+    autoLevel: shouldAutoLevel = true,
+    dither: method = "floyd-steinberg",
+    threshold = 128,
+    thicken: thickenBy = 0,
+    trimMargins: shouldTrim = false,
+  } = options;
+
+  let result = image;
+  if (shouldTrim) result = trimMargins(result);
+  if (dotWidth) result = scaleToWidth(result, dotWidth);
+  if (shouldAutoLevel) result = autoLevel(result);
+  if (thickenBy > 0) result = thicken(result, thickenBy);
+  return dither(result, method, threshold);
+}
+
+/**
+ * Preprocess a PNG for a thermal printer
+ * @param png PNG file contents
+ * @param options Thermal settings
+ * @returns A black and white PNG
+ */
+export function preprocessPng(png: Buffer, options: ThermalOptions = {}): Buffer {
+  return encodePng(prepareForThermal(decodePngGray(png), options));
+}
+
+/**
+ * Read thermal settings from the environment. Returns undefined unless
+ * `THERMAL_DOT_WIDTH` is set.
+ * - `THERMAL_DOT_WIDTH`: print head width in dots, usually 384, 576 or 832
+ * - `THERMAL_DITHER`: threshold, floyd-steinberg, atkinson or ordered
+ * - `THERMAL_THRESHOLD`: 0-255
+ * - `THERMAL_AUTO_LEVEL`: set to `0` to disable
+ * - `THERMAL_THICKEN`: dots to thicken lines by
+ * - `THERMAL_TRIM`: set to `1` to trim white margins
+ */
+export function thermalOptionsFromEnv(env: NodeJS.ProcessEnv = process.env): ThermalOptions | undefined {
+  if (!env["THERMAL_DOT_WIDTH"]) return undefined;
+  const dotWidth = Number(env["THERMAL_DOT_WIDTH"]);
+  if (!Number.isInteger(dotWidth) || dotWidth <= 0) {
+    throw new Error(`Invalid THERMAL_DOT_WIDTH: ${env["THERMAL_DOT_WIDTH"]} (must be a whole number of dots, e.g. 384, 576 or 832)`);
+  }
+
+  const method = env["THERMAL_DITHER"] as DitherMethod | undefined;
+  if (method && !DITHER_METHODS.includes(method)) {
+    throw new Error(`Unknown THERMAL_DITHER: ${method}`);
+  }
+
+  const threshold = env["THERMAL_THRESHOLD"] ? Number(env["THERMAL_THRESHOLD"]) : undefined;
+  if (threshold !== undefined && !(threshold >= 0 && threshold <= 255)) {
+    throw new Error(`Invalid THERMAL_THRESHOLD: ${env["THERMAL_THRESHOLD"]} (must be 0-255)`);
+  }
+
+  const thicken = env["THERMAL_THICKEN"] ? Number(env["THERMAL_THICKEN"]) : 0;
+  if (!Number.isInteger(thicken) || thicken < 0) {
+    throw new Error(`Invalid THERMAL_THICKEN: ${env["THERMAL_THICKEN"]} (must be a whole number)`);
+  }
+
+  return {
+    dotWidth,
+    dither: method,
+    threshold,
+    autoLevel: env["THERMAL_AUTO_LEVEL"] !== "0",
+    thicken,
+    trimMargins: env["THERMAL_TRIM"] === "1",
+  };
+}
+
+/**
+ * Check one printer's thermal settings from `THERMAL_PRINTERS`
+ */
+function validateThermalOptions(name: string, value: unknown): ThermalOptions {
+  const invalid = (reason: string) => new Error(`Invalid THERMAL_PRINTERS: ${name}: ${reason}`);
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw invalid("expected an object");
+  }
+
+  const options = value as Record<string, unknown>;
+  const { dotWidth, dither, threshold, thicken } = options;
+  if (dotWidth !== undefined && !(Number.isInteger(dotWidth) && (dotWidth as number) > 0)) {
+    throw invalid(`dotWidth must be a positive whole number`);
+  }
+  if (dither !== undefined && !DITHER_METHODS.includes(dither as DitherMethod)) {
+    throw invalid(`unknown dither ${JSON.stringify(dither)}`);
+  }
+  if (threshold !== undefined && !(typeof threshold === "number" && threshold >= 0 && threshold <= 255)) {
+    throw invalid(`threshold must be 0-255`);
+  }
+  if (thicken !== undefined && !(Number.isInteger(thicken) && (thicken as number) >= 0)) {
+    throw invalid(`thicken must be a whole number`);
+  }
+  for (const flag of ["autoLevel", "trimMargins"]) {
+    if (options[flag] !== undefined && typeof options[flag] !== "boolean") {
+      throw invalid(`${flag} must be true or false`);
+    }
+  }
+  return options as ThermalOptions;
+}
+
+/**
+ * Read per-printer thermal settings from the environment:
+ * - `THERMAL_*`: defaults for every printer (see `thermalOptionsFromEnv`)
+ * - `THERMAL_PRINTERS`: JSON overrides by CUPS printer name or backend type,
+ *   e.g. `{"Zebra_ZD421":{"dotWidth":832,"threshold":150},"escpos":{"dither":"atkinson"}}`
+ */
+export function thermalProfilesFromEnv(env: NodeJS.ProcessEnv = process.env): ThermalProfiles {
+  const printers: Record<string, ThermalOptions> = {};
+
+  if (env["THERMAL_PRINTERS"]) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(env["THERMAL_PRINTERS"]);
+    } catch (error) {
+      throw new Error(
+        `Invalid THERMAL_PRINTERS: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error("Invalid THERMAL_PRINTERS: expected an object keyed by printer");
+    }
+    for (const [name, value] of Object.entries(parsed)) {
+      printers[name] = validateThermalOptions(name, value);
+    }
+  }
+
+  return { defaults: thermalOptionsFromEnv(env), printers };
+}
+
+/**
+ * Thermal settings for one printer: its overrides on top of the defaults
+ * @param profiles All thermal settings
+ * @param printer CUPS printer name or backend type
+ * @returns The settings, or undefined if neither defaults nor overrides apply
+ */
+export function thermalOptionsForPrinter(
+  profiles: ThermalProfiles,
+  printer: string
+): ThermalOptions | undefined {
+  const overrides = profiles.printers[printer];
+  if (!profiles.defaults && !overrides) return undefined;
+  return { ...profiles.defaults, ...overrides };
+}
@@ -0,0 +1,199 @@
+import OpenAI, { toFile } from "openai";
+import { decodeWav, decodeWithFfmpeg, resample, WHISPER_SAMPLE_RATE } from "./audio.ts";
+import { guessLanguage, languageCode } from "./language.ts";
+
+/**
+ * Turns recorded speech into text
+ */
+export interface Transcriber {
+  /** Transcriber type, for logs (`openai`, `local`) */
+  readonly type: string;
+  /**
+   * Load anything slow (e.g. a model) ahead of the first request
+   */
+  prepare?(): Promise<void>;
+  /**
+   * @param audio Audio file contents (WAV, or anything ffmpeg reads)
+   * @param options File name and type as uploaded, language, and a signal to abort with
+   * @returns What was said, and in which language
+   */
+  transcribe(audio: Buffer, options?: TranscribeOptions): Promise<Transcript>;
+}
+
+/**
+ * What was said
+ */
+export interface Transcript {
+  text: string;
+  /** Language code, as asked for or detected (undefined if unknown) */
+  language?: string;
+}
+
+/**
+ * Details of an audio upload
+ */
+export interface TranscribeOptions {
+  /** File name, used by OpenAI to tell the format (default: recording.webm) */
+  filename?: string;
+  /** MIME type as uploaded (e.g. audio/webm) */
+  mimeType?: string;
+  /** Language code of the speech (default: detect it) */
+  language?: string;
+  /** Aborts the request (e.g. on timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * OpenAI Whisper API
+ */
+export class OpenAITranscriber implements Transcriber {
+  readonly type = "openai";
+
+  constructor(private openai: OpenAI, private model: string = "whisper-1") {}
+
+  async transcribe(audio: Buffer, options: TranscribeOptions = {}): Promise<Transcript> {
+    const file = await toFile(audio, options.filename || "recording.webm", { type: options.mimeType });
+    // Retries are left to the caller
+    const requestOptions = { signal: options.signal, maxRetries: 0 };
+
+    if (options.language) {
+      const transcription = await this.openai.audio.transcriptions.create(
+        { file, model: this.model, language: options.language },
+        requestOptions
+      );
+      return { text: transcription.text, language: options.language };
+    }
+
+    // Only whisper-1 reports the language it heard
+    if (this.model.startsWith("whisper")) {
+      const transcription = await this.openai.audio.transcriptions.create(
+        { file, model: this.model, response_format: "verbose_json" },
+        requestOptions
+      );
+      return {
+        text: transcription.text,
+        language: languageCode(transcription.language) ?? guessLanguage(transcription.text),
+      };
+    }
+
+    const transcription = await this.openai.audio.transcriptions.create({ file, model: this.model }, requestOptions);
+    return { text: transcription.text, language: guessLanguage(transcription.text) };
+  }
+}
+
+/**
+ * Options for the local Whisper model
+ */
+export interface LocalWhisperOptions {
+  /** Hugging Face model id (default: Xenova/whisper-base; English-only models end in `.en`) */
+  model?: string;
+  /** Where downloaded models are kept (default: the library's own cache) */
+  cacheDir?: string;
+  /** ffmpeg binary for non-WAV audio (default: ffmpeg on the PATH) */
+  ffmpegPath?: string;
+}
+
+type SpeechRecognizer = (
+  audio: Float32Array,
+  options?: Record<string, unknown>
+) => Promise<{ text: string } | { text: string }[]>;
+
+/**
+ * Whisper running on the CPU through @huggingface/transformers. Audio never
+ * leaves the machine; the model is downloaded once and then cached. The
+ * default model is multilingual; `.en` models are smaller but English-only.
+ */
+export class LocalWhisperTranscriber implements Transcriber {
+  readonly type = "local";
+  private loading: Promise<SpeechRecognizer> | null = null;
+  private model: string;
+
+  constructor(private options: LocalWhisperOptions = {}) {
+    this.model = options.model ?? "Xenova/whisper-base";
+  }
+
+  prepare(): Promise<void> {
+    return this.load().then(() => undefined);
+  }
+
+  async transcribe(audio: Buffer, options: TranscribeOptions = {}): Promise<Transcript> {
+    const recognizer = await this.load();
+    const samples = await this.decode(audio);
+    if (samples.length === 0) {
+      return { text: "", language: options.language };
+    }
+
+    // Clips longer than Whisper's 30 second window are read in chunks.
+    // English-only models take no language.
+    const isMultilingual = !this.model.endsWith(".en");
+    const result = await recognizer(samples, {
+      chunk_length_s: 30,
+      stride_length_s: 5,
+      ...(isMultilingual && options.language ? { language: options.language, task: "transcribe" } : {}),
+    });
+    const text = (Array.isArray(result) ? result.map((part) => part.text).join(" ") : result.text).trim();
+    // The pipeline doesn't say which language it detected
+    return { text, language: isMultilingual ? (options.language ?? guessLanguage(text)) : "en" };
+  }
+
+  private async decode(audio: Buffer): Promise<Float32Array> {
+    if (audio.toString("ascii", 0, 4) === "RIFF") {
+      return resample(decodeWav(audio), WHISPER_SAMPLE_RATE);
+    }
+    return decodeWithFfmpeg(audio, this.options.ffmpegPath ?? "ffmpeg");
+  }
+
+  private load(): Promise<SpeechRecognizer> {
+    this.loading ??= (async () => {
+      console.log(`🧠 Loading local Whisper model ${this.model}...`);
+      // Imported here so the OpenAI-only setup never loads the ONNX runtime
+      const { pipeline, env } = await import("@huggingface/transformers");
+      if (this.options.cacheDir) {
+        env.cacheDir = this.options.cacheDir;
+      }
+      const recognizer = await pipeline("automatic-speech-recognition", this.model);
+      console.log(`🧠 Local Whisper model ready`);
+      return recognizer as unknown as SpeechRecognizer;
+    })().catch((error) => {
+      // Let the next request try again (e.g. once the network is back)
+      this.loading = null;
+      throw new Error(
+        `Failed to load Whisper model ${this.model}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
+    return this.loading;
+  }
+}
+
+/**
+ * Create the transcriber described by the environment:
+ * - `TRANSCRIBER`: `openai` or `local` (default: openai when `OPENAI_API_KEY`
+ *   is set, otherwise local)
+ * - `OPENAI_TRANSCRIBE_MODEL`: model for `openai` (default: whisper-1)
+ * - `LOCAL_WHISPER_MODEL`: Hugging Face model for `local` (default: Xenova/whisper-tiny.en
+ *   when `TRANSCRIPTION_LANGUAGE` is `en`, otherwise the multilingual Xenova/whisper-base)
+ * - `LOCAL_WHISPER_CACHE`: directory for downloaded models
+ * - `FFMPEG_PATH`: ffmpeg binary, used by `local` for non-WAV audio
+ * @param openai Client for the `openai` transcriber
+ */
+export function createTranscriber(openai: OpenAI, env: NodeJS.ProcessEnv = process.env): Transcriber {
+  const hasKey = Boolean(env["OPENAI_API_KEY"]);
+  let type = env["TRANSCRIBER"] || (hasKey ? "openai" : "local");
+
+  if (type === "openai" && !hasKey) {
+    console.warn(`⚠️ TRANSCRIBER=openai but OPENAI_API_KEY is not set, using local Whisper`);
+    type = "local";
+  }
+
+  if (type === "openai") {
+    return new OpenAITranscriber(openai, env["OPENAI_TRANSCRIBE_MODEL"] || undefined);
+  }
+  if (type === "local") {
+    return new LocalWhisperTranscriber({
+      model: env["LOCAL_WHISPER_MODEL"] || (env["TRANSCRIPTION_LANGUAGE"] === "en" ? "Xenova/whisper-tiny.en" : undefined),
+      cacheDir: env["LOCAL_WHISPER_CACHE"] || undefined,
+      ffmpegPath: env["FFMPEG_PATH"] || undefined,
+    });
+  }
+  throw new Error(`Unknown TRANSCRIBER: ${type}`);
+}
@@ -0,0 +1,156 @@
+import OpenAI from "openai";
+import { LANGUAGE_NAMES } from "./language.ts";
+import { callOptionsFromEnv, GENERATION_CODES, resilientCall, type CallOptions } from "./resilience.ts";
+
+/**
+ * Translates what a child said into English for the image model
+ */
+export interface PromptTranslator {
+  /** Translator type, for logs */
+  readonly type: string;
+  /**
+   * Load anything slow (e.g. a model) for a language ahead of the first request
+   */
+  prepare?(language: string): Promise<void>;
+  /**
+   * @param text Transcript or typed prompt
+   * @param language Language code of the text
+   * @returns The same idea in English
+   */
+  translate(text: string, language: string): Promise<string>;
+}
+
+/**
+ * Translates with an OpenAI chat model
+ */
+export class OpenAITranslator implements PromptTranslator {
+  readonly type = "openai";
+
+  /**
+   * @param openai OpenAI client
+   * @param model Chat model (default: gpt-4o-mini)
+   * @param callOptions Time limit and retries for each translation
+   */
+  constructor(private openai: OpenAI, private model: string = "gpt-4o-mini", private callOptions: CallOptions = {}) {}
+
+  async translate(text: string, language: string): Promise<string> {
+    const response = await resilientCall(
+      "translation",
+      (signal) =>
+        this.openai.chat.completions.create(
+          {
+            model: this.model,
+            temperature: 0,
+            response_format: { type: "json_object" },
+            messages: [
+              {
+                role: "system",
+                content:
+                  `A young child spoke an idea for a coloring-page sticker in ${LANGUAGE_NAMES[language] ?? language}. ` +
+                  "Translate it into natural English. Keep the idea exactly as it is; do not add or explain anything. " +
+                  'Answer with JSON: {"prompt": string}.',
+              },
+              { role: "user", content: text },
+            ],
+          },
+          { signal }
+        ),
+      this.callOptions,
+      GENERATION_CODES
+    );
+
+    const content = response.choices[0]?.message?.content;
+    const translated = content ? (JSON.parse(content) as { prompt?: string }).prompt?.trim() : undefined;
+    if (!translated) {
+      throw new Error("Empty translation");
+    }
+    return translated;
+  }
+}
+
+type TextTranslator = (text: string) => Promise<{ translation_text: string }[] | { translation_text: string }>;
+
+/**
+ * Translates on the CPU with a small model per language through
+ * @huggingface/transformers (Opus-MT by default), downloaded once and then cached
+ */
+export class LocalTranslator implements PromptTranslator {
+  readonly type = "local";
+  private loading = new Map<string, Promise<TextTranslator>>();
+
+  /**
+   * @param modelTemplate Model id, with `{from}` for the language code
+   * @param cacheDir Where downloaded models are kept (default: the library's own cache)
+   */
+  constructor(private modelTemplate: string = "Xenova/opus-mt-{from}-en", private cacheDir?: string) {}
+
+  async prepare(language: string): Promise<void> {
+    await this.load(language);
+  }
+
+  async translate(text: string, language: string): Promise<string> {
+    const translator = await this.load(language);
+    const result = await translator(text);
+    const translated = (Array.isArray(result) ? result[0]?.translation_text : result.translation_text)?.trim();
+    if (!translated) {
+      throw new Error("Empty translation");
+    }
+    return translated;
+  }
+
+  private load(language: string): Promise<TextTranslator> {
+    let loading = this.loading.get(language);
+    if (!loading) {
+      const model = this.modelTemplate.replaceAll("{from}", language);
+      loading = (async () => {
+        console.log(`🧠 Loading translation model ${model}...`);
+        const { pipeline, env } = await import("@huggingface/transformers");
+        if (this.cacheDir) {
+          env.cacheDir = this.cacheDir;
+        }
+        const translator = await pipeline("translation", model);
+        console.log(`🧠 Translation model ${model} ready`);
+        return translator as unknown as TextTranslator;
+      })().catch((error) => {
+        // Let the next request try again (e.g. once the network is back)
+        this.loading.delete(language);
+        throw new Error(
+          `Failed to load translation model ${model}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      });
+      this.loading.set(language, loading);
+    }
+    return loading;
+  }
+}
+
+/**
+ * Create the translator described by the environment:
+ * - `TRANSLATOR`: `openai`, `local` or `none` (default: openai when
+ *   `OPENAI_API_KEY` is set, otherwise local)
+ * - `TRANSLATOR_MODEL`: chat model for `openai` (default: gpt-4o-mini), or
+ *   model id for `local` with `{from}` for the language (default: Xenova/opus-mt-{from}-en)
+ * - `TRANSLATOR_TIMEOUT_MS`, `TRANSLATOR_RETRIES`: time limit and retries for
+ *   each `openai` translation (default: 10000 and 1)
+ * - `LOCAL_WHISPER_CACHE`: directory for downloaded models, shared with local Whisper
+ * @param openai Client for the `openai` translator
+ * @returns The translator, or undefined when disabled
+ */
+export function createTranslator(openai: OpenAI, env: NodeJS.ProcessEnv = process.env): PromptTranslator | undefined {
+  const type = env["TRANSLATOR"] || (env["OPENAI_API_KEY"] ? "openai" : "local");
+
+  if (type === "none") {
+    return undefined;
+  }
+  if (type === "openai") {
+    return new OpenAITranslator(
+      openai,
+      env["TRANSLATOR_MODEL"] || undefined,
+      callOptionsFromEnv("TRANSLATOR", { timeoutMs: 10000, retries: 1 }, env)
+    );
+  }
+  if (type === "local") {
+    return new LocalTranslator(env["TRANSLATOR_MODEL"] || undefined, env["LOCAL_WHISPER_CACHE"] || undefined);
+  }
+  throw new Error(`Unknown TRANSLATOR: ${type}`);
+}
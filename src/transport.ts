@@ -0,0 +1,189 @@
+import * as fs from "node:fs";
+import * as net from "node:net";
+import { runCommand } from "./runner.ts";
+
+/**
+ * A raw byte sink for printers we talk to directly (no CUPS)
+ */
+export interface PrinterTransport {
+  /** Human readable description of where the bytes go */
+  readonly description: string;
+  write(data: Uint8Array): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Write bytes to a file or character device (e.g. /dev/usb/lp0)
+ * @param filePath Path to the device or output file
+ */
+export async function openFileTransport(filePath: string): Promise<PrinterTransport> {
+  const handle = await fs.promises.open(filePath, "w");
+
+  return {
+    description: filePath,
+    async write(data) {
+      await handle.write(data);
+    },
+    async close() {
+      await handle.close();
+    },
+  };
+}
+
+/**
+ * Write bytes to a serial port after configuring its baud rate with stty
+ * @param devicePath Serial device (e.g. /dev/ttyUSB0)
+ * @param baudRate Baud rate (default: 9600)
+ */
+export async function openSerialTransport(
+  devicePath: string,
+  baudRate: number = 9600
+): Promise<PrinterTransport> {
+  try {
+    await runCommand("stty", ["-F", devicePath, String(baudRate), "raw", "-echo"]);
+  } catch (error) {
+    throw new Error(
+      `Failed to configure serial port: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const transport = await openFileTransport(devicePath);
+  return { ...transport, description: `${devicePath} @ ${baudRate} baud` };
+}
+
+/**
+ * Write bytes to a raw TCP socket (JetDirect / port 9100)
+ * @param host Printer host name or IP
+ * @param port TCP port (default: 9100)
+ * @param timeout Connection timeout in ms (default: 5000)
+ */
+export function openTcpTransport(
+  host: string,
+  port: number = 9100,
+  timeout: number = 5000
+): Promise<PrinterTransport> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(timeout, () => {
+      socket.destroy(new Error(`Connection to ${host}:${port} timed out`));
+    });
+    socket.once("error", reject);
+    socket.once("connect", () => {
+      socket.setTimeout(0);
+      socket.off("error", reject);
+
+      // The printer can drop the connection at any time (ECONNRESET, EPIPE):
+      // fail the writes in flight instead of crashing on an unhandled 'error'
+      let failure: Error | undefined;
+      const pending = new Set<(error: Error) => void>();
+      socket.on("error", (error) => {
+        failure = error;
+        for (const fail of pending) fail(error);
+        pending.clear();
+        socket.destroy();
+      });
+
+      resolve({
+        description: `tcp://${host}:${port}`,
+        write(data) {
+          return new Promise((done, fail) => {
+            if (failure || socket.destroyed) {
+              fail(failure ?? new Error(`Connection to ${host}:${port} is closed`));
+              return;
+            }
+            pending.add(fail);
+            socket.write(data, (error) => {
+              pending.delete(fail);
+              if (error) fail(error);
+              else done();
+            });
+          });
+        },
+        close() {
+          return new Promise((done) => {
+            if (socket.destroyed) {
+              done();
+              return;
+            }
+            socket.once("close", () => done());
+            socket.end();
+          });
+        },
+      });
+    });
+  });
+}
+
+/**
+ * Collect written bytes in memory
+ */
+export function createMemoryTransport(): PrinterTransport & { bytes(): Buffer } {
+  const chunks: Buffer[] = [];
+
+  return {
+    description: "memory",
+    async write(data) {
+      chunks.push(Buffer.from(data));
+    },
+    async close() {},
+    bytes() {
+      return Buffer.concat(chunks);
+    },
+  };
+}
+
+/**
+ * Send bytes over a BLE GATT characteristic. Each write is split to the
+ * link MTU and paced, since cheap BLE printers drop data when flooded.
+ * @param writeCharacteristic Writes one chunk (from noble, Web Bluetooth, etc.)
+ * @param options MTU payload size (default: 20) and delay between chunks in ms (default: 10)
+ */
+export function createBleTransport(
+  writeCharacteristic: (chunk: Uint8Array) => Promise<void>,
+  options: { mtu?: number; delay?: number; description?: string; disconnect?: () => Promise<void> } = {}
+): PrinterTransport {
+  const { mtu = 20, delay = 10, description = "ble", disconnect } = options;
+
+  return {
+    description,
+    async write(data) {
+      for (let offset = 0; offset < data.length; offset += mtu) {
+        await writeCharacteristic(data.subarray(offset, offset + mtu));
+        if (delay > 0) {
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    },
+    async close() {
+      await disconnect?.();
+    },
+  };
+}
+
+/**
+ * Open a transport from a target string:
+ * - `tcp://host:9100` for network printers
+ * - `serial:/dev/ttyUSB0?baud=19200` for serial printers
+ * - `file:/path/to/out.bin` or a plain path (e.g. `/dev/usb/lp0`)
+ * @param target Target string
+ */
+export async function openTransport(target: string): Promise<PrinterTransport> {
+  if (target.startsWith("tcp://")) {
+    const url = new URL(target);
+    return openTcpTransport(url.hostname, url.port ? Number(url.port) : 9100);
+  }
+
+  if (target.startsWith("serial:")) {
+    const [devicePath, query = ""] = target.slice("serial:".length).split("?");
+    const baud = new URLSearchParams(query).get("baud");
+    return openSerialTransport(devicePath, baud ? Number(baud) : undefined);
+  }
+
+  if (target.startsWith("file:")) {
+    return openFileTransport(target.slice("file:".length));
+  }
+
+  return openFileTransport(target);
+}
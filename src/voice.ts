@@ -0,0 +1,537 @@
+import * as fs from "node:fs";
+import { STYLE_PRESETS, type StylePreset } from "./styles.ts";
+
+/**
+ * What a spoken request asks for:
+ * - `generate`: draw `prompt`
+ * - `cancel`: do nothing ("cancel", "never mind", or nothing said)
+ * - `reprint`: print the sticker on screen again ("print that again", "two more")
+ * - `redraw`: draw the last idea again with new settings ("make it a mandala")
+ */
+export type VoiceAction = "generate" | "cancel" | "reprint" | "redraw";
+
+/**
+ * Sticker size asked for, as used by the printer routing rules
+ */
+export type VoiceSize = "small" | "large";
+
+/**
+ * A transcript split into an intent and the idea to draw
+ */
+export interface VoiceCommand {
+  action: VoiceAction;
+  /** What to draw, with the command words taken out ("" unless `generate`) */
+  prompt: string;
+  /** Copies to print ("print two of them") */
+  copies?: number;
+  /** Style preset id ("make it a mandala") */
+  style?: string;
+  /** "bigger" or "smaller" */
+  size?: VoiceSize;
+  /** Command phrases that were recognised, for logs */
+  matched: string[];
+}
+
+/**
+ * Phrase lists for one language. Phrases match whole words, ignoring case
+ * and punctuation. `(a|b)` matches either word, `{n}` a number and `{style}`
+ * a style name. Phrases starting with `^` only match when they are all that
+ * is left of the transcript, so "again" doesn't eat "a dragon again".
+ * Phrases ending with `$` only match at the end of a sentence or before a
+ * connector, so "two of those" doesn't eat "two of those dogs".
+ */
+export interface VoicePhrases {
+  cancel: string[];
+  reprint: string[];
+  copies: string[];
+  style: string[];
+  bigger: string[];
+  smaller: string[];
+  /** Number words for `{n}` */
+  numbers: Record<string, number>;
+  /** Words left dangling at either end once a command is taken out ("and", "please") */
+  connectors: string[];
+  /** Extra names for styles, by style id (style ids and names always match) */
+  styleNames?: Record<string, string[]>;
+  /** Whether words are separated by spaces (default: true); if not, phrases match anywhere */
+  spaced?: boolean;
+}
+
+/**
+ * Built-in phrases, by language code
+ */
+export const VOICE_PHRASES: Record<string, VoicePhrases> = {
+  en: {
+    cancel: [
+      "cancel", "abort", "start over", "never mind", "nevermind", "forget it",
+      "no sticker", "no image", "no picture", "blank audio", "^nothing", "^no",
+    ],
+    reprint: [
+      "^print (that|it|this) again", "^(do|make) (that|it) again", "^print again", "^reprint (that|it|this)",
+      "^reprint", "^again", "^another one", "^another copy", "^print another one", "^one more", "^same again",
+      "^print {n} more", "^{n} more copies", "^{n} more",
+    ],
+    copies: [
+      "print {n} of (them|it)", "print {n} of (those|these|that)$", "make {n} of (them|it)",
+      "make {n} of (those|these)$", "{n} copies of (it|them)", "{n} copies of (that|this)$", "{n} copies of",
+      "{n} copies", "{n} of them", "{n} of (those|these)$",
+    ],
+    style: [
+      "make it (a|an) {style}", "make it {style}", "make (a|an) {style} of", "(as|like) (a|an) {style}",
+      "in (a|an) {style} style", "in {style} style", "{style} style", "(a|an) {style} of",
+    ],
+    bigger: [
+      "(make|print|draw|do) (it|that|them|one) (bigger|larger)", "(a|the) (bigger|larger) one",
+      "(bigger|larger) one", "(bigger|larger) please", "(but|and) (bigger|larger)", "^(bigger|larger)",
+    ],
+    smaller: [
+      "(make|print|draw|do) (it|that|them|one) (smaller|tinier|littler)", "(a|the) (smaller|tinier|littler) one",
+      "(smaller|tinier|littler) one", "(smaller|tinier) please", "(but|and) (smaller|tinier)", "^(smaller|tinier)",
+    ],
+    numbers: { one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10 },
+    connectors: ["and then", "and", "but", "then", "please", "now", "okay", "ok", "so", "oh", "can you", "could you"],
+    styleNames: {
+      "coloring-page": ["colouring page"],
+      "toddler": ["simple"],
+    },
+  },
+  es: {
+    cancel: [
+      "cancela", "cancelar", "cancelado", "olvídalo", "olvidalo", "empieza de nuevo", "ninguna pegatina",
+      "sin pegatina", "no quiero nada", "^nada", "^no",
+    ],
+    reprint: [
+      "^(imprime|imprímelo|imprímela|imprimelo|imprimela) (otra vez|de nuevo)", "^(otra vez|de nuevo)",
+      "^(otra|otro) (más|mas|igual)", "^(otra|otro)", "^(una|uno) (más|mas)", "^{n} (más|mas)",
+    ],
+    copies: [
+      "imprime {n} de (ellos|ellas)", "imprime {n} de (esos|esas)$", "{n} copias de (eso|esto|ello)", "{n} copias de",
+      "{n} copias",
+    ],
+    style: [
+      "(hazlo|hazla) (un|una) {style}", "(hazlo|hazla) {style}", "(como|en) (un|una) {style}",
+      "en estilo {style}", "estilo {style}", "(un|una) {style} de",
+    ],
+    bigger: [
+      "(hazlo|hazla|imprímelo|imprímela|imprimelo|imprimela) (más|mas) grande", "^(más|mas) grande",
+    ],
+    smaller: [
+      "(hazlo|hazla|imprímelo|imprímela|imprimelo|imprimela) (más|mas) (pequeño|pequeña|pequeno|pequena|chico|chica)",
+      "^(más|mas) (pequeño|pequeña|pequeno|pequena|chico|chica)",
+    ],
+    numbers: { uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8, nueve: 9, diez: 10 },
+    connectors: ["y luego", "y", "pero", "luego", "por favor", "ahora", "vale", "puedes", "podrías", "podrias"],
+    styleNames: {
+      "coloring-page": ["dibujo para colorear", "página para colorear", "pagina para colorear"],
+      "dot-to-dot": ["unir los puntos", "une los puntos"],
+      "pixel-art": ["píxeles", "pixeles"],
+      "bold-outline": ["contorno grueso"],
+      "toddler": ["formas simples", "sencillo"],
+    },
+  },
+  fr: {
+    cancel: [
+      "annule", "annuler", "laisse tomber", "on recommence", "recommence", "pas d'autocollant",
+      "^rien", "^non",
+    ],
+    reprint: [
+      "^(imprime|réimprime) (le|la|ça|ca) (encore|à nouveau|a nouveau)", "^(imprime|réimprime) (le|la|ça|ca)",
+      "^réimprime", "^encore (un|une)", "^encore", "^(un|une) autre", "^encore {n}", "^{n} de plus",
+    ],
+    copies: [
+      "imprime (en|les) {n}", "{n} copies de (ça|ca|ceci)", "{n} copies (de|d)", "{n} copies", "{n} exemplaires",
+    ],
+    style: [
+      "(fais le|fais la|fais en) (un|une) {style}", "(fais le|fais la) en {style}", "(comme|en) (un|une) {style}",
+      "en style {style}", "style {style}", "(un|une) {style} (de|d)",
+    ],
+    bigger: [
+      "(fais le|fais la|imprime le|imprime la) plus (grand|grande)", "^plus (grand|grande)", "^en plus (grand|grande)",
+    ],
+    smaller: [
+      "(fais le|fais la|imprime le|imprime la) plus (petit|petite)", "^plus (petit|petite)", "^en plus (petit|petite)",
+    ],
+    numbers: { un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8, neuf: 9, dix: 10 },
+    connectors: ["et puis", "et", "mais", "puis", "s'il te plaît", "s'il te plait", "maintenant", "alors", "tu peux"],
+    styleNames: {
+      "coloring-page": ["coloriage"],
+      "dot-to-dot": ["points à relier", "points a relier"],
+      "bold-outline": ["contour épais", "contour epais"],
+      "toddler": ["formes simples"],
+    },
+  },
+  ja: {
+    // Written without spaces, so phrases match inside longer text
+    spaced: false,
+    cancel: [
+      "キャンセル", "やめて", "やっぱりやめ", "やっぱりいい", "もういい", "なしで", "取り消し", "とりけし",
+      "^いいえ", "^なし", "^いらない",
+    ],
+    reprint: [
+      "^(もう一回|もういっかい|もう一度|もういちど) (印刷して|いんさつして|ちょうだい|おねがい)",
+      "^(もう一回|もういっかい|もう一度|もういちど)", "^(もう一枚|もういちまい)", "^同じの", "^おなじの",
+      "^(もう|あと) {n} (枚|まい)", "^{n} (枚|まい) (追加|ついか)",
+    ],
+    copies: [
+      "(もう|あと) {n} (枚|まい)", "{n} (枚|まい) (印刷して|いんさつして|ちょうだい|ください|ほしい)", "{n} (枚|まい)",
+    ],
+    style: [
+      "{style} (に|で) (して|しよう)", "{style} (風|ふう) (に|で|の)", "{style} (風|ふう)",
+      "{style} (みたい|スタイル) (に|で)", "{style} スタイル",
+    ],
+    bigger: [
+      "(もっと大きく|もっとおおきく|大きく|おおきく) (して|印刷して|いんさつして)",
+      "^(もっと大きく|もっとおおきく|大きく|おおきく)",
+    ],
+    smaller: [
+      "(もっと小さく|もっとちいさく|小さく|ちいさく) (して|印刷して|いんさつして)",
+      "^(もっと小さく|もっとちいさく|小さく|ちいさく)",
+    ],
+    numbers: {
+      一: 1, 二: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9, 十: 10,
+      いち: 1, に: 2, さん: 3, よん: 4, ご: 5, ろく: 6, なな: 7, はち: 8, きゅう: 9, じゅう: 10,
+    },
+    // Only words that can't start or end a noun, as there are no spaces to go by
+    connectors: ["ください", "おねがい", "お願い", "それで", "それから", "を"],
+    styleNames: {
+      "coloring-page": ["ぬりえ", "塗り絵"],
+      "bold-outline": ["太い線", "ふとい線"],
+      "mandala": ["曼荼羅", "まんだら", "マンダラ"],
+      "dot-to-dot": ["点つなぎ", "てんつなぎ"],
+      "pixel-art": ["ドット絵", "ドットえ", "ピクセルアート"],
+      "kawaii": ["かわいい", "カワイイ"],
+      "toddler": ["シンプル"],
+    },
+  },
+};
+
+export const VOICE_LANGUAGES = Object.keys(VOICE_PHRASES);
+
+// Anything that isn't part of a word separates words
+const SEPARATOR = "[^\\p{L}\\p{N}]+";
+const WORD_START = "(?<![\\p{L}\\p{N}])";
+const WORD_END = "(?![\\p{L}\\p{N}])";
+
+/**
+ * How words in a phrase are told apart: by spaces and punctuation, or (for
+ * languages written without spaces) not at all
+ */
+interface WordBoundaries {
+  separator: string;
+  start: string;
+  end: string;
+}
+
+const SPACED: WordBoundaries = { separator: SEPARATOR, start: WORD_START, end: WORD_END };
+const UNSPACED: WordBoundaries = { separator: "[^\\p{L}\\p{N}]*", start: "", end: "" };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Alternation of phrases as a regex source, longest first so "pixel art"
+ * wins over "pixel"
+ */
+function alternatives(phrases: string[], boundaries: WordBoundaries = SPACED): string {
+  return [...phrases]
+    .sort((a, b) => b.length - a.length)
+    .map((phrase) => phrase.trim().split(/\s+/).map(escapeRegExp).join(boundaries.separator))
+    .join("|");
+}
+
+type PhraseCategory = "cancel" | "reprint" | "copies" | "style" | "bigger" | "smaller";
+
+/**
+ * One category's phrases as regexes: free-standing ones, and `^` ones that
+ * must make up the whole remaining text
+ */
+interface CompiledPhrases {
+  anywhere?: RegExp;
+  whole?: RegExp;
+}
+
+/**
+ * Parses transcripts into commands, in one language
+ */
+export class VoiceGrammar {
+  private categories: Record<PhraseCategory, CompiledPhrases>;
+  private connectors: RegExp;
+  private number: RegExp;
+  private styleName: RegExp;
+  private styleIds = new Map<string, string>();
+
+  /**
+   * @param phrases Phrase lists for the language
+   * @param styles Styles that can be asked for by name
+   * @param maxCopies Most copies a command may ask for (larger numbers are capped)
+   */
+  constructor(private phrases: VoicePhrases, styles: StylePreset[] = STYLE_PRESETS, private maxCopies: number = 10) {
+    for (const style of styles) {
+      for (const name of [style.id, style.id.replaceAll("-", " "), style.name, ...(phrases.styleNames?.[style.id] ?? [])]) {
+        this.styleIds.set(this.key(name), style.id);
+      }
+    }
+    const styleNames = [...this.styleIds.keys()];
+    const numberWords = Object.keys(phrases.numbers);
+    const words = phrases.spaced === false ? UNSPACED : SPACED;
+    const { start, end } = words;
+
+    this.styleName = new RegExp(`${start}(?:${alternatives(styleNames, words)})${end}`, "iu");
+    this.number = new RegExp(`${start}(?:\\d+|${alternatives(numberWords, words)})${end}`, "iu");
+    const connectors = alternatives(phrases.connectors, words);
+    this.connectors = new RegExp(
+      `^(?:${SEPARATOR}|(?:${connectors})${end})+|(?:${SEPARATOR}|${start}(?:${connectors}))+$`,
+      "giu"
+    );
+    // What may follow a `$` phrase: the end, punctuation or a connector
+    const sentenceEnd = `(?=[^\\p{L}\\p{N},.;:!?]*(?:$|[,.;:!?]|(?:${connectors})${end}))`;
+
+    const compile = (list: string[]): CompiledPhrases => {
+      const toSource = (phrase: string): string => {
+        if (phrase.endsWith("$")) {
+          return `${toSource(phrase.slice(0, -1))}${end}${sentenceEnd}`;
+        }
+        return phrase
+          .trim()
+          .split(/\s+/)
+          .map((word) =>
+            word
+              .split(/(\(|\)|\||\{n\}|\{style\})/)
+              .map((part) => {
+                if (part === "(") return "(?:";
+                if (part === ")" || part === "|") return part;
+                if (part === "{n}") return `(?:\\d+|${alternatives(numberWords, words)})`;
+                if (part === "{style}") return `(?:${alternatives(styleNames, words)})`;
+                return escapeRegExp(part);
+              })
+              .join("")
+          )
+          // Groups may hold several words ("(otra vez|de nuevo)"), which this joins too
+          .join(words.separator);
+      };
+      const anywhere = list.filter((phrase) => !phrase.startsWith("^")).map(toSource);
+      const whole = list.filter((phrase) => phrase.startsWith("^")).map((phrase) => toSource(phrase.slice(1)));
+      return {
+        anywhere: anywhere.length
+          ? new RegExp(`${start}(?:${anywhere.join("|")})${end}`, "giu")
+          : undefined,
+        whole: whole.length
+          ? new RegExp(`^[^\\p{L}\\p{N}]*(?:${whole.join("|")})[^\\p{L}\\p{N}]*$`, "iu")
+          : undefined,
+      };
+    };
+
+    this.categories = {
+      cancel: compile(phrases.cancel),
+      reprint: compile(phrases.reprint),
+      copies: compile(phrases.copies),
+      style: compile(phrases.style),
+      bigger: compile(phrases.bigger),
+      smaller: compile(phrases.smaller),
+    };
+  }
+
+  /**
+   * Work out what a transcript asks for
+   * @param transcript What was said
+   */
+  parse(transcript: string): VoiceCommand {
+    // Whisper writes apostrophes either way
+    let text = transcript.replace(/[‘’]/g, "'").trim();
+    const matched: string[] = [];
+    const settings: Pick<VoiceCommand, "copies" | "style" | "size"> = {};
+
+    const take = (category: PhraseCategory, whole: boolean): string | undefined => {
+      const regex = whole ? this.categories[category].whole : this.categories[category].anywhere;
+      if (!regex) return undefined;
+
+      let found: string | undefined;
+      text = text.replace(regex, (match) => {
+        found ??= match;
+        matched.push(match.trim());
+        return whole ? "" : " ";
+      });
+      text = this.tidy(text);
+      return found;
+    };
+
+    const apply = (whole: boolean): boolean => {
+      if (take("cancel", whole) !== undefined) return true;
+
+      const style = take("style", whole);
+      if (style !== undefined) {
+        settings.style = this.findStyle(style);
+      }
+      const copies = take("copies", whole);
+      if (copies !== undefined) {
+        settings.copies = this.findNumber(copies) ?? settings.copies;
+      }
+      if (take("bigger", whole) !== undefined) settings.size = "large";
+      if (take("smaller", whole) !== undefined) settings.size = "small";
+      return false;
+    };
+
+    if (!text || apply(false)) {
+      return { action: "cancel", prompt: "", matched };
+    }
+
+    // Whole-transcript phrases ("again", "two more") once other commands are out
+    const reprint = take("reprint", true);
+    if (reprint !== undefined) {
+      const copies = this.findNumber(reprint) ?? settings.copies;
+      return { action: "reprint", prompt: "", ...settings, ...(copies ? { copies } : {}), matched };
+    }
+    if (text && apply(true)) {
+      return { action: "cancel", prompt: "", matched };
+    }
+
+    if (text) {
+      return { action: "generate", prompt: matched.length ? text : transcript.trim(), ...settings, matched };
+    }
+    // Only settings were said: apply them to the sticker on screen
+    if (settings.style) {
+      return { action: "redraw", prompt: "", ...settings, matched };
+    }
+    if (settings.copies || settings.size) {
+      return { action: "reprint", prompt: "", ...settings, matched };
+    }
+    return { action: "cancel", prompt: "", matched };
+  }
+
+  /**
+   * Lowercase and strip punctuation, for looking up style names
+   */
+  private key(text: string): string {
+    return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+  }
+
+  private findStyle(phrase: string): string | undefined {
+    const name = phrase.match(this.styleName)?.[0];
+    return name === undefined ? undefined : this.styleIds.get(this.key(name));
+  }
+
+  private findNumber(phrase: string): number | undefined {
+    const word = phrase.match(this.number)?.[0];
+    if (word === undefined) return undefined;
+    const number = /^\d+$/.test(word) ? Number(word) : this.phrases.numbers[word.toLowerCase()];
+    return number ? Math.min(Math.max(1, number), this.maxCopies) : undefined;
+  }
+
+  /**
+   * Collapse the gaps left by removed phrases and drop dangling connectors
+   */
+  private tidy(text: string): string {
+    let tidied = text
+      .replace(/\s+/g, " ")
+      .replace(/\s+([,.;:!?])/g, "$1")
+      .replace(/([,;:])(?:\s*[,;:])+/g, "$1");
+    for (let previous = ""; previous !== tidied; ) {
+      previous = tidied;
+      tidied = tidied.replace(this.connectors, "");
+    }
+    return tidied.trim();
+  }
+}
+
+/**
+ * Voice grammars for each language, built on first use
+ */
+export class VoiceGrammars {
+  private grammars = new Map<string, VoiceGrammar>();
+
+  /**
+   * @param defaultLanguage Language used when a transcript's has no phrases
+   * @param extra Extra phrases by language code, added to the built-in ones
+   */
+  constructor(readonly defaultLanguage: string, private extra: Record<string, Partial<VoicePhrases>> = {}) {}
+
+  /**
+   * Whether there are phrases for a language
+   */
+  has(language: string): boolean {
+    return Boolean(VOICE_PHRASES[language] || this.extra[language]);
+  }
+
+  /**
+   * Grammar for a language, or the default language's if it has no phrases
+   * @param language Language code of the transcript
+   */
+  get(language?: string): VoiceGrammar {
+    const code = language && this.has(language) ? language : this.defaultLanguage;
+    let grammar = this.grammars.get(code);
+    if (!grammar) {
+      const base = VOICE_PHRASES[code] ?? EMPTY_PHRASES;
+      const extra = this.extra[code];
+      grammar = new VoiceGrammar(extra ? mergePhrases(base, extra) : base);
+      this.grammars.set(code, grammar);
+    }
+    return grammar;
+  }
+}
+
+const EMPTY_PHRASES: VoicePhrases = {
+  cancel: [], reprint: [], copies: [], style: [], bigger: [], smaller: [], numbers: {}, connectors: [],
+};
+
+/**
+ * Build the voice grammars described by the environment:
+ * - `VOICE_LANGUAGE`: language for transcripts in a language with no phrases
+ *   (default: `TRANSCRIPTION_LANGUAGE` if it has phrases, otherwise en)
+ * - `VOICE_PHRASES_FILE`: JSON file with extra phrases by language code
+ *   (`{"en": {"cancel": [...]}}`), or one language's lists for `VOICE_LANGUAGE`;
+ *   they are added to the built-in ones
+ */
+export function voiceGrammarsFromEnv(env: NodeJS.ProcessEnv = process.env): VoiceGrammars {
+  const transcriptionLanguage = env["TRANSCRIPTION_LANGUAGE"];
+  const language =
+    env["VOICE_LANGUAGE"] ||
+    (transcriptionLanguage && VOICE_PHRASES[transcriptionLanguage] ? transcriptionLanguage : "en");
+
+  const file = env["VOICE_PHRASES_FILE"];
+  const extra = file ? readPhrases(file) : {};
+  // A file of plain lists is for the default language
+  const isSingleLanguage = Object.keys(extra).some((key) => key in EMPTY_PHRASES || key === "styleNames");
+  const grammars = new VoiceGrammars(language, isSingleLanguage ? { [language]: extra as Partial<VoicePhrases> } : extra);
+  if (!grammars.has(language)) {
+    throw new Error(`Unknown VOICE_LANGUAGE: ${language} (expected one of ${VOICE_LANGUAGES.join(", ")})`);
+  }
+  return grammars;
+}
+
+/**
+ * Add extra phrases to a language's lists; extra phrases are tried first
+ */
+export function mergePhrases(base: VoicePhrases, extra: Partial<VoicePhrases>): VoicePhrases {
+  const list = (name: PhraseCategory | "connectors") => [
+    ...(extra[name] ?? []),
+    ...base[name],
+  ];
+  const styleNames: Record<string, string[]> = { ...base.styleNames };
+  for (const [id, names] of Object.entries(extra.styleNames ?? {})) {
+    styleNames[id] = [...names, ...(styleNames[id] ?? [])];
+  }
+
+  return {
+    cancel: list("cancel"),
+    reprint: list("reprint"),
+    copies: list("copies"),
+    style: list("style"),
+    bigger: list("bigger"),
+    smaller: list("smaller"),
+    connectors: list("connectors"),
+    numbers: { ...base.numbers, ...extra.numbers },
+    styleNames,
+    spaced: extra.spaced ?? base.spaced,
+  };
+}
+
+function readPhrases(file: string): Record<string, Partial<VoicePhrases>> {
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8")) as Record<string, Partial<VoicePhrases>>;
+  } catch (error) {
+    throw new Error(
+      `Failed to read voice phrases ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
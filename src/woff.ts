@@ -0,0 +1,240 @@
+import * as fs from "node:fs";
+import * as zlib from "node:zlib";
+
+/**
+ * One glyph drawn at one dot per font pixel
+ */
+export interface PixelGlyph {
+  /** Dots to move right after drawing it */
+  advance: number;
+  /** Bitmap width in dots (at least `advance`, for glyphs that overhang) */
+  width: number;
+  /** Row-major, `width` x the font's `height`, 1 = ink */
+  bitmap: Uint8Array;
+}
+
+/**
+ * A pixel font read from a WOFF file
+ */
+export interface PixelFont {
+  /** Dots from the top of a line to the baseline */
+  ascent: number;
+  /** Line height in dots, ascent plus descent */
+  height: number;
+  /** The glyph for a code point, or undefined if the font doesn't have it */
+  glyph(codePoint: number): PixelGlyph | undefined;
+}
+
+const ON_CURVE = 0x01;
+const X_SHORT = 0x02;
+const Y_SHORT = 0x04;
+const REPEAT = 0x08;
+const X_SAME_OR_POSITIVE = 0x10;
+const Y_SAME_OR_POSITIVE = 0x20;
+
+/**
+ * Unpack the tables of a WOFF 1.0 file (zlib-compressed TrueType)
+ */
+function readWoffTables(woff: Buffer): Map<string, Buffer> {
+  if (woff.toString("latin1", 0, 4) !== "wOFF") {
+    throw new Error("Not a WOFF font");
+  }
+  const tables = new Map<string, Buffer>();
+  const count = woff.readUInt16BE(12);
+  for (let i = 0; i < count; i++) {
+    const entry = 44 + i * 20;
+    const tag = woff.toString("latin1", entry, entry + 4);
+    const offset = woff.readUInt32BE(entry + 4);
+    const compressedLength = woff.readUInt32BE(entry + 8);
+    const length = woff.readUInt32BE(entry + 12);
+    const data = woff.subarray(offset, offset + compressedLength);
+    tables.set(tag, compressedLength < length ? zlib.inflateSync(data) : data);
+  }
+  return tables;
+}
+
+function requireTable(tables: Map<string, Buffer>, tag: string): Buffer {
+  const table = tables.get(tag);
+  if (!table) throw new Error(`Font has no ${tag} table`);
+  return table;
+}
+
+/**
+ * Read the Unicode character map (format 12, or format 4 for the BMP only)
+ */
+function readCmap(cmap: Buffer): Map<number, number> {
+  const map = new Map<number, number>();
+  const subtables = cmap.readUInt16BE(2);
+  const offsets = new Map<string, number>();
+  for (let i = 0; i < subtables; i++) {
+    const record = 4 + i * 8;
+    offsets.set(`${cmap.readUInt16BE(record)}/${cmap.readUInt16BE(record + 2)}`, cmap.readUInt32BE(record + 4));
+  }
+
+  const full = offsets.get("3/10");
+  if (full !== undefined && cmap.readUInt16BE(full) === 12) {
+    const groups = cmap.readUInt32BE(full + 12);
+    for (let i = 0; i < groups; i++) {
+      const group = full + 16 + i * 12;
+      const start = cmap.readUInt32BE(group);
+      const end = cmap.readUInt32BE(group + 4);
+      const glyph = cmap.readUInt32BE(group + 8);
+      for (let code = start; code <= end; code++) map.set(code, glyph + code - start);
+    }
+    return map;
+  }
+
+  const bmp = offsets.get("3/1") ?? offsets.get("0/3");
+  if (bmp === undefined || cmap.readUInt16BE(bmp) !== 4) {
+    throw new Error("Font has no Unicode character map");
+  }
+  const segments = cmap.readUInt16BE(bmp + 6) / 2;
+  const ends = bmp + 14;
+  const starts = ends + segments * 2 + 2;
+  const deltas = starts + segments * 2;
+  const rangeOffsets = deltas + segments * 2;
+  for (let i = 0; i < segments; i++) {
+    const start = cmap.readUInt16BE(starts + i * 2);
+    const end = cmap.readUInt16BE(ends + i * 2);
+    const delta = cmap.readInt16BE(deltas + i * 2);
+    const rangeOffset = cmap.readUInt16BE(rangeOffsets + i * 2);
+    for (let code = start; code <= end && code !== 0xffff; code++) {
+      let glyph = code;
+      if (rangeOffset !== 0) {
+        glyph = cmap.readUInt16BE(rangeOffsets + i * 2 + rangeOffset + (code - start) * 2);
+        if (glyph === 0) continue;
+      }
+      map.set(code, (glyph + delta) & 0xffff);
+    }
+  }
+  return map;
+}
+
+/**
+ * Read a simple glyph's outline as closed polygons in font units.
+ * Pixel fonts are all straight edges, so off-curve points are treated as corners.
+ */
+function readContours(glyf: Buffer, offset: number): [number, number][][] {
+  const contourCount = glyf.readInt16BE(offset);
+  if (contourCount <= 0) return [];
+
+  const endPoints: number[] = [];
+  for (let i = 0; i < contourCount; i++) endPoints.push(glyf.readUInt16BE(offset + 10 + i * 2));
+  const pointCount = endPoints[endPoints.length - 1] + 1;
+  let cursor = offset + 10 + contourCount * 2;
+  cursor += 2 + glyf.readUInt16BE(cursor);
+
+  const flags: number[] = [];
+  while (flags.length < pointCount) {
+    const flag = glyf[cursor++];
+    flags.push(flag);
+    if (flag & REPEAT) {
+      for (let repeat = glyf[cursor++]; repeat > 0; repeat--) flags.push(flag);
+    }
+  }
+
+  const readCoordinates = (short: number, sameOrPositive: number): number[] => {
+    const values: number[] = [];
+    let value = 0;
+    for (const flag of flags) {
+      if (flag & short) {
+        const delta = glyf[cursor++];
+        value += flag & sameOrPositive ? delta : -delta;
+      } else if (!(flag & sameOrPositive)) {
+        value += glyf.readInt16BE(cursor);
+        cursor += 2;
+      }
+      values.push(value);
+    }
+    return values;
+  };
+  const xs = readCoordinates(X_SHORT, X_SAME_OR_POSITIVE);
+  const ys = readCoordinates(Y_SHORT, Y_SAME_OR_POSITIVE);
+
+  const contours: [number, number][][] = [];
+  let start = 0;
+  for (const end of endPoints) {
+    const contour: [number, number][] = [];
+    for (let i = start; i <= end; i++) contour.push([xs[i], ys[i]]);
+    contours.push(contour);
+    start = end + 1;
+  }
+  return contours;
+}
+
+/**
+ * Whether a point is inside the outline (non-zero winding rule)
+ */
+function isInside(contours: [number, number][][], x: number, y: number): boolean {
+  let winding = 0;
+  for (const contour of contours) {
+    for (let i = 0; i < contour.length; i++) {
+      const [x0, y0] = contour[i];
+      const [x1, y1] = contour[(i + 1) % contour.length];
+      if (y0 <= y && y1 > y) {
+        if ((x1 - x0) * (y - y0) - (x - x0) * (y1 - y0) > 0) winding++;
+      } else if (y0 > y && y1 <= y) {
+        if ((x1 - x0) * (y - y0) - (x - x0) * (y1 - y0) < 0) winding--;
+      }
+    }
+  }
+  return winding !== 0;
+}
+
+/**
+ * Load a pixel font from a WOFF file. Outlines are sampled at the centre of
+ * each font pixel, so the glyphs come out exactly as the font draws them.
+ * @param file Path to the .woff file
+ * @param pixelSize Font pixels per em (e.g. 12 for a 12px font)
+ * @param ascent Font pixels above the baseline to keep
+ * @param descent Font pixels below the baseline to keep
+ */
+export function loadPixelFont(file: string, pixelSize: number, ascent: number, descent: number): PixelFont {
+  const tables = readWoffTables(fs.readFileSync(file));
+  const head = requireTable(tables, "head");
+  const hhea = requireTable(tables, "hhea");
+  const hmtx = requireTable(tables, "hmtx");
+  const loca = requireTable(tables, "loca");
+  const glyf = requireTable(tables, "glyf");
+  const characters = readCmap(requireTable(tables, "cmap"));
+
+  const unitsPerPixel = head.readUInt16BE(18) / pixelSize;
+  const longOffsets = head.readInt16BE(50) === 1;
+  const metricCount = hhea.readUInt16BE(34);
+  const height = ascent + descent;
+  const cache = new Map<number, PixelGlyph | undefined>();
+
+  const glyphOffset = (index: number): number =>
+    longOffsets ? loca.readUInt32BE(index * 4) : loca.readUInt16BE(index * 2) * 2;
+
+  const rasterize = (index: number): PixelGlyph => {
+    const advance = Math.round(hmtx.readUInt16BE(Math.min(index, metricCount - 1) * 4) / unitsPerPixel);
+    const start = glyphOffset(index);
+    if (glyphOffset(index + 1) === start) {
+      return { advance, width: advance, bitmap: new Uint8Array(advance * height) };
+    }
+
+    const contours = readContours(glyf, start);
+    const width = Math.max(advance, Math.ceil(glyf.readInt16BE(start + 6) / unitsPerPixel));
+    const bitmap = new Uint8Array(width * height);
+    for (let row = 0; row < height; row++) {
+      const y = (ascent - row - 0.5) * unitsPerPixel;
+      for (let col = 0; col < width; col++) {
+        if (isInside(contours, (col + 0.5) * unitsPerPixel, y)) bitmap[row * width + col] = 1;
+      }
+    }
+    return { advance, width, bitmap };
+  };
+
+  return {
+    ascent,
+    height,
+    glyph(codePoint: number): PixelGlyph | undefined {
+      if (!cache.has(codePoint)) {
+        const index = characters.get(codePoint);
+        cache.set(codePoint, index === undefined ? undefined : rasterize(index));
+      }
+      return cache.get(codePoint);
+    },
+  };
+}
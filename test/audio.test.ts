@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import {
+  AudioIntake,
+  audioLimitsFromEnv,
+  containerDuration,
+  decodeWav,
+  encodeWav,
+  hasFfmpeg,
+  sniffAudioFormat,
+  type AudioLimits,
+} from "../src/audio.ts";
+
+beforeEach(() => {
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// Tests don't depend on whether this machine has ffmpeg
+const NO_FFMPEG = "/nonexistent/ffmpeg";
+
+const bytes = (values: number[]) => Buffer.from(values);
+
+/**
+ * An EBML element; `unknown` leaves the size open, as a live recording does
+ */
+function element(id: number[], body: Buffer, unknown = false): Buffer {
+  const size = unknown ? bytes([0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]) : bytes([0x80 | body.length]);
+  return Buffer.concat([bytes(id), size, body]);
+}
+
+const simpleBlock = (time: number) => element([0xa3], bytes([0x81, (time >> 8) & 0xff, time & 0xff, 0x80, 1, 2, 3]));
+
+/**
+ * A WebM file like Chrome records: unknown sizes and no Duration, clusters
+ * at 0s and 10s with the last block at 12.5s
+ */
+const webm = Buffer.concat([
+  element([0x1a, 0x45, 0xdf, 0xa3], element([0x42, 0x82], Buffer.from("webm"))),
+  element(
+    [0x18, 0x53, 0x80, 0x67],
+    Buffer.concat([
+      element([0x15, 0x49, 0xa9, 0x66], element([0x2a, 0xd7, 0xb1], bytes([0x0f, 0x42, 0x40]))),
+      element([0x16, 0x54, 0xae, 0x6b], bytes([1, 2, 3])),
+      element([0x1f, 0x43, 0xb6, 0x75], Buffer.concat([element([0xe7], bytes([0])), simpleBlock(0), simpleBlock(9980)]), true),
+      element([0x1f, 0x43, 0xb6, 0x75], Buffer.concat([element([0xe7], bytes([0x27, 0x10])), simpleBlock(0), simpleBlock(2500)]), true),
+    ]),
+    true
+  ),
+]);
+
+function oggPage(granule: bigint, payload: Buffer): Buffer {
+  const header = Buffer.alloc(27);
+  header.write("OggS", 0);
+  header.writeBigInt64LE(granule, 6);
+  header[26] = 1;
+  return Buffer.concat([header, bytes([payload.length]), payload]);
+}
+
+/**
+ * Ogg Opus: 4 seconds after a 312-sample pre-skip, then a page without a position
+ */
+const opusHead = Buffer.alloc(19);
+opusHead.write("OpusHead");
+opusHead[8] = 1;
+opusHead[9] = 1;
+opusHead.writeUInt16LE(312, 10);
+const ogg = Buffer.concat([oggPage(0n, opusHead), oggPage(48000n * 4n + 312n, bytes([1, 2])), oggPage(-1n, bytes([3]))]);
+
+function box(type: string, ...parts: Buffer[]): Buffer {
+  const body = Buffer.concat(parts);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(8 + body.length);
+  header.write(type, 4);
+  return Buffer.concat([header, body]);
+}
+
+function uint32s(...values: number[]): Buffer {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeUInt32BE(value, i * 4));
+  return buffer;
+}
+
+const ftyp = box("ftyp", Buffer.from("iso5"), uint32s(0));
+const moov = (milliseconds: number) =>
+  box("moov", box("mvhd", uint32s(0, 0, 0, 1000, milliseconds)), box("trak", box("mdia", box("mdhd", uint32s(0, 0, 0, 48000, 0)))));
+const fragment = (base: number) =>
+  box(
+    "moof",
+    box(
+      "traf",
+      box("tfhd", uint32s(0x08, 1, 1024)),
+      box("tfdt", uint32s(0, base)),
+      box("trun", uint32s(0x200, 47), uint32s(...Array<number>(47).fill(1024)))
+    )
+  );
+
+/** MP4 with the length in its header */
+const mp4 = Buffer.concat([ftyp, moov(42500)]);
+/** Fragmented MP4 like Safari records: two fragments of 47 x 1024 samples at 48kHz */
+const fragmentedMp4 = Buffer.concat([ftyp, moov(0), fragment(0), box("mdat"), fragment(48128), box("mdat")]);
+
+const tone = (seconds: number, amplitude = 0.3, sampleRate = 16000) =>
+  new Float32Array(Math.round(seconds * sampleRate)).map((_, i) => amplitude * Math.sin(i / 5));
+
+function intake(limits: Partial<AudioLimits> = {}): AudioIntake {
+  return new AudioIntake({ ...audioLimitsFromEnv({}), ffmpegPath: NO_FFMPEG, ...limits });
+}
+
+describe("sniffAudioFormat", () => {
+  it("tells each container from its first bytes", () => {
+    assert.equal(sniffAudioFormat(webm), "webm");
+    assert.equal(sniffAudioFormat(ogg), "ogg");
+    assert.equal(sniffAudioFormat(mp4), "mp4");
+    assert.equal(sniffAudioFormat(encodeWav(tone(0.1), 16000)), "wav");
+    assert.equal(sniffAudioFormat(Buffer.from("hello there, not audio")), undefined);
+    assert.equal(sniffAudioFormat(Buffer.alloc(2)), undefined);
+  });
+});
+
+describe("containerDuration", () => {
+  it("reads WebM without a Duration from its last block", () => {
+    assert.equal(containerDuration(webm, "webm"), 12.5);
+  });
+
+  it("reads Ogg Opus from the last granule position", () => {
+    assert.equal(containerDuration(ogg, "ogg"), 4);
+  });
+
+  it("reads MP4 from the movie header, or adds up the fragments", () => {
+    assert.equal(containerDuration(mp4, "mp4"), 42.5);
+    assert.equal(containerDuration(fragmentedMp4, "mp4"), (48128 + 47 * 1024) / 48000);
+  });
+
+  it("reads WAV from its byte rate", () => {
+    assert.equal(containerDuration(encodeWav(tone(3), 16000), "wav"), 3);
+  });
+
+  it("gives up on truncated files", () => {
+    assert.equal(containerDuration(webm.subarray(0, 10), "webm"), undefined);
+  });
+});
+
+describe("decodeWav", () => {
+  it("reads back what encodeWav wrote", () => {
+    const decoded = decodeWav(encodeWav(new Float32Array([0, 0.5, -0.5]), 8000));
+    assert.equal(decoded.sampleRate, 8000);
+    assert.deepEqual([...decoded.samples].map((sample) => Math.round(sample * 100) / 100), [0, 0.5, -0.5]);
+  });
+});
+
+describe("AudioIntake", () => {
+  it("converts WAV to 16kHz mono", async () => {
+    const checked = await intake().check(encodeWav(tone(1, 0.2, 44100), 44100));
+    assert.equal(checked.normalized, true);
+    assert.equal(checked.filename, "recording.wav");
+    assert.equal(checked.seconds, 1);
+    assert.equal(decodeWav(checked.audio).sampleRate, 16000);
+  });
+
+  it("turns away silence, even with a little hiss", async () => {
+    await assert.rejects(intake().check(encodeWav(new Float32Array(16000), 16000)), { code: "AUDIO_SILENT" });
+    const hiss = new Float32Array(16000).map((_, i) => (i % 2 ? 0.001 : -0.001));
+    await assert.rejects(intake().check(encodeWav(hiss, 16000)), {
+      code: "AUDIO_SILENT",
+      message: "The recording is silent (peak -60 dBFS)",
+    });
+    assert.ok(await intake({ silenceDb: -70 }).check(encodeWav(hiss, 16000)));
+  });
+
+  it("turns away empty, unknown, too large and too long recordings", async () => {
+    await assert.rejects(intake().check(Buffer.alloc(0)), { code: "AUDIO_EMPTY" });
+    await assert.rejects(intake().check(encodeWav(new Float32Array(0), 16000)), { code: "AUDIO_EMPTY" });
+    await assert.rejects(intake().check(Buffer.from("hello there, not audio")), { code: "AUDIO_UNSUPPORTED" });
+    await assert.rejects(intake({ maxBytes: 100 }).check(webm), { code: "AUDIO_TOO_LARGE" });
+    await assert.rejects(intake({ maxSeconds: 2 }).check(encodeWav(tone(3), 16000)), { code: "AUDIO_TOO_LONG" });
+  });
+
+  it("checks the length of every container from its headers", async () => {
+    for (const file of [webm, ogg, mp4, fragmentedMp4]) {
+      await assert.rejects(intake({ maxSeconds: 1 }).check(file), { code: "AUDIO_TOO_LONG" });
+    }
+  });
+
+  it("passes other formats through untouched without ffmpeg", async () => {
+    const checked = await intake().check(fragmentedMp4);
+    assert.deepEqual(
+      { ...checked, audio: checked.audio === fragmentedMp4 },
+      {
+        audio: true,
+        filename: "recording.mp4",
+        mimeType: "audio/mp4",
+        format: "mp4",
+        seconds: (48128 + 47 * 1024) / 48000,
+        normalized: false,
+      }
+    );
+  });
+});
+
+describe("hasFfmpeg", () => {
+  it("says no when the binary isn't there", async () => {
+    assert.equal(await hasFfmpeg(NO_FFMPEG), false);
+  });
+});
+
+describe("audioLimitsFromEnv", () => {
+  it("rejects bad limits", () => {
+    assert.throws(() => audioLimitsFromEnv({ AUDIO_MAX_SECONDS: "abc" }), /Invalid AUDIO_MAX_SECONDS: abc/);
+    assert.throws(() => audioLimitsFromEnv({ AUDIO_MAX_BYTES: "1.5" }), /Invalid AUDIO_MAX_BYTES/);
+    assert.throws(() => audioLimitsFromEnv({ AUDIO_SILENCE_DB: "10" }), /Invalid AUDIO_SILENCE_DB/);
+  });
+});
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { cacheKey, createImageCache, ImageCache, normalizePrompt } from "../src/cache.ts";
+
+let directory: string;
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "cache-test-"));
+  mock.method(console, "log", () => {});
+});
+
+afterEach(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+  mock.restoreAll();
+});
+
+const parts = { prompt: "a cat", style: "coloring-book", provider: "imagen", model: "imagen-4.0-generate-001", aspectRatio: "1:1" };
+const info = { prompt: "a cat", provider: "imagen", model: "imagen-4.0-generate-001" };
+
+describe("cacheKey", () => {
+  it("ignores case, punctuation and spacing in the prompt", () => {
+    assert.equal(normalizePrompt("  A  Cat! "), "a cat");
+    assert.equal(cacheKey({ ...parts, prompt: "A cat!" }), cacheKey(parts));
+  });
+
+  it("tells providers, models, styles and shapes apart", () => {
+    const key = cacheKey(parts);
+    assert.notEqual(cacheKey({ ...parts, provider: "openai" }), key);
+    assert.notEqual(cacheKey({ ...parts, model: "imagen-4.0-ultra-generate-001" }), key);
+    assert.notEqual(cacheKey({ ...parts, style: "pixel-art" }), key);
+    assert.notEqual(cacheKey({ ...parts, aspectRatio: "3:4" }), key);
+  });
+});
+
+describe("ImageCache", () => {
+  it("returns what was stored and counts hits", async () => {
+    const cache = new ImageCache({ directory });
+    assert.equal(await cache.get("k"), undefined);
+    await cache.set("k", Buffer.from("png"), info);
+
+    const hit = await cache.get("k");
+    assert.equal(hit?.image.toString(), "png");
+    assert.equal(hit?.entry.hits, 1);
+    assert.equal(hit?.entry.provider, "imagen");
+  });
+
+  it("keeps its index across restarts", async () => {
+    await new ImageCache({ directory }).set("k", Buffer.from("png"), info);
+    const reloaded = new ImageCache({ directory });
+    assert.equal((await reloaded.get("k"))?.image.toString(), "png");
+    assert.equal(reloaded.count, 1);
+  });
+
+  it("skips images older than the freshness limit", async () => {
+    const cache = new ImageCache({ directory });
+    const entry = await cache.set("k", Buffer.from("png"), info);
+    entry.createdAt = new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString();
+    assert.equal(await cache.get("k", 1), undefined);
+    assert.ok(await cache.get("k", 7));
+    assert.ok(await cache.get("k"));
+  });
+
+  it("evicts the least recently used images past the size cap", async () => {
+    const cache = new ImageCache({ directory, maxBytes: 10 });
+    await cache.set("old", Buffer.alloc(4), info);
+    await cache.set("used", Buffer.alloc(4), info);
+    // Make sure the timestamps differ
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await cache.get("old");
+    await cache.set("new", Buffer.alloc(4), info);
+
+    assert.equal(cache.count, 2);
+    assert.equal(cache.totalBytes, 8);
+    assert.ok(await cache.get("old"));
+    assert.equal(await cache.get("used"), undefined);
+    assert.equal(fs.existsSync(path.join(directory, "used.png")), false);
+  });
+
+  it("forgets images deleted behind its back", async () => {
+    const cache = new ImageCache({ directory });
+    await cache.set("k", Buffer.from("png"), info);
+    fs.rmSync(path.join(directory, "k.png"));
+    assert.equal(await cache.get("k"), undefined);
+    assert.equal(cache.count, 0);
+  });
+
+  it("starts empty when the index is unreadable", async () => {
+    const warn = mock.method(console, "warn", () => {});
+    fs.writeFileSync(path.join(directory, "index.json"), "{not json");
+    const cache = new ImageCache({ directory });
+    assert.equal(await cache.get("k"), undefined);
+    assert.equal(warn.mock.callCount(), 1);
+    await cache.set("k", Buffer.from("png"), info);
+    assert.equal(JSON.parse(fs.readFileSync(path.join(directory, "index.json"), "utf8")).length, 1);
+  });
+
+  it("empties on clear", async () => {
+    const cache = new ImageCache({ directory });
+    await cache.set("k", Buffer.from("png"), info);
+    await cache.clear();
+    assert.equal(cache.count, 0);
+    assert.equal(fs.existsSync(path.join(directory, "k.png")), false);
+  });
+});
+
+describe("createImageCache", () => {
+  it("can be turned off", () => {
+    assert.equal(createImageCache({ IMAGE_CACHE: "0" }), undefined);
+    assert.ok(createImageCache({}));
+  });
+
+  it("checks the age limit", () => {
+    assert.throws(() => createImageCache({ IMAGE_CACHE_MAX_AGE_DAYS: "-1" }), /Invalid IMAGE_CACHE_MAX_AGE_DAYS: -1/);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { parseCapabilities, parseMediaSize, parsePrinterOptions, parseResolution } from "../src/capabilities.ts";
+
+// A label printer through a PPD driver
+const ZEBRA = [
+  "PageSize/Media Size: w288h432 *w288h432.Fullbleed 4x6 Letter Custom.WIDTHxHEIGHT",
+  "Resolution/Resolution: *203dpi 300x600dpi",
+  "ColorModel/Color Mode: *Gray",
+  "Darkness: 10 *20 30",
+  "",
+].join("\n");
+
+// A driverless (IPP Everywhere) colour printer
+const IPP = [
+  "media/Media: iso_a4_210x297mm *oe_4x6-label_4x6in na_letter_8.5x11in",
+  "print-color-mode/Color Mode: monochrome *color",
+  "printer-resolution/Print Quality: *600dpi",
+].join("\n");
+
+describe("parsePrinterOptions", () => {
+  it("reads keywords, labels, values and the default", () => {
+    const options = parsePrinterOptions(ZEBRA);
+    assert.deepEqual(options["Resolution"], {
+      key: "Resolution",
+      label: "Resolution",
+      values: ["203dpi", "300x600dpi"],
+      defaultValue: "203dpi",
+    });
+    assert.deepEqual(options["Darkness"], { key: "Darkness", label: "Darkness", values: ["10", "20", "30"], defaultValue: "20" });
+    assert.deepEqual(Object.keys(options), ["PageSize", "Resolution", "ColorModel", "Darkness"]);
+  });
+});
+
+describe("parseMediaSize", () => {
+  it("works out PPD, inch and PWG sizes", () => {
+    assert.deepEqual(parseMediaSize("w288h432"), { name: "w288h432", widthMm: 101.6, heightMm: 152.4 });
+    assert.deepEqual(parseMediaSize("w288h432.Fullbleed"), { name: "w288h432.Fullbleed", widthMm: 101.6, heightMm: 152.4 });
+    assert.deepEqual(parseMediaSize("4x6"), { name: "4x6", widthMm: 101.6, heightMm: 152.4 });
+    assert.deepEqual(parseMediaSize("oe_4x6-label_4x6in"), { name: "oe_4x6-label_4x6in", widthMm: 101.6, heightMm: 152.4 });
+    assert.deepEqual(parseMediaSize("iso_a4_210x297mm"), { name: "iso_a4_210x297mm", widthMm: 210, heightMm: 297 });
+  });
+
+  it("knows common names and leaves others without dimensions", () => {
+    assert.deepEqual(parseMediaSize("A6"), { name: "A6", widthMm: 105, heightMm: 148 });
+    assert.deepEqual(parseMediaSize("Tabloid"), { name: "Tabloid" });
+  });
+});
+
+describe("parseResolution", () => {
+  it("reads square and asymmetric resolutions", () => {
+    assert.equal(parseResolution("203dpi"), 203);
+    assert.equal(parseResolution("300x600dpi"), 300);
+    assert.equal(parseResolution("High"), undefined);
+  });
+});
+
+describe("parseCapabilities", () => {
+  it("describes a PPD label printer", () => {
+    const capabilities = parseCapabilities("Zebra", ZEBRA);
+    assert.equal(capabilities.printerName, "Zebra");
+    assert.deepEqual(capabilities.resolutions, [203, 300]);
+    assert.equal(capabilities.defaultResolution, 203);
+    assert.equal(capabilities.supportsColor, false);
+    assert.deepEqual(
+      capabilities.mediaSizes.map((size) => size.name),
+      ["w288h432", "w288h432.Fullbleed", "4x6", "Letter"]
+    );
+    assert.equal(capabilities.defaultMedia, "w288h432.Fullbleed");
+    assert.equal(capabilities.supportsCustomMedia, true);
+  });
+
+  it("describes a driverless printer by its IPP option names", () => {
+    const capabilities = parseCapabilities("Office", IPP);
+    assert.deepEqual(capabilities.resolutions, [600]);
+    assert.equal(capabilities.supportsColor, true);
+    assert.equal(capabilities.defaultMedia, "oe_4x6-label_4x6in");
+    assert.deepEqual(capabilities.mediaSizes[2], { name: "na_letter_8.5x11in", widthMm: 215.9, heightMm: 279.4 });
+    assert.equal(capabilities.supportsCustomMedia, false);
+  });
+
+  it("copes with a printer that lists nothing", () => {
+    const capabilities = parseCapabilities("Empty", "");
+    assert.deepEqual(capabilities.resolutions, []);
+    assert.deepEqual(capabilities.mediaSizes, []);
+    assert.equal(capabilities.defaultMedia, undefined);
+    assert.equal(capabilities.supportsColor, false);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { catPacket, CatCommand, CatPrinterEncoder, crc8 } from "../src/catprinter.ts";
+import { sendBitmap } from "../src/encoder.ts";
+import { createMemoryTransport } from "../src/transport.ts";
+import type { MonoBitmap } from "../src/bitmap.ts";
+
+describe("crc8", () => {
+  it("matches the CRC-8 check value", () => {
+    assert.equal(crc8(Buffer.from("123456789")), 0xf4);
+  });
+});
+
+describe("catPacket", () => {
+  it("frames a command with its length and checksum", () => {
+    assert.deepEqual([...catPacket(CatCommand.DrawLine, [0x0f])], [0x51, 0x78, 0xa2, 0x00, 0x01, 0x00, 0x0f, 0x2d, 0xff]);
+  });
+});
+
+describe("CatPrinterEncoder", () => {
+  it("writes the setup, one line per row with the bits reversed, then the feed", async () => {
+    const bitmap: MonoBitmap = { width: 8, height: 1, bytesPerRow: 1, data: Uint8Array.from([0xf0]) };
+    const encoder = new CatPrinterEncoder({ dotWidth: 8 });
+    const transport = createMemoryTransport();
+
+    const bytes = await sendBitmap(encoder, bitmap, transport);
+    const expected = Buffer.concat([
+      catPacket(CatCommand.GetDeviceState),
+      catPacket(CatCommand.SetQuality, [0x33]),
+      catPacket(CatCommand.Lattice, [0xaa, 0x55, 0x17, 0x38, 0x44, 0x5f, 0x5f, 0x5f, 0x44, 0x38, 0x2c]),
+      catPacket(CatCommand.SetEnergy, [0x00, 0x30]),
+      catPacket(CatCommand.SetDrawingMode, [0x00]),
+      catPacket(CatCommand.SetSpeed, [32]),
+      Buffer.from([0x51, 0x78, 0xa2, 0x00, 0x01, 0x00, 0x0f, 0x2d, 0xff]),
+      Buffer.from([0x51, 0x78, 0xa1, 0x00, 0x02, 0x00, 0x50, 0x00, 0x0c, 0xff]),
+      catPacket(CatCommand.Lattice, [0xaa, 0x55, 0x17, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x17]),
+      catPacket(CatCommand.GetDeviceState),
+    ]);
+
+    assert.deepEqual(transport.bytes(), expected);
+    assert.equal(bytes, expected.length);
+  });
+
+  it("repeats the rows and feed for each copy", () => {
+    const bitmap: MonoBitmap = { width: 8, height: 3, bytesPerRow: 1, data: new Uint8Array(3) };
+    const packets = new CatPrinterEncoder({ dotWidth: 8 }).encode(bitmap, 2);
+    const commands = packets.map((packet) => packet[2]);
+    assert.equal(commands.filter((command) => command === CatCommand.DrawLine).length, 6);
+    assert.equal(commands.filter((command) => command === CatCommand.FeedPaper).length, 2);
+  });
+});
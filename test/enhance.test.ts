@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { cleanUpPrompt, createPromptEnhancer } from "../src/enhance.ts";
+
+describe("cleanUpPrompt", () => {
+  it("drops stammered words", () => {
+    assert.equal(cleanUpPrompt("a a dinosaur with with a hat"), "a dinosaur with a hat");
+    assert.equal(cleanUpPrompt("The, the robot"), "The robot");
+  });
+
+  it("keeps repeats that are meant", () => {
+    assert.equal(cleanUpPrompt("choo choo train"), "choo choo train");
+    assert.equal(cleanUpPrompt("a big big dog that says bye bye"), "a big big dog that says bye bye");
+  });
+
+  it("drops fillers and lead-ins", () => {
+    assert.equal(cleanUpPrompt("can you make me a dragon, um, with a hat"), "a dragon with a hat");
+    assert.equal(cleanUpPrompt("um can you draw me a unicorn uh eating pizza"), "a unicorn eating pizza");
+  });
+});
+
+describe("createPromptEnhancer", () => {
+  it("is off unless PROMPT_ENHANCER is set", () => {
+    assert.equal(createPromptEnhancer(undefined, {}), undefined);
+    assert.equal(createPromptEnhancer(undefined, { PROMPT_ENHANCER: "rules" })?.type, "rules");
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AppError, classifyError, errorResponse, toAppError } from "../src/errors.ts";
+
+/**
+ * An error shaped like the ones the OpenAI SDK throws
+ */
+function apiError(status: number, message = "request failed", code?: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+describe("AppError", () => {
+  it("looks up the status and whether to retry", () => {
+    const offline = new AppError("PRINTER_OFFLINE", "no printer");
+    assert.equal(offline.status, 503);
+    assert.equal(offline.retryable, true);
+    const blocked = new AppError("GENERATION_BLOCKED", "no");
+    assert.equal(blocked.status, 422);
+    assert.equal(blocked.retryable, false);
+  });
+});
+
+describe("errorResponse", () => {
+  it("marks blocked prompts", () => {
+    assert.deepEqual(errorResponse(new AppError("GENERATION_BLOCKED", "Let's draw something else!")), {
+      error: "Let's draw something else!",
+      code: "GENERATION_BLOCKED",
+      retryable: false,
+      blocked: true,
+    });
+    assert.deepEqual(errorResponse(new AppError("GENERATION_TIMEOUT", "too slow")), {
+      error: "too slow",
+      code: "GENERATION_TIMEOUT",
+      retryable: true,
+    });
+  });
+});
+
+describe("classifyError", () => {
+  it("reads HTTP statuses", () => {
+    assert.equal(classifyError(apiError(500)), "transient");
+    assert.equal(classifyError(apiError(408)), "transient");
+    assert.equal(classifyError(apiError(400)), "permanent");
+    assert.equal(classifyError(apiError(429)), "rate-limit");
+    assert.equal(classifyError(apiError(429, "out of credit", "insufficient_quota")), "quota");
+    assert.equal(classifyError(new Error("8 RESOURCE_EXHAUSTED: Quota exceeded for imagen")), "quota");
+  });
+
+  it("treats dropped connections as transient and aborts as timeouts", () => {
+    assert.equal(classifyError(Object.assign(new Error("reset"), { code: "ECONNRESET" })), "transient");
+    assert.equal(classifyError(new TypeError("fetch failed")), "transient");
+    assert.equal(classifyError(Object.assign(new Error("aborted"), { name: "AbortError" })), "timeout");
+    assert.equal(classifyError(new Error("bad prompt")), "permanent");
+  });
+
+  it("follows the code of our own errors", () => {
+    assert.equal(classifyError(new AppError("TRANSCRIPTION_TIMEOUT", "slow")), "timeout");
+    assert.equal(classifyError(new AppError("GENERATION_FAILED", "down")), "transient");
+    assert.equal(classifyError(new AppError("GENERATION_BLOCKED", "no")), "permanent");
+  });
+});
+
+describe("toAppError", () => {
+  it("keeps app errors and recognises quota and rate limits", () => {
+    const original = new AppError("NOT_FOUND", "gone");
+    assert.equal(toAppError(original), original);
+    assert.equal(toAppError(apiError(429, "slow down")).code, "RATE_LIMITED");
+    assert.equal(toAppError(apiError(429, "billing", "insufficient_quota")).code, "QUOTA_EXCEEDED");
+  });
+
+  it("uses the fallback code for anything else", () => {
+    const cause = apiError(500, "upstream");
+    const error = toAppError(cause, "GENERATION_FAILED");
+    assert.equal(error.code, "GENERATION_FAILED");
+    assert.equal(error.message, "upstream");
+    assert.equal(error.cause, cause);
+    assert.equal(toAppError("oops").code, "INTERNAL_ERROR");
+  });
+});
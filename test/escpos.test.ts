@@ -0,0 +1,32 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { encodeEscPosRaster } from "../src/escpos.ts";
+import type { MonoBitmap } from "../src/bitmap.ts";
+
+// 8x2: left half black on the first row
+const bitmap: MonoBitmap = { width: 8, height: 2, bytesPerRow: 1, data: Uint8Array.from([0xf0, 0x00]) };
+
+describe("encodeEscPosRaster", () => {
+  it("initializes, sends one raster block and feeds", () => {
+    assert.deepEqual(
+      [...encodeEscPosRaster(bitmap)],
+      [
+        0x1b, 0x40,
+        0x1d, 0x76, 0x30, 0x00, 0x01, 0x00, 0x02, 0x00, 0xf0, 0x00,
+        0x1b, 0x64, 0x04,
+      ]
+    );
+  });
+
+  it("splits tall images into bands and cuts", () => {
+    assert.deepEqual(
+      [...encodeEscPosRaster(bitmap, { bandHeight: 1, feedLines: 0, cut: true })],
+      [
+        0x1b, 0x40,
+        0x1d, 0x76, 0x30, 0x00, 0x01, 0x00, 0x01, 0x00, 0xf0,
+        0x1d, 0x76, 0x30, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00,
+        0x1d, 0x56, 0x42, 0x00,
+      ]
+    );
+  });
+});
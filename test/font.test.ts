@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { drawText, FONT_NAMES, GLYPH_HEIGHT, measureText, wrapText, type FontName } from "../src/font.ts";
+import type { GrayImage } from "../src/png.ts";
+
+function inkColumns(text: string, font: FontName = "regular"): number {
+  const width = measureText(text, 1, font) + 4;
+  const image: GrayImage = { width, height: GLYPH_HEIGHT, data: new Uint8Array(width * GLYPH_HEIGHT).fill(255) };
+  drawText(image, text, 0, 0, 1, 0, font);
+  let columns = 0;
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < GLYPH_HEIGHT; y++) {
+      if (image.data[y * width + x] === 0) {
+        columns++;
+        break;
+      }
+    }
+  }
+  return columns;
+}
+
+describe("measureText", () => {
+  it("measures full-width characters twice as wide as digits", () => {
+    assert.equal(measureText("恐"), 12);
+    assert.equal(measureText("공"), 12);
+    assert.equal(measureText("00"), measureText("恐"));
+    assert.equal(measureText("恐竜", 3), 72);
+    assert.equal(measureText(""), 0);
+  });
+
+  it("gives every letter the same width in mono", () => {
+    assert.equal(measureText("il", 1, "mono"), measureText("WW", 1, "mono"));
+    assert.ok(measureText("il") < measureText("WW"));
+    assert.equal(measureText("恐", 1, "mono"), 2 * measureText("W", 1, "mono"));
+  });
+
+  it("adds a column per character in bold", () => {
+    assert.equal(measureText("ab", 1, "bold"), measureText("ab") + 2);
+  });
+
+  it("treats decomposed accents like precomposed letters", () => {
+    assert.equal(measureText("pingu\u0308ino"), measureText("ping\u00fcino"));
+  });
+});
+
+describe("drawText", () => {
+  it("draws kana, kanji, Hangul and accented Latin in every face", () => {
+    for (const font of FONT_NAMES) {
+      for (const text of ["ねこ", "恐竜", "我们", "공룡", "Zoë"]) {
+        assert.ok(inkColumns(text, font) > measureText(text, 1, font) / 2, `${font}: ${text}`);
+      }
+    }
+  });
+
+  it("draws characters the font lacks as a question mark", () => {
+    const width = measureText("\u{1f996}");
+    assert.equal(width, measureText("?"));
+    assert.equal(inkColumns("\u{1f996}"), inkColumns("?"));
+  });
+});
+
+describe("wrapText", () => {
+  it("wraps at spaces", () => {
+    assert.deepEqual(wrapText("a big red dog", measureText("a big red")), ["a big red", "dog"]);
+  });
+
+  it("splits text without spaces between characters", () => {
+    assert.deepEqual(wrapText("ピンクのユニコーン", 12 * 4), ["ピンクの", "ユニコー", "ン"]);
+  });
+});
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { AppError } from "../src/errors.ts";
+import {
+  createImageGenerator,
+  ImageGenerator,
+  ImagenProvider,
+  OpenAIImageProvider,
+  StubImageProvider,
+  type ImageOptions,
+  type ImageProvider,
+} from "../src/images.ts";
+
+beforeEach(() => {
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const fast = { timeoutMs: 1000, retries: 0 };
+
+/**
+ * A provider answering from `generate`
+ */
+function fakeProvider(
+  name: string,
+  generate: (prompt: string, options: ImageOptions) => Promise<Buffer[]> = async () => [Buffer.from(name)],
+  available = true
+) {
+  return {
+    name,
+    models: [`${name}-1`, `${name}-2`],
+    isAvailable: () => available,
+    generate: mock.fn(generate),
+  } satisfies ImageProvider;
+}
+
+function apiError(status: number, message: string, code?: string): Error {
+  return Object.assign(new Error(message), { status, code });
+}
+
+describe("ImageGenerator", () => {
+  it("resolves the provider and model a request tries first", () => {
+    const generator = new ImageGenerator([fakeProvider("a"), fakeProvider("b")], "a", undefined, "a-2");
+    assert.deepEqual(generator.resolve(), { provider: "a", model: "a-2" });
+    assert.deepEqual(generator.resolve({ model: "a-1" }), { provider: "a", model: "a-1" });
+    assert.deepEqual(generator.resolve({ provider: "b" }), { provider: "b", model: "b-1" });
+    assert.equal(generator.validate("c"), "Unknown image provider: c");
+    assert.equal(generator.validate("b", "a-1"), "Unknown model for b: a-1");
+  });
+
+  it("uses the chosen provider and model", async () => {
+    const b = fakeProvider("b");
+    const generator = new ImageGenerator([fakeProvider("a"), b], "a", "a", undefined, fast);
+    const generated = await generator.generate("a cat", { provider: "b", model: "b-2", aspectRatio: "1:1", count: 2 });
+    assert.deepEqual(generated, { images: [Buffer.from("b")], provider: "b", model: "b-2", failures: [] });
+    assert.equal(b.generate.mock.calls[0].arguments[0], "a cat");
+    assert.deepEqual({ ...b.generate.mock.calls[0].arguments[1], signal: undefined }, {
+      model: "b-2",
+      aspectRatio: "1:1",
+      count: 2,
+      signal: undefined,
+    });
+  });
+
+  it("falls back to the fallback's default model when the first provider fails", async () => {
+    const a = fakeProvider("a", async () => {
+      throw apiError(400, "bad request");
+    });
+    const generator = new ImageGenerator([a, fakeProvider("b")], "a", "b", "a-2", fast);
+    const generated = await generator.generate("a cat");
+    assert.equal(generated.provider, "b");
+    assert.equal(generated.model, "b-1");
+    assert.deepEqual(generated.failures, [{ provider: "a", error: "bad request", code: "GENERATION_FAILED" }]);
+  });
+
+  it("skips providers that aren't configured", async () => {
+    const a = fakeProvider("a", undefined, false);
+    const generator = new ImageGenerator([a, fakeProvider("b")], "a", "b", undefined, fast);
+    assert.deepEqual((await generator.generate("a cat")).failures, [
+      { provider: "a", error: "not configured", code: "GENERATION_FAILED" },
+    ]);
+    assert.equal(a.generate.mock.callCount(), 0);
+  });
+
+  it("reports the most useful failure when every provider fails", async () => {
+    const generator = new ImageGenerator(
+      [
+        fakeProvider("a", async () => {
+          throw apiError(500, "server error");
+        }),
+        fakeProvider("b", async () => {
+          throw apiError(429, "billing", "insufficient_quota");
+        }),
+      ],
+      "a",
+      "b",
+      undefined,
+      fast
+    );
+    await assert.rejects(generator.generate("a cat"), {
+      code: "QUOTA_EXCEEDED",
+      message: "Failed to generate image: a: server error; b: billing",
+    });
+  });
+
+  it("doesn't ask the fallback for a picture the first provider refused", async () => {
+    const b = fakeProvider("b");
+    const generator = new ImageGenerator(
+      [
+        fakeProvider("a", async () => {
+          throw new AppError("GENERATION_BLOCKED", "Let's dream up something else!");
+        }),
+        b,
+      ],
+      "a",
+      "b",
+      undefined,
+      fast
+    );
+    await assert.rejects(generator.generate("a scary thing"), { code: "GENERATION_BLOCKED" });
+    assert.equal(b.generate.mock.callCount(), 0);
+  });
+});
+
+describe("ImagenProvider", () => {
+  const imageBytes = Buffer.from("png").toString("base64");
+
+  function imagen(answer: (numberOfImages: number) => object) {
+    const provider = new ImagenProvider("test-key");
+    const generateImages = mock.method(provider["ai"].models, "generateImages", async (request: { config: { numberOfImages: number } }) =>
+      answer(request.config.numberOfImages)
+    );
+    return { provider, generateImages };
+  }
+
+  const images = (count: number) => ({ generatedImages: Array.from({ length: count }, () => ({ image: { imageBytes } })) });
+
+  it("asks Imagen 4 Ultra for one image at a time", async () => {
+    const { provider, generateImages } = imagen(images);
+    const result = await provider.generate("a cat", { model: "imagen-4.0-ultra-generate-001", count: 3 });
+    assert.equal(result.length, 3);
+    assert.deepEqual(generateImages.mock.calls.map((call) => call.arguments[0].config?.numberOfImages), [1, 1, 1]);
+  });
+
+  it("asks other models for every image at once", async () => {
+    const { provider, generateImages } = imagen(images);
+    assert.deepEqual(await provider.generate("a cat", { count: 3 }), [Buffer.from("png"), Buffer.from("png"), Buffer.from("png")]);
+    assert.deepEqual(generateImages.mock.calls.map((call) => call.arguments[0].config?.numberOfImages), [3]);
+  });
+
+  it("treats filtered images as blocked", async () => {
+    const { provider } = imagen(() => ({ generatedImages: [{ raiFilteredReason: "violence" }] }));
+    await assert.rejects(provider.generate("a cat"), { code: "GENERATION_BLOCKED" });
+    const empty = imagen(() => ({}));
+    await assert.rejects(empty.provider.generate("a cat"), { code: "GENERATION_BLOCKED" });
+  });
+});
+
+describe("OpenAIImageProvider", () => {
+  it("treats a safety-system refusal as blocked", async () => {
+    const provider = new OpenAIImageProvider("test-key");
+    mock.method(provider["openai"].images, "generate", async () => {
+      throw apiError(400, "Your request was rejected by the safety system", "content_policy_violation");
+    });
+    await assert.rejects(provider.generate("a cat"), { code: "GENERATION_BLOCKED" });
+  });
+
+  it("passes other errors on", async () => {
+    const provider = new OpenAIImageProvider("test-key");
+    mock.method(provider["openai"].images, "generate", async () => {
+      throw apiError(500, "server error");
+    });
+    await assert.rejects(provider.generate("a cat"), { message: "server error" });
+  });
+});
+
+describe("StubImageProvider", () => {
+  it("draws the same picture for the same prompt", async () => {
+    const stub = new StubImageProvider();
+    const [first] = await stub.generate("a cat");
+    const [second] = await stub.generate("a cat");
+    assert.ok(first.equals(second));
+    const candidates = await stub.generate("a cat", { count: 2 });
+    assert.ok(candidates[0].equals(first));
+    assert.ok(!candidates[1].equals(first));
+  });
+});
+
+describe("createImageGenerator", () => {
+  it("falls back to OpenAI only when Imagen is the default", () => {
+    assert.equal(createImageGenerator({}).fallbackProvider, "openai");
+    assert.equal(createImageGenerator({ IMAGE_PROVIDER: "stub" }).fallbackProvider, undefined);
+    assert.equal(createImageGenerator({ IMAGE_FALLBACK_PROVIDER: "none" }).fallbackProvider, undefined);
+  });
+
+  it("checks the provider and model", () => {
+    assert.throws(() => createImageGenerator({ IMAGE_PROVIDER: "paint" }), /Unknown image provider: paint/);
+    assert.throws(() => createImageGenerator({ IMAGE_MODEL: "dall-e-3" }), /Unknown model for imagen: dall-e-3/);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { JobQueue, type JobState, type PrintJob } from "../src/jobs.ts";
+import type { PrinterBackend, PrintResult } from "../src/backend.ts";
+import { createScriptedRunner, setCommandRunner } from "../src/runner.ts";
+
+let directory: string;
+const queues: JobQueue[] = [];
+
+beforeEach(() => {
+  directory = fs.mkdtempSync(path.join(os.tmpdir(), "jobs-test-"));
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+  mock.method(console, "error", () => {});
+});
+
+afterEach(() => {
+  for (const queue of queues.splice(0)) queue.stop();
+  setCommandRunner();
+  fs.rmSync(directory, { recursive: true, force: true });
+  mock.restoreAll();
+});
+
+/**
+ * A backend that only prints, answering from `print`
+ */
+function fakeBackend(print: () => Promise<PrintResult>): PrinterBackend & { print: ReturnType<typeof mock.fn> } {
+  return { type: "fake", print: mock.fn(print) } as unknown as PrinterBackend & { print: ReturnType<typeof mock.fn> };
+}
+
+async function startQueue(backend: PrinterBackend, options: ConstructorParameters<typeof JobQueue>[1] = {}): Promise<JobQueue> {
+  const queue = new JobQueue(backend, { directory, retryDelay: 1, pollInterval: 5, ...options });
+  queues.push(queue);
+  await queue.start();
+  return queue;
+}
+
+/**
+ * Resolve once a job reaches a state
+ */
+function reaches(queue: JobQueue, id: string, state: JobState): Promise<PrintJob> {
+  return new Promise((resolve) => {
+    const check = (job: PrintJob) => {
+      if (job.id === id && job.state === state) {
+        queue.off("change", check);
+        resolve(job);
+      }
+    };
+    queue.on("change", check);
+    const job = queue.get(id);
+    if (job) check(job);
+  });
+}
+
+describe("JobQueue", () => {
+  it("prints a job", async () => {
+    const backend = fakeBackend(async () => ({ printerName: "Cat", jobId: "cat-1", completed: true }));
+    const queue = await startQueue(backend);
+    const job = await queue.enqueue(Buffer.from("png"), { copies: 2 });
+
+    const done = await reaches(queue, job.id, "completed");
+    assert.equal(done.printerName, "Cat");
+    assert.equal(done.attempts, 1);
+    assert.deepEqual(backend.print.mock.calls[0].arguments.slice(0, 2), [Buffer.from("png"), { copies: 2 }]);
+  });
+
+  it("retries a failing job and gives up after the last attempt", async () => {
+    const backend = fakeBackend(async () => {
+      throw new Error("printer unplugged");
+    });
+    const queue = await startQueue(backend, { maxAttempts: 2 });
+    const job = await queue.enqueue(Buffer.from("png"));
+
+    const failed = await reaches(queue, job.id, "failed");
+    assert.equal(failed.attempts, 2);
+    assert.equal(failed.error, "printer unplugged");
+    assert.equal(backend.print.mock.callCount(), 2);
+  });
+
+  it("follows a job CUPS accepted until it leaves the queue", async () => {
+    let pending = "Canon-12   wes   1024   Mon 19 Oct 2026 10:00:00\n";
+    setCommandRunner(
+      createScriptedRunner({
+        "lpstat -o": () => pending,
+        lpq: () => (pending ? "active  wes     12      a.png    10 bytes\n" : "no entries\n"),
+      })
+    );
+    const backend = fakeBackend(async () => ({ printerName: "Canon", jobId: "12" }));
+    const queue = await startQueue(backend);
+    const job = await queue.enqueue(Buffer.from("png"));
+
+    assert.equal((await reaches(queue, job.id, "printing")).backendJobId, "12");
+    pending = "";
+    await reaches(queue, job.id, "completed");
+  });
+
+  it("cancels a queued job", async () => {
+    const backend = fakeBackend(() => new Promise(() => {}));
+    const queue = await startQueue(backend);
+    const busy = await queue.enqueue(Buffer.from("png"));
+    const waiting = await queue.enqueue(Buffer.from("png"));
+
+    const cancelled = await queue.cancel(waiting.id);
+    assert.equal(cancelled.state, "cancelled");
+    await assert.rejects(queue.cancel(waiting.id), /already cancelled/);
+    await assert.rejects(queue.cancel("nope"), /Job not found/);
+    assert.equal(queue.get(busy.id)?.state, "queued");
+  });
+
+  it("picks up saved jobs after a restart and trims the history", async () => {
+    const first = await startQueue(fakeBackend(async () => ({ printerName: "Cat", jobId: "cat-1", completed: true })), {
+      historyLimit: 1,
+    });
+    const older = await first.enqueue(Buffer.from("png"));
+    await reaches(first, older.id, "completed");
+    const newer = await first.enqueue(Buffer.from("png"));
+    await reaches(first, newer.id, "completed");
+    first.stop();
+
+    const backend = fakeBackend(() => new Promise(() => {}));
+    const second = await startQueue(backend);
+    assert.deepEqual(
+      second.list().map((job) => [job.id, job.state]),
+      [[newer.id, "completed"]]
+    );
+    assert.equal(backend.print.mock.callCount(), 0);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { guessLanguage, languageCode } from "../src/language.ts";
+
+describe("languageCode", () => {
+  it("accepts codes and Whisper's language names", () => {
+    assert.equal(languageCode("ja"), "ja");
+    assert.equal(languageCode(" EN "), "en");
+    assert.equal(languageCode("Japanese"), "ja");
+    assert.equal(languageCode("klingon"), undefined);
+    assert.equal(languageCode(""), undefined);
+    assert.equal(languageCode(undefined), undefined);
+  });
+});
+
+describe("guessLanguage", () => {
+  it("goes by the script for Japanese, Korean and Chinese", () => {
+    assert.equal(guessLanguage("ピンクのユニコーン"), "ja");
+    // Kanji with kana is Japanese, kanji alone is read as Chinese
+    assert.equal(guessLanguage("恐竜がいる"), "ja");
+    assert.equal(guessLanguage("恐龙"), "zh");
+    assert.equal(guessLanguage("공룡"), "ko");
+  });
+
+  it("goes by letters only some languages use", () => {
+    assert.equal(guessLanguage("niño"), "es");
+    assert.equal(guessLanguage("garçon"), "fr");
+  });
+
+  it("goes by common short words", () => {
+    assert.equal(guessLanguage("a cat with a hat"), "en");
+    assert.equal(guessLanguage("un gato con sombrero"), "es");
+    assert.equal(guessLanguage("un chat avec un chapeau"), "fr");
+    assert.equal(guessLanguage("ein Hund mit einem Hut"), "de");
+    assert.equal(guessLanguage("un cane con il cappello"), "it");
+    assert.equal(guessLanguage("um gato com chapéu"), "pt");
+    assert.equal(guessLanguage("een hond met een hoed"), "nl");
+  });
+
+  it("doesn't guess without anything to go on", () => {
+    assert.equal(guessLanguage("dinosaur"), undefined);
+    assert.equal(guessLanguage("123"), undefined);
+    assert.equal(guessLanguage(""), undefined);
+  });
+});
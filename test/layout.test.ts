@@ -0,0 +1,17 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { gridSize, validateSheetGrid } from "../src/layout.ts";
+
+describe("validateSheetGrid", () => {
+  it("accepts presets and whole-number grids", () => {
+    assert.equal(validateSheetGrid(4), 4);
+    assert.deepEqual(validateSheetGrid({ columns: 3, rows: 2, extra: true }), { columns: 3, rows: 2 });
+    assert.deepEqual(gridSize(validateSheetGrid(2)), { columns: 1, rows: 2 });
+  });
+
+  it("rejects anything else", () => {
+    for (const grid of [3, "4", null, {}, { columns: 2, rows: 0 }, { columns: 1.5, rows: 2 }, { columns: "2", rows: 2 }]) {
+      assert.throws(() => validateSheetGrid(grid), /Invalid grid/, JSON.stringify(grid));
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import type OpenAI from "openai";
+import {
+  createOpenAIClassifier,
+  DEFAULT_ALLOWLIST,
+  DEFAULT_BLOCKLIST,
+  moderationConfigFromEnv,
+  PromptModerator,
+  type ModerationConfig,
+} from "../src/moderation.ts";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "moderation-"));
+  mock.method(console, "log", () => {});
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  mock.restoreAll();
+});
+
+function moderator(config: Partial<ModerationConfig> = {}): PromptModerator {
+  return new PromptModerator({
+    blocklist: DEFAULT_BLOCKLIST,
+    allowlist: DEFAULT_ALLOWLIST,
+    logFile: path.join(dir, "moderation.jsonl"),
+    ...config,
+  });
+}
+
+/**
+ * An OpenAI client whose chat completions are answered by `create`
+ */
+function fakeOpenAI(create: (body: unknown, options: { signal: AbortSignal }) => Promise<unknown>): OpenAI {
+  return { chat: { completions: { create } } } as unknown as OpenAI;
+}
+
+describe("PromptModerator.checkWords", () => {
+  it("blocks plurals, past tenses and irregular forms", () => {
+    for (const prompt of [
+      "the knight killed the dragon",
+      "a cat that kills mice",
+      "a drawer full of knives",
+      "bombs falling",
+      "he got shot",
+      "a box of weapons",
+      "a volcano exploding",
+      "stabbing",
+    ]) {
+      assert.equal(moderator().checkWords(prompt).allowed, false, prompt);
+    }
+  });
+
+  it("names the blocked term", () => {
+    assert.deepEqual(moderator().checkWords("Two BOMBS!"), { allowed: false, source: "blocklist", reason: "bomb" });
+  });
+
+  it("allows harmless phrases, in the plural too", () => {
+    for (const prompt of [
+      "two killer whales",
+      "shooting stars over the sea",
+      "water guns at the pool",
+      "grandma weeding the garden",
+      "a warning sign",
+      "skills",
+      "a puppy astronaut",
+    ]) {
+      assert.deepEqual(moderator().checkWords(prompt), { allowed: true, source: "default" }, prompt);
+    }
+  });
+
+  it("still blocks a term next to an allowed phrase", () => {
+    assert.equal(moderator().checkWords("a killer whale with a gun").allowed, false);
+  });
+});
+
+describe("PromptModerator.check", () => {
+  it("gives a friendly message and logs blocked prompts", async () => {
+    const mod = moderator();
+    const verdict = await mod.check("a big gun");
+    assert.equal(verdict.allowed, false);
+    assert.ok(verdict.message);
+    assert.deepEqual(
+      (await mod.getLog()).map((entry) => [entry.prompt, entry.reason]),
+      [["a big gun", "gun"]]
+    );
+  });
+
+  it("asks the classifier only when the word lists allow the prompt", async () => {
+    const classifier = mock.fn(async () => ({ flagged: true, category: "scary" }));
+    const mod = moderator({ classifier });
+    assert.equal((await mod.check("a bloody ghost")).source, "blocklist");
+    assert.equal(classifier.mock.callCount(), 0);
+    assert.deepEqual(
+      { ...(await mod.check("a ghost")), message: undefined },
+      { allowed: false, source: "classifier", reason: "scary", message: undefined }
+    );
+  });
+
+  it("lets prompts through when the classifier fails, unless failing closed", async () => {
+    const classifier = async () => {
+      throw new Error("down");
+    };
+    assert.equal((await moderator({ classifier }).check("a ghost")).allowed, true);
+    assert.deepEqual(
+      { ...(await moderator({ classifier, failClosed: true }).check("a ghost")), message: undefined },
+      { allowed: false, source: "classifier", reason: "classifier unavailable", message: undefined }
+    );
+  });
+});
+
+describe("createOpenAIClassifier", () => {
+  it("reads the model's JSON answer", async () => {
+    const classify = createOpenAIClassifier(
+      fakeOpenAI(async () => ({ choices: [{ message: { content: '{"flagged": true, "category": "violence"}' } }] }))
+    );
+    assert.deepEqual(await classify("a fight"), { flagged: true, category: "violence" });
+  });
+
+  it("gives up on a classifier that doesn't answer in time", async () => {
+    let signal: AbortSignal | undefined;
+    const classify = createOpenAIClassifier(
+      fakeOpenAI((_, options) => {
+        signal = options.signal;
+        return new Promise(() => {});
+      }),
+      "gpt-4o-mini",
+      { timeoutMs: 20, retries: 0 }
+    );
+    await assert.rejects(classify("a ghost"), /moderation timed out after 20ms/);
+    assert.equal(signal?.aborted, true);
+  });
+});
+
+describe("moderationConfigFromEnv", () => {
+  it("checks the classifier settings", () => {
+    const openai = fakeOpenAI(async () => ({}));
+    assert.ok(moderationConfigFromEnv(openai, { MODERATION_CLASSIFIER: "openai", MODERATION_TIMEOUT_MS: "5000" }).classifier);
+    assert.throws(
+      () => moderationConfigFromEnv(openai, { MODERATION_CLASSIFIER: "openai", MODERATION_TIMEOUT_MS: "soon" }),
+      /Invalid MODERATION_TIMEOUT_MS: soon/
+    );
+    assert.throws(() => moderationConfigFromEnv(openai, { MODERATION_CLASSIFIER: "magic" }), /Unknown MODERATION_CLASSIFIER/);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { NiimbotCommand, NiimbotEncoder, niimbotPacket } from "../src/niimbot.ts";
+import { sendBitmap } from "../src/encoder.ts";
+import { createMemoryTransport } from "../src/transport.ts";
+import type { MonoBitmap } from "../src/bitmap.ts";
+
+describe("niimbotPacket", () => {
+  it("frames a command with an XOR checksum", () => {
+    assert.deepEqual([...niimbotPacket(NiimbotCommand.StartPrint)], [0x55, 0x55, 0x01, 0x01, 0x01, 0x01, 0xaa, 0xaa]);
+    assert.deepEqual(
+      [...niimbotPacket(NiimbotCommand.SetQuantity, [0x00, 0x02])],
+      [0x55, 0x55, 0x15, 0x02, 0x00, 0x02, 0x15, 0xaa, 0xaa]
+    );
+  });
+});
+
+describe("NiimbotEncoder", () => {
+  // 8x3: two identical black-left rows, then a blank row
+  const bitmap: MonoBitmap = { width: 8, height: 3, bytesPerRow: 1, data: Uint8Array.from([0xf0, 0xf0, 0x00]) };
+
+  it("sends the page setup, repeated and empty rows, then ends the page", async () => {
+    const transport = createMemoryTransport();
+    await sendBitmap(new NiimbotEncoder({ dotWidth: 8 }), bitmap, transport, 2);
+
+    assert.deepEqual(
+      transport.bytes(),
+      Buffer.concat([
+        niimbotPacket(NiimbotCommand.SetLabelDensity, [3]),
+        niimbotPacket(NiimbotCommand.SetLabelType, [1]),
+        niimbotPacket(NiimbotCommand.StartPrint),
+        niimbotPacket(NiimbotCommand.StartPagePrint),
+        niimbotPacket(NiimbotCommand.SetDimension, [0x00, 0x03, 0x00, 0x08]),
+        niimbotPacket(NiimbotCommand.SetQuantity, [0x00, 0x02]),
+        // Row 0, dot counts per third, repeated twice
+        niimbotPacket(NiimbotCommand.PrintBitmapRow, [0x00, 0x00, 4, 0, 0, 2, 0xf0]),
+        // Row 2, blank once
+        niimbotPacket(NiimbotCommand.PrintEmptyRow, [0x00, 0x02, 1]),
+        niimbotPacket(NiimbotCommand.EndPagePrint),
+        niimbotPacket(NiimbotCommand.EndPrint),
+      ])
+    );
+  });
+
+  it("centers the image on a taller label", () => {
+    const packets = new NiimbotEncoder({ dotWidth: 8, labelHeight: 7, labelType: "continuous" }).encode(bitmap);
+    const rows = packets.filter(
+      (packet) => packet[2] === NiimbotCommand.PrintBitmapRow || packet[2] === NiimbotCommand.PrintEmptyRow
+    );
+
+    assert.deepEqual(packets[1], niimbotPacket(NiimbotCommand.SetLabelType, [3]));
+    assert.deepEqual(packets[4], niimbotPacket(NiimbotCommand.SetDimension, [0x00, 0x07, 0x00, 0x08]));
+    assert.deepEqual(rows, [
+      niimbotPacket(NiimbotCommand.PrintEmptyRow, [0x00, 0x00, 2]),
+      niimbotPacket(NiimbotCommand.PrintBitmapRow, [0x00, 0x02, 4, 0, 0, 2, 0xf0]),
+      niimbotPacket(NiimbotCommand.PrintEmptyRow, [0x00, 0x04, 3]),
+    ]);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { formatOverlayDate, isValidTimeZone, overlayBlocks } from "../src/overlay.ts";
+
+describe("formatOverlayDate", () => {
+  // 23:30 UTC on the 18th is already the 19th in Tokyo
+  const date = new Date("2026-10-18T23:30:00Z");
+
+  it("writes the day in UTC by default, whatever the host's time zone", () => {
+    assert.equal(formatOverlayDate(date), "18 Oct 2026");
+  });
+
+  it("writes the day in the given time zone", () => {
+    assert.equal(formatOverlayDate(date, "Asia/Tokyo"), "19 Oct 2026");
+    assert.equal(formatOverlayDate(date, "America/Toronto"), "18 Oct 2026");
+  });
+
+  it("recognises time zone names", () => {
+    assert.equal(isValidTimeZone("Europe/Paris"), true);
+    assert.equal(isValidTimeZone("Mars/Olympus"), false);
+  });
+});
+
+describe("overlayBlocks", () => {
+  it("puts the name and date together on the last line", () => {
+    const date = new Date("2026-10-19T12:00:00Z");
+    assert.deepEqual(overlayBlocks({ caption: " Happy birthday! ", prompt: "a dog", name: "さくら", date, timeZone: "Asia/Tokyo" }), [
+      "Happy birthday!",
+      "a dog",
+      "さくら - 19 Oct 2026",
+    ]);
+    assert.deepEqual(overlayBlocks({ name: " " }), []);
+  });
+});
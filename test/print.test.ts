@@ -0,0 +1,382 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import {
+  buildPrintArgs,
+  cancelPrintJob,
+  checkAndResumePrinter,
+  enablePrinter,
+  getAllPrinters,
+  getPendingJobs,
+  getPrinterInfo,
+  getPrinterQueue,
+  getPrintJobStatus,
+  isPrinterEnabled,
+  parseLpq,
+  parseLpstatJobs,
+  parsePrinterStatus,
+  printImage,
+  printToUSB,
+  validateJobId,
+  validatePrinterName,
+  watchAndResumePrinters,
+  type PrinterEvent,
+} from "../src/print.ts";
+import { createScriptedRunner, setCommandRunner, type ScriptedResponse } from "../src/runner.ts";
+
+beforeEach(() => {
+  // print.ts narrates every CUPS call; keep the test output readable.
+  mock.method(console, "log", () => {});
+  mock.method(console, "error", () => {});
+});
+
+afterEach(() => {
+  setCommandRunner();
+  mock.restoreAll();
+});
+
+describe("validatePrinterName", () => {
+  it("accepts CUPS queue names", () => {
+    assert.equal(validatePrinterName("Canon_XK130"), "Canon_XK130");
+    assert.equal(validatePrinterName("Zebra-4x6.2"), "Zebra-4x6.2");
+  });
+
+  it("rejects names that could be read as flags or split by a shell", () => {
+    for (const name of ["", "-d", "a b", "a/b", "a#b", "a;$(rm)", "a\nb", "x".repeat(128)]) {
+      assert.throws(() => validatePrinterName(name), /Invalid printer name/, name);
+    }
+  });
+});
+
+describe("validateJobId", () => {
+  it("accepts bare and printer-qualified job IDs", () => {
+    assert.equal(validateJobId("12"), "12");
+    assert.equal(validateJobId("Canon_XK130-12"), "Canon_XK130-12");
+  });
+
+  it("rejects anything else", () => {
+    for (const jobId of ["", "abc", "-12", "12 13", "Canon XK130-12"]) {
+      assert.throws(() => validateJobId(jobId), /Invalid (job ID|printer name)/, jobId);
+    }
+  });
+});
+
+describe("buildPrintArgs", () => {
+  it("passes the printer and file with no options", () => {
+    assert.deepEqual(buildPrintArgs("Canon", "/tmp/a.png"), ["-d", "Canon", "--", "/tmp/a.png"]);
+  });
+
+  it("adds copies, media, grayscale, fit and custom options", () => {
+    const args = buildPrintArgs("Canon", "/tmp/a.png", {
+      copies: 3,
+      media: "4x6",
+      grayscale: true,
+      fitToPage: true,
+      cupOptions: { "print-quality": "5" },
+    });
+    assert.deepEqual(args, [
+      "-d", "Canon",
+      "-n", "3",
+      "-o", "media=4x6",
+      "-o", "ColorModel=Gray",
+      "-o", "fit-to-page",
+      "-o", "print-quality=5",
+      "--", "/tmp/a.png",
+    ]);
+  });
+
+  it("keeps a file that looks like a flag after --", () => {
+    assert.deepEqual(buildPrintArgs("Canon", "-o"), ["-d", "Canon", "--", "-o"]);
+  });
+
+  it("rejects options that would smuggle in extra options", () => {
+    assert.throws(() => buildPrintArgs("Canon", "a.png", { media: "4x6 -o evil" }), /Invalid print option/);
+    assert.throws(() => buildPrintArgs("Canon", "a.png", { cupOptions: { "a b": "1" } }), /Invalid print option/);
+    assert.throws(() => buildPrintArgs("-x", "a.png"), /Invalid printer name/);
+  });
+});
+
+describe("parseLpq", () => {
+  it("reads jobs in queue order", () => {
+    const jobs = parseLpq(
+      [
+        "Canon_XK130 is ready and printing",
+        "Rank    Owner   Job     File(s)                         Total Size",
+        "active  wes     12      print-temp-1.png                123456 bytes",
+        "1st     wes     13      my sticker.png                  2048 bytes",
+        "",
+      ].join("\n")
+    );
+    assert.deepEqual(jobs, [
+      { jobId: "12", owner: "wes", rank: "active", isActive: true, files: "print-temp-1.png", sizeBytes: 123456 },
+      { jobId: "13", owner: "wes", rank: "1st", isActive: false, files: "my sticker.png", sizeBytes: 2048 },
+    ]);
+  });
+
+  it("returns nothing for an empty queue", () => {
+    assert.deepEqual(parseLpq("Canon_XK130 is ready\nno entries\n"), []);
+  });
+});
+
+describe("parseLpstatJobs", () => {
+  it("splits the printer from the job ID", () => {
+    const jobs = parseLpstatJobs(
+      "Canon_XK130-12   wes   123456   Mon 19 Oct 2026 10:00:00\nZebra-4x6-7   kid   99   Mon 19 Oct 2026 10:01:00\n"
+    );
+    assert.deepEqual(jobs, [
+      { jobId: "12", printerName: "Canon_XK130", owner: "wes", isActive: false, sizeBytes: 123456, submittedAt: "Mon 19 Oct 2026 10:00:00" },
+      { jobId: "7", printerName: "Zebra-4x6", owner: "kid", isActive: false, sizeBytes: 99, submittedAt: "Mon 19 Oct 2026 10:01:00" },
+    ]);
+  });
+});
+
+describe("CUPS commands", () => {
+  it("lists printers and flags USB and Bluetooth ones", async () => {
+    setCommandRunner(
+      createScriptedRunner({
+        "lpstat -p -d": [
+          "printer Canon_XK130 is idle.  enabled since Mon 19 Oct 2026",
+          "printer Cat is idle.  enabled since Mon 19 Oct 2026",
+          "printer Office disabled since Mon 19 Oct 2026",
+          "system default destination: Canon_XK130",
+        ].join("\n"),
+        "lpstat -v": [
+          "device for Canon_XK130: usb://Canon/XK130?serial=1",
+          "device for Cat: bluetooth://AA:BB",
+          "device for Office: ipp://10.0.0.5/ipp/print",
+        ].join("\n"),
+      })
+    );
+
+    const printers = await getAllPrinters();
+    assert.deepEqual(
+      printers.map(({ name, isDefault, isUSB, isBluetooth }) => ({ name, isDefault, isUSB, isBluetooth })),
+      [
+        { name: "Canon_XK130", isDefault: true, isUSB: true, isBluetooth: false },
+        { name: "Cat", isDefault: false, isUSB: false, isBluetooth: true },
+        { name: "Office", isDefault: false, isUSB: false, isBluetooth: false },
+      ]
+    );
+  });
+
+  it("queries one printer's queue with an argument array", async () => {
+    const runner = createScriptedRunner({
+      lpq: "active  wes     12      a.png    10 bytes\n",
+    });
+    setCommandRunner(runner);
+
+    const jobs = await getPrinterQueue("Canon_XK130");
+    assert.deepEqual(runner.calls, [["lpq", "-P", "Canon_XK130"]]);
+    assert.equal(jobs[0].printerName, "Canon_XK130");
+    await assert.rejects(getPrinterQueue("a;b c"), /Invalid printer name/);
+    assert.equal(runner.calls.length, 1);
+  });
+
+  it("wraps command failures", async () => {
+    setCommandRunner(createScriptedRunner({ lpstat: new Error("lpstat: Scheduler is not running") }));
+    await assert.rejects(getPendingJobs(), /Failed to get pending jobs: lpstat: Scheduler is not running/);
+  });
+});
+
+describe("parsePrinterStatus", () => {
+  it("reads paused, offline and out-of-media printers", () => {
+    assert.deepEqual(parsePrinterStatus("printer Canon disabled since Mon -\n\tmedia-empty-error\n"), {
+      isPaused: true,
+      isOffline: false,
+      isOutOfMedia: true,
+      message: "printer Canon disabled since Mon -\n\tmedia-empty-error",
+    });
+    assert.equal(parsePrinterStatus("printer Canon is idle. Waiting for printer to become available.").isOffline, true);
+    assert.equal(parsePrinterStatus("printer Canon is idle.  enabled since Mon").isPaused, false);
+  });
+});
+
+describe("printer control", () => {
+  it("checks whether a printer is enabled", async () => {
+    setCommandRunner(
+      createScriptedRunner({
+        "lpstat -p Canon": "printer Canon is idle.  enabled since Mon\n",
+        "lpstat -p Zebra": "printer Zebra disabled since Mon -\n\tPaused\n",
+      })
+    );
+    assert.equal(await isPrinterEnabled("Canon"), true);
+    assert.equal(await isPrinterEnabled("Zebra"), false);
+  });
+
+  it("enables a printer and makes it accept jobs", async () => {
+    const runner = createScriptedRunner({ cupsenable: "", cupsaccept: "" });
+    setCommandRunner(runner);
+
+    assert.match(await enablePrinter("Canon"), /enabled/);
+    assert.deepEqual(runner.calls, [["cupsenable", "Canon"], ["cupsaccept", "Canon"]]);
+    await assert.rejects(enablePrinter("-E"), /Failed to enable printer: Invalid printer name/);
+    assert.equal(runner.calls.length, 2);
+  });
+
+  it("resumes a paused printer only when asked to", async () => {
+    const runner = createScriptedRunner({
+      lpstat: "printer Canon disabled since Mon -\n\tPaused\n",
+      cupsenable: "",
+      cupsaccept: "",
+    });
+    setCommandRunner(runner);
+
+    assert.deepEqual(await checkAndResumePrinter("Canon", false), {
+      wasEnabled: false,
+      message: 'Printer "Canon" is paused/disabled',
+    });
+    assert.equal(runner.calls.some(([file]) => file === "cupsenable"), false);
+
+    const resumed = await checkAndResumePrinter("Canon");
+    assert.equal(resumed.wasEnabled, false);
+    assert.match(resumed.message, /was paused/);
+    assert.ok(runner.calls.some(([file]) => file === "cupsenable"));
+  });
+
+  it("reads a printer's options", async () => {
+    const runner = createScriptedRunner({ lpoptions: "PageSize/Media Size: *4x6 4x4\n" });
+    setCommandRunner(runner);
+
+    assert.equal(await getPrinterInfo("Canon"), "PageSize/Media Size: *4x6 4x4\n");
+    assert.deepEqual(runner.calls, [["lpoptions", "-p", "Canon", "-l"]]);
+    await assert.rejects(getPrinterInfo("a b"), /Failed to get printer info/);
+  });
+});
+
+describe("jobs", () => {
+  it("cancels one job or every job on a printer", async () => {
+    const runner = createScriptedRunner({ cancel: "" });
+    setCommandRunner(runner);
+
+    await cancelPrintJob("12");
+    await cancelPrintJob("Canon-12");
+    await cancelPrintJob("Canon");
+    assert.deepEqual(runner.calls, [["cancel", "12"], ["cancel", "Canon-12"], ["cancel", "Canon"]]);
+    await assert.rejects(cancelPrintJob("-a"), /Failed to cancel job: Invalid printer name/);
+    assert.equal(runner.calls.length, 3);
+  });
+
+  it("shows the status of one job", async () => {
+    const runner = createScriptedRunner({ lpq: "no entries\n" });
+    setCommandRunner(runner);
+
+    assert.equal(await getPrintJobStatus("Canon-12"), "no entries\n");
+    await getPrintJobStatus();
+    assert.deepEqual(runner.calls, [["lpq", "Canon-12"], ["lpq"]]);
+    await assert.rejects(getPrintJobStatus("12;rm"), /Invalid job ID/);
+  });
+});
+
+describe("printImage", () => {
+  const printers = {
+    "lpstat -p -d": "printer Canon is idle.  enabled since Mon\nsystem default destination: Canon\n",
+    "lpstat -v": "device for Canon: usb://Canon/XK130\n",
+  };
+
+  it("writes a buffer to a temporary file, prints it with lp and cleans up", async () => {
+    let printedPath = "";
+    const runner = createScriptedRunner({
+      ...printers,
+      lp: (args) => {
+        printedPath = args[args.length - 1];
+        assert.equal(fs.readFileSync(printedPath, "utf8"), "not really a png");
+        return "request id is Canon-42 (1 file(s))\n";
+      },
+    });
+    setCommandRunner(runner);
+
+    const jobId = await printImage("Canon", Buffer.from("not really a png"), { copies: 2 });
+    assert.equal(jobId, "42");
+    assert.deepEqual(runner.calls.at(-1), ["lp", "-d", "Canon", "-n", "2", "--", printedPath]);
+    assert.equal(fs.existsSync(printedPath), false);
+  });
+
+  it("refuses printers CUPS doesn't know and files that don't exist", async () => {
+    const runner = createScriptedRunner({ ...printers, lp: "request id is Canon-1\n" });
+    setCommandRunner(runner);
+
+    await assert.rejects(printImage("Zebra", Buffer.from("x")), /Failed to print: Printer not found: Zebra/);
+    await assert.rejects(printImage("Canon", "/nonexistent/sticker.png"), /File not found/);
+    assert.equal(runner.calls.some(([file]) => file === "lp"), false);
+  });
+
+  it("surfaces lp failures", async () => {
+    setCommandRunner(createScriptedRunner({ ...printers, lp: new Error("lp: No such destination") }));
+    await assert.rejects(printImage("Canon", Buffer.from("x")), /Failed to print: lp: No such destination/);
+  });
+
+  it("prints to the default USB printer", async () => {
+    setCommandRunner(createScriptedRunner({ ...printers, lp: "request id is Canon-7 (1 file(s))\n" }));
+    assert.deepEqual(await printToUSB(Buffer.from("x")), { printerName: "Canon", jobId: "7" });
+  });
+});
+
+describe("watchAndResumePrinters", () => {
+  const paused = "printer {name} disabled since Mon -\n\tPaused\n";
+
+  /**
+   * Run the watcher for one round of checks over two paused USB printers
+   */
+  async function watchOnce(script: Record<string, ScriptedResponse>) {
+    const events: PrinterEvent[] = [];
+    const errors: Error[] = [];
+    const resumed: string[] = [];
+    let rounds = 0;
+    let secondRound!: () => void;
+    const done = new Promise<void>((resolve) => (secondRound = resolve));
+
+    setCommandRunner(
+      createScriptedRunner({
+        "lpstat -p -d": () => {
+          if (++rounds === 2) secondRound();
+          return "printer Canon disabled since Mon\nprinter Zebra disabled since Mon\n";
+        },
+        "lpstat -v": "device for Canon: usb://Canon/XK130\ndevice for Zebra: usb://Zebra/ZD411\n",
+        "lpstat -o": "",
+        cupsaccept: "",
+        ...script,
+      })
+    );
+    const stop = watchAndResumePrinters({
+      interval: 1,
+      onEvent: (event) => events.push(event),
+      onError: (error) => errors.push(error),
+      onResume: (name) => resumed.push(name),
+    });
+    await done;
+    stop();
+    return { events: events.map((event) => `${event.printerName} ${event.type}`), errors, resumed };
+  }
+
+  it("keeps a printer paused when it doesn't resume, and still checks the others", async () => {
+    const result = await watchOnce({
+      "lpstat -p Canon": paused.replace("{name}", "Canon"),
+      "lpstat -p Zebra": paused.replace("{name}", "Zebra"),
+      "cupsenable Canon": new Error("cupsenable: Unauthorized"),
+      "cupsenable Zebra": "",
+    });
+
+    assert.deepEqual(result.events, ["Canon online", "Canon paused", "Zebra online", "Zebra paused"]);
+    assert.deepEqual(result.resumed, []);
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0].message, /Failed to enable printer: cupsenable: Unauthorized/);
+  });
+
+  it("reports a resume once the printer is no longer paused", async () => {
+    const status = new Map([["Canon", paused.replace("{name}", "Canon")], ["Zebra", paused.replace("{name}", "Zebra")]]);
+    const result = await watchOnce({
+      lpstat: (args) => status.get(args[1]) ?? "",
+      cupsenable: (args) => {
+        status.set(args[0], `printer ${args[0]} is idle.  enabled since Mon\n`);
+        return "";
+      },
+    });
+
+    assert.deepEqual(result.events.slice(0, 6), [
+      "Canon online", "Canon paused", "Canon resumed",
+      "Zebra online", "Zebra paused", "Zebra resumed",
+    ]);
+    assert.deepEqual(result.resumed, ["Canon", "Zebra"]);
+    assert.deepEqual(result.errors, []);
+  });
+});
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { AppError } from "../src/errors.ts";
+import { callOptionsFromEnv, GENERATION_CODES, resilientCall, TRANSCRIPTION_CODES } from "../src/resilience.ts";
+
+beforeEach(() => {
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+const fast = { timeoutMs: 1000, retries: 2, baseDelayMs: 1, maxDelayMs: 1 };
+
+function apiError(status: number): Error {
+  return Object.assign(new Error(`status ${status}`), { status });
+}
+
+describe("resilientCall", () => {
+  it("retries transient failures until one works", async () => {
+    const call = mock.fn(async () => {
+      if (call.mock.callCount() < 2) throw apiError(503);
+      return "sticker";
+    });
+    assert.equal(await resilientCall("generation", call, fast, GENERATION_CODES), "sticker");
+    assert.equal(call.mock.callCount(), 3);
+  });
+
+  it("gives up after the configured retries", async () => {
+    const call = mock.fn(async () => {
+      throw apiError(502);
+    });
+    await assert.rejects(resilientCall("generation", call, { ...fast, retries: 1 }, GENERATION_CODES), (error) => {
+      assert.ok(error instanceof AppError);
+      assert.equal(error.code, "GENERATION_FAILED");
+      return true;
+    });
+    assert.equal(call.mock.callCount(), 2);
+  });
+
+  it("doesn't retry permanent errors", async () => {
+    const blocked = new AppError("GENERATION_BLOCKED", "no");
+    const call = mock.fn(async () => {
+      throw blocked;
+    });
+    await assert.rejects(resilientCall("generation", call, fast, GENERATION_CODES), (error) => error === blocked);
+    assert.equal(call.mock.callCount(), 1);
+  });
+
+  it("aborts a slow attempt and reports the stage's timeout", async () => {
+    let signal: AbortSignal | undefined;
+    const call = mock.fn((attemptSignal: AbortSignal) => {
+      signal = attemptSignal;
+      return new Promise<never>(() => {});
+    });
+    await assert.rejects(resilientCall("transcription", call, { ...fast, timeoutMs: 20 }, TRANSCRIPTION_CODES), (error) => {
+      assert.ok(error instanceof AppError);
+      assert.equal(error.code, "TRANSCRIPTION_TIMEOUT");
+      assert.match(error.message, /transcription timed out after 20ms/);
+      return true;
+    });
+    assert.equal(signal?.aborted, true);
+    assert.equal(call.mock.callCount(), 1);
+  });
+});
+
+describe("callOptionsFromEnv", () => {
+  it("reads the stage's variables over the defaults", () => {
+    assert.deepEqual(callOptionsFromEnv("GENERATION", { timeoutMs: 60000, retries: 2 }, { GENERATION_RETRIES: "0" }), {
+      timeoutMs: 60000,
+      retries: 0,
+    });
+  });
+
+  it("rejects values that aren't whole numbers", () => {
+    for (const value of ["-1", "1.5", "soon"]) {
+      assert.throws(() => callOptionsFromEnv("GENERATION", {}, { GENERATION_TIMEOUT_MS: value }), {
+        message: `Invalid GENERATION_TIMEOUT_MS: ${value}`,
+      });
+    }
+  });
+});
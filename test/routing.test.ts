@@ -0,0 +1,46 @@
+import { afterEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { PrinterRouter } from "../src/routing.ts";
+import { createScriptedRunner, setCommandRunner } from "../src/runner.ts";
+
+afterEach(() => {
+  setCommandRunner();
+});
+
+// Two healthy USB printers
+function fakeCups() {
+  setCommandRunner(
+    createScriptedRunner({
+      "lpstat -p -d": "printer Canon is idle.  enabled since Mon\nprinter Zebra is idle.  enabled since Mon\n",
+      "lpstat -v": "device for Canon: usb://Canon\ndevice for Zebra: usb://Zebra\n",
+      lpstat: (args) => `printer ${args[1]} is idle.  enabled since Mon\n`,
+    })
+  );
+}
+
+describe("PrinterRouter", () => {
+  it("takes turns with round-robin", async () => {
+    fakeCups();
+    const router = new PrinterRouter({ printers: ["Canon", "Zebra"], strategy: "round-robin" });
+    const picks = [];
+    for (let i = 0; i < 3; i++) picks.push((await router.route()).printerName);
+    assert.deepEqual(picks, ["Canon", "Zebra", "Canon"]);
+  });
+
+  it("doesn't take a turn when peeking", async () => {
+    fakeCups();
+    const router = new PrinterRouter({ printers: ["Canon", "Zebra"], strategy: "round-robin" });
+    assert.equal((await router.route({ peek: true })).printerName, "Canon");
+    assert.equal((await router.route({ peek: true })).printerName, "Canon");
+    assert.equal((await router.route()).printerName, "Canon");
+    assert.equal((await router.route({ peek: true })).printerName, "Zebra");
+  });
+
+  it("skips printers that aren't installed", async () => {
+    fakeCups();
+    const router = new PrinterRouter({ printers: ["Missing", "Zebra"] });
+    const decision = await router.route();
+    assert.equal(decision.printerName, "Zebra");
+    assert.deepEqual(decision.skipped, [{ printerName: "Missing", reason: "not installed" }]);
+  });
+});
@@ -0,0 +1,44 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { StickerStore } from "../src/stickers.ts";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "stickers-test-"));
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+const info = { transcript: "a cat", prompt: "a cat", style: "coloring-book", provider: "stub", model: "stub" };
+
+describe("StickerStore", () => {
+  it("deletes the candidates that weren't picked", async () => {
+    const store = new StickerStore(directory);
+    const [picked, other] = await Promise.all(
+      [1, 2].map(() => store.add(Buffer.from("png"), { ...info, candidate: true, candidateGroup: "g1" }))
+    );
+    const elsewhere = await store.add(Buffer.from("png"), { ...info, candidate: true, candidateGroup: "g2" });
+
+    await store.update(picked.id, { candidate: false });
+    assert.equal(await store.removeUnpicked("g1"), 1);
+
+    assert.ok(await store.get(picked.id));
+    assert.equal(await store.get(other.id), undefined);
+    assert.equal(fs.existsSync(path.join(directory, `${other.id}.png`)), false);
+    assert.ok(await store.get(elsewhere.id));
+
+    // The index on disk agrees
+    const reloaded = new StickerStore(directory);
+    assert.equal(await reloaded.get(other.id), undefined);
+  });
+
+  it("prunes old candidates only", async () => {
+    const store = new StickerStore(directory);
+    const fresh = await store.add(Buffer.from("png"), { ...info, candidate: true });
+    const kept = await store.add(Buffer.from("png"), info);
+
+    assert.equal(await store.pruneCandidates(60_000), 0);
+    assert.ok(await store.pruneCandidates(-60_000) >= 1);
+    assert.equal(await store.get(fresh.id), undefined);
+    assert.ok(await store.get(kept.id));
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { dither, thermalOptionsForPrinter, thermalProfilesFromEnv } from "../src/thermal.ts";
+import { CupsBackend, createPrinterBackend } from "../src/backend.ts";
+import { PrinterRouter } from "../src/routing.ts";
+import { decodePngGray, encodePng } from "../src/png.ts";
+
+// A flat mid-grey image
+const grey = (value: number) => ({ width: 4, height: 4, data: new Uint8Array(16).fill(value) });
+
+describe("dither", () => {
+  it("uses the threshold for error diffusion", () => {
+    for (const method of ["floyd-steinberg", "atkinson"] as const) {
+      const dark = dither(grey(150), method, 200);
+      const light = dither(grey(150), method, 100);
+      assert.ok(dark.data.filter((v) => v === 0).length > light.data.filter((v) => v === 0).length, method);
+    }
+  });
+});
+
+describe("thermalProfilesFromEnv", () => {
+  it("layers per-printer overrides over the THERMAL_* defaults", () => {
+    const profiles = thermalProfilesFromEnv({
+      THERMAL_DOT_WIDTH: "576",
+      THERMAL_DITHER: "atkinson",
+      THERMAL_PRINTERS: '{"Zebra":{"dotWidth":832,"threshold":150}}',
+    });
+    assert.equal(thermalOptionsForPrinter(profiles, "Zebra")?.dotWidth, 832);
+    assert.equal(thermalOptionsForPrinter(profiles, "Zebra")?.dither, "atkinson");
+    assert.equal(thermalOptionsForPrinter(profiles, "Canon")?.dotWidth, 576);
+  });
+
+  it("leaves printers without settings untouched", () => {
+    const profiles = thermalProfilesFromEnv({ THERMAL_PRINTERS: '{"escpos":{"dither":"ordered"}}' });
+    assert.equal(thermalOptionsForPrinter(profiles, "Canon"), undefined);
+    assert.deepEqual(thermalOptionsForPrinter(profiles, "escpos"), { dither: "ordered" });
+  });
+
+  it("rejects bad settings", () => {
+    assert.throws(() => thermalProfilesFromEnv({ THERMAL_PRINTERS: "{" }), /Invalid THERMAL_PRINTERS/);
+    assert.throws(() => thermalProfilesFromEnv({ THERMAL_PRINTERS: "[]" }), /Invalid THERMAL_PRINTERS/);
+    assert.throws(
+      () => thermalProfilesFromEnv({ THERMAL_PRINTERS: '{"Zebra":{"dither":"blur"}}' }),
+      /Invalid THERMAL_PRINTERS: Zebra: unknown dither/
+    );
+    assert.throws(
+      () => thermalProfilesFromEnv({ THERMAL_PRINTERS: '{"Zebra":{"threshold":300}}' }),
+      /threshold must be 0-255/
+    );
+  });
+
+  it("rejects bad THERMAL_* defaults", () => {
+    for (const width of ["58mm", "0", "-384", "383.5"]) {
+      assert.throws(() => thermalProfilesFromEnv({ THERMAL_DOT_WIDTH: width }), new RegExp(`Invalid THERMAL_DOT_WIDTH: ${width}`));
+    }
+    for (const threshold of ["-1", "256", "dark"]) {
+      assert.throws(
+        () => thermalProfilesFromEnv({ THERMAL_DOT_WIDTH: "384", THERMAL_THRESHOLD: threshold }),
+        new RegExp(`Invalid THERMAL_THRESHOLD: ${threshold}`)
+      );
+    }
+    assert.throws(() => thermalProfilesFromEnv({ THERMAL_DOT_WIDTH: "384", THERMAL_THICKEN: "1.5" }), /Invalid THERMAL_THICKEN/);
+    assert.equal(thermalProfilesFromEnv({ THERMAL_DOT_WIDTH: "384", THERMAL_THRESHOLD: "0" }).defaults?.threshold, 0);
+  });
+});
+
+describe("printer backends", () => {
+  const png = encodePng({ width: 1000, height: 500, data: new Uint8Array(500000).fill(90) });
+
+  it("render each CUPS printer with its own settings", () => {
+    const backend = new CupsBackend(new PrinterRouter({ printers: ["Canon", "Zebra"] }), {
+      printers: { Zebra: { dotWidth: 832 } },
+    });
+    assert.equal(backend.render(png, {}, "Zebra").width, 832);
+    assert.equal(backend.render(png, { thermal: { dither: "threshold" } }, "Canon").width, 1000);
+  });
+
+  it("key other backends by type", () => {
+    const backend = createPrinterBackend("Canon", {
+      PRINTER_BACKEND: "escpos",
+      ESCPOS_TARGET: "file:/dev/null",
+      THERMAL_PRINTERS: '{"escpos":{"dither":"threshold","threshold":80}}',
+    });
+    const black = (threshold?: number) => {
+      const { png: rendered } = backend.render(png, { thermal: { autoLevel: false, ...(threshold ? { threshold } : {}) } });
+      return decodePngGray(rendered).data.every((value) => value === 0);
+    };
+    assert.equal(backend.render(png).width, 576);
+    // Grey 90 is lighter than the printer's 80 cut-off, but darker than a job's 100
+    assert.equal(black(), false);
+    assert.equal(black(100), true);
+  });
+});
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import type OpenAI from "openai";
+import { createTranslator, OpenAITranslator } from "../src/translate.ts";
+
+beforeEach(() => {
+  mock.method(console, "warn", () => {});
+});
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+type ChatRequest = { messages: { role: string; content: string }[] };
+
+/**
+ * An OpenAI client whose chat completions are answered by `create`
+ */
+function fakeOpenAI(create: (body: ChatRequest, options: { signal: AbortSignal }) => Promise<unknown>) {
+  const fn = mock.fn(create);
+  return { client: { chat: { completions: { create: fn } } } as unknown as OpenAI, create: fn };
+}
+
+const answer = (content: string | null) => async () => ({ choices: [{ message: { content } }] });
+
+describe("OpenAITranslator", () => {
+  it("translates into English, naming the language", async () => {
+    const { client, create } = fakeOpenAI(answer('{"prompt": " a pink unicorn "}'));
+    assert.equal(await new OpenAITranslator(client).translate("ピンクのユニコーン", "ja"), "a pink unicorn");
+
+    const { messages } = create.mock.calls[0].arguments[0];
+    assert.match(messages[0].content, /in japanese/);
+    assert.deepEqual(messages[1], { role: "user", content: "ピンクのユニコーン" });
+  });
+
+  it("fails on an empty answer", async () => {
+    for (const content of [null, "{}", '{"prompt": "  "}']) {
+      const { client } = fakeOpenAI(answer(content));
+      await assert.rejects(new OpenAITranslator(client).translate("un gato", "es"), /Empty translation/);
+    }
+  });
+
+  it("gives up on a translation that doesn't come back in time", async () => {
+    let signal: AbortSignal | undefined;
+    const { client } = fakeOpenAI((_, options) => {
+      signal = options.signal;
+      return new Promise(() => {});
+    });
+    const translator = new OpenAITranslator(client, "gpt-4o-mini", { timeoutMs: 20, retries: 0 });
+    await assert.rejects(translator.translate("un gato", "es"), { code: "GENERATION_TIMEOUT" });
+    assert.equal(signal?.aborted, true);
+  });
+
+  it("retries a server error once", async () => {
+    const { client, create } = fakeOpenAI(async () => {
+      if (create.mock.callCount() === 0) throw Object.assign(new Error("bad gateway"), { status: 502 });
+      return { choices: [{ message: { content: '{"prompt": "a cat"}' } }] };
+    });
+    const translator = new OpenAITranslator(client, "gpt-4o-mini", { retries: 1, baseDelayMs: 1 });
+    assert.equal(await translator.translate("un gato", "es"), "a cat");
+    assert.equal(create.mock.callCount(), 2);
+  });
+});
+
+describe("createTranslator", () => {
+  const { client } = fakeOpenAI(answer("{}"));
+
+  it("uses OpenAI with a key and the local model without", () => {
+    assert.equal(createTranslator(client, { OPENAI_API_KEY: "sk-test" })?.type, "openai");
+    assert.equal(createTranslator(client, {})?.type, "local");
+    assert.equal(createTranslator(client, { TRANSLATOR: "none" }), undefined);
+  });
+
+  it("checks its settings", () => {
+    assert.throws(() => createTranslator(client, { TRANSLATOR: "babelfish" }), /Unknown TRANSLATOR: babelfish/);
+    assert.throws(
+      () => createTranslator(client, { TRANSLATOR: "openai", TRANSLATOR_TIMEOUT_MS: "soon" }),
+      /Invalid TRANSLATOR_TIMEOUT_MS: soon/
+    );
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { VoiceGrammars, voiceGrammarsFromEnv } from "../src/voice.ts";
+
+const grammars = new VoiceGrammars("en");
+
+function parse(transcript: string, language = "en") {
+  const { matched: _, ...command } = grammars.get(language).parse(transcript);
+  return command;
+}
+
+describe("VoiceGrammar.parse", () => {
+  it("draws plain ideas as said", () => {
+    assert.deepEqual(parse("a dragon eating spaghetti"), { action: "generate", prompt: "a dragon eating spaghetti" });
+    assert.deepEqual(parse("a dragon again"), { action: "generate", prompt: "a dragon again" });
+  });
+
+  it("takes copies, style and size out of the prompt", () => {
+    assert.deepEqual(parse("a cat, print three of them"), { action: "generate", prompt: "a cat", copies: 3 });
+    assert.deepEqual(parse("two copies of a unicorn"), { action: "generate", prompt: "a unicorn", copies: 2 });
+    assert.deepEqual(parse("a pirate ship in pixel art style"), { action: "generate", prompt: "a pirate ship", style: "pixel-art" });
+    assert.deepEqual(parse("a big dog but bigger"), { action: "generate", prompt: "a big dog", size: "large" });
+  });
+
+  it("leaves the object of the sentence in the prompt", () => {
+    assert.deepEqual(parse("three of those dogs"), { action: "generate", prompt: "three of those dogs" });
+    assert.deepEqual(parse("print two of those robots"), { action: "generate", prompt: "print two of those robots" });
+    assert.deepEqual(parse("imprime dos de esos perros", "es"), { action: "generate", prompt: "imprime dos de esos perros" });
+  });
+
+  it("still reads 'those' as the sticker on screen at the end of a sentence", () => {
+    assert.deepEqual(parse("print two of those"), { action: "reprint", prompt: "", copies: 2 });
+    assert.deepEqual(parse("print two of those please"), { action: "reprint", prompt: "", copies: 2 });
+    assert.deepEqual(parse("two of those, and a cat"), { action: "generate", prompt: "a cat", copies: 2 });
+    assert.deepEqual(parse("un perro, imprime dos de esos", "es"), { action: "generate", prompt: "un perro", copies: 2 });
+  });
+
+  it("recognises reprints, redraws and cancels", () => {
+    assert.deepEqual(parse("print it again"), { action: "reprint", prompt: "" });
+    assert.deepEqual(parse("three more"), { action: "reprint", prompt: "", copies: 3 });
+    assert.deepEqual(parse("make it a mandala"), { action: "redraw", prompt: "", style: "mandala" });
+    assert.deepEqual(parse("never mind"), { action: "cancel", prompt: "" });
+    assert.deepEqual(parse(""), { action: "cancel", prompt: "" });
+  });
+
+  it("caps copies", () => {
+    assert.deepEqual(parse("a cat, 50 copies"), { action: "generate", prompt: "a cat", copies: 10 });
+  });
+
+  it("matches phrases inside text written without spaces", () => {
+    assert.deepEqual(parse("ねこを2枚ください", "ja"), { action: "generate", prompt: "ねこ", copies: 2 });
+  });
+});
+
+describe("VoiceGrammars", () => {
+  it("falls back to the default language", () => {
+    assert.deepEqual(parse("never mind", "de"), { action: "cancel", prompt: "" });
+  });
+});
+
+describe("voiceGrammarsFromEnv", () => {
+  it("uses the transcription language when it has phrases", () => {
+    assert.equal(voiceGrammarsFromEnv({ TRANSCRIPTION_LANGUAGE: "fr" }).defaultLanguage, "fr");
+    assert.equal(voiceGrammarsFromEnv({ TRANSCRIPTION_LANGUAGE: "de" }).defaultLanguage, "en");
+    assert.throws(() => voiceGrammarsFromEnv({ VOICE_LANGUAGE: "de" }), /Unknown VOICE_LANGUAGE: de/);
+  });
+});